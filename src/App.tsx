@@ -4,14 +4,18 @@ import { useEffect } from "react";
 import { HashRouter, Routes, Route } from "react-router-dom";
 import { AppModeProvider } from "@/contexts/AppModeContext";
 import { EditingProvider } from "@/contexts/EditingContext";
+import { getModuleLessonId } from "@/lib/section-loader";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { HierarchyReporter } from "./components/HierarchyReporter";
-import { EquationEditorModal } from "./components/editing";
+import { VariableDiagnostics } from "./components/VariableDiagnostics";
+import { EditRestorePrompt, EditReviewDrawer, EquationEditorModal } from "./components/editing";
+import { useVariableHistoryShortcuts } from "./stores";
 
 const queryClient = new QueryClient();
 
 const App = () => {
+  useVariableHistoryShortcuts();
   useEffect(() => {
     document.documentElement.classList.remove("dark");
     try { localStorage.setItem("theme", "light"); } catch { }
@@ -19,9 +23,12 @@ const App = () => {
   return (
     <QueryClientProvider client={queryClient}>
       <AppModeProvider>
-        <EditingProvider>
+        <EditingProvider lessonId={getModuleLessonId()}>
           <HierarchyReporter />
           <EquationEditorModal />
+          <EditReviewDrawer />
+          <EditRestorePrompt />
+          <VariableDiagnostics />
           <TooltipProvider>
             <HashRouter>
               <Routes>
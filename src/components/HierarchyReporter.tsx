@@ -1,18 +1,25 @@
 import { useEffect } from 'react';
-
-// Define the structure for hierarchy nodes
-interface HierarchyNode {
-    id: string;
-    type: "section" | "layout";
-    sectionId?: string;
-    label: string;
-    children: HierarchyNode[];
-    depth: number;
-}
+import { getAssessmentSummary, useAssessmentStore, type SectionProgress } from '@/stores';
+import { onHostMessage, postToHost, type HierarchyNode } from '@/lib/editor-bridge';
+
+// Add up assessment progress bottom-up, so a heading's badge covers its body sections
+const attachProgress = (node: HierarchyNode, sections: Record<string, SectionProgress>): SectionProgress => {
+    const own = node.sectionId ? sections[node.sectionId] : undefined;
+    let total = own?.total ?? 0;
+    let correct = own?.correct ?? 0;
+    for (const child of node.children) {
+        const childProgress = attachProgress(child, sections);
+        total += childProgress.total;
+        correct += childProgress.correct;
+    }
+    const progress = { total, correct, complete: total > 0 && correct === total };
+    if (total > 0) node.progress = progress;
+    return progress;
+};
 
 export const HierarchyReporter = () => {
-    // Function to build and send hierarchy
-    const reportHierarchy = () => {
+    // Function to build and send hierarchy (replyTo: id of the host request being answered)
+    const reportHierarchy = (replyTo?: string) => {
         // Find all potential section elements
         // We look for elements with data-section-id or actual <section> tags
         const allElements = Array.from(document.querySelectorAll('section, [data-section-id]'));
@@ -21,7 +28,7 @@ export const HierarchyReporter = () => {
         const sections = allElements.filter(el => !el.closest('.hierarchy-ignore'));
 
         if (sections.length === 0) {
-            window.parent.postMessage({ type: 'hierarchy-update', hierarchy: [] }, '*');
+            postToHost({ type: 'hierarchy-update', hierarchy: [] }, replyTo);
             return;
         }
 
@@ -120,23 +127,25 @@ export const HierarchyReporter = () => {
             stack.push(node);
         });
 
+        // 3. Per-section completion badges
+        const { items, registered } = useAssessmentStore.getState();
+        const { sections: sectionProgress } = getAssessmentSummary(items, registered);
+        rootNodes.forEach(node => attachProgress(node, sectionProgress));
+
         // Send update
-        window.parent.postMessage({
-            type: 'hierarchy-update',
-            hierarchy: rootNodes
-        }, '*');
+        postToHost({ type: 'hierarchy-update', hierarchy: rootNodes }, replyTo);
     };
 
     // Auto-report on load and mutation
     useEffect(() => {
         // Initial report
-        setTimeout(reportHierarchy, 500);
-        setTimeout(reportHierarchy, 1500); // Retry to catch async content
+        setTimeout(() => reportHierarchy(), 500);
+        setTimeout(() => reportHierarchy(), 1500); // Retry to catch async content
 
         // Observer for DOM changes
         const observer = new MutationObserver(() => {
             // Debounce reporting
-            const timeoutId = setTimeout(reportHierarchy, 200);
+            const timeoutId = setTimeout(() => reportHierarchy(), 200);
             return () => clearTimeout(timeoutId);
         });
 
@@ -145,93 +154,93 @@ export const HierarchyReporter = () => {
             subtree: true
         });
 
-        return () => observer.disconnect();
+        // Re-report when the learner answers something, so badges stay current
+        let progressTimer: ReturnType<typeof setTimeout> | undefined;
+        const unsubscribe = useAssessmentStore.subscribe((state, prev) => {
+            if (state.items === prev.items && state.registered === prev.registered) return;
+            clearTimeout(progressTimer);
+            progressTimer = setTimeout(() => reportHierarchy(), 200);
+        });
+
+        return () => {
+            observer.disconnect();
+            unsubscribe();
+            clearTimeout(progressTimer);
+        };
     }, []);
 
     // Listen for requests from parent
     useEffect(() => {
-        const handleMessage = (event: MessageEvent) => {
-            if (!event.data) return;
-
-            if (event.data.type === 'request-hierarchy') {
-                reportHierarchy();
-            }
-
-            if (event.data.type === 'scroll-to-section') {
-                const { sectionId } = event.data;
-
-                // 1. Clear previous selection
-                document.querySelectorAll('[data-hierarchy-selected="true"]').forEach(el => {
-                    // Restore original style
-                    (el as HTMLElement).style.outline = (el as HTMLElement).dataset.originalOutline || "";
-                    (el as HTMLElement).style.outlineOffset = (el as HTMLElement).dataset.originalOffset || "";
-
-                    // Clean up data attributes
-                    delete (el as HTMLElement).dataset.originalOutline;
-                    delete (el as HTMLElement).dataset.originalOffset;
-                    el.removeAttribute('data-hierarchy-selected');
-                });
-
-                if (sectionId) {
-                    const el = document.querySelector(`[data-section-id="${sectionId}"]`);
-                    if (el) {
-                        el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const unsubscribeRequest = onHostMessage('request-hierarchy', (message) => reportHierarchy(message.id));
+
+        const unsubscribeScroll = onHostMessage('scroll-to-section', ({ sectionId }) => {
+            // 1. Clear previous selection
+            document.querySelectorAll('[data-hierarchy-selected="true"]').forEach(el => {
+                // Restore original style
+                (el as HTMLElement).style.outline = (el as HTMLElement).dataset.originalOutline || "";
+                (el as HTMLElement).style.outlineOffset = (el as HTMLElement).dataset.originalOffset || "";
+
+                // Clean up data attributes
+                delete (el as HTMLElement).dataset.originalOutline;
+                delete (el as HTMLElement).dataset.originalOffset;
+                el.removeAttribute('data-hierarchy-selected');
+            });
 
-                        const htmlEl = el as HTMLElement;
+            if (sectionId) {
+                const el = document.querySelector(`[data-section-id="${sectionId}"]`);
+                if (el) {
+                    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
 
-                        // Check current style before saving it
-                        const currentOutline = htmlEl.style.outline;
-                        const isOurHighlight = currentOutline.includes('#14B8A6') || currentOutline.includes('dashed'); // Hover style
+                    const htmlEl = el as HTMLElement;
 
-                        // Save original styles if not already saved
-                        if (!htmlEl.dataset.originalOutline) {
-                            // If the current outline is OUR highlight, don't save it! Save empty or previous.
-                            if (isOurHighlight) {
-                                htmlEl.dataset.originalOutline = "";
-                            } else {
-                                htmlEl.dataset.originalOutline = currentOutline;
-                            }
+                    // Check current style before saving it
+                    const currentOutline = htmlEl.style.outline;
+                    const isOurHighlight = currentOutline.includes('#14B8A6') || currentOutline.includes('dashed'); // Hover style
 
-                            htmlEl.dataset.originalOffset = htmlEl.style.outlineOffset;
+                    // Save original styles if not already saved
+                    if (!htmlEl.dataset.originalOutline) {
+                        // If the current outline is OUR highlight, don't save it! Save empty or previous.
+                        if (isOurHighlight) {
+                            htmlEl.dataset.originalOutline = "";
+                        } else {
+                            htmlEl.dataset.originalOutline = currentOutline;
                         }
 
-                        // Apply Selection Style (Solid)
-                        htmlEl.style.outline = "3px solid #0D7377";
-                        htmlEl.style.outlineOffset = "4px";
-                        htmlEl.setAttribute('data-hierarchy-selected', 'true');
-
-                        // Also remove highlight attribute if present to keep state clean
-                        htmlEl.removeAttribute('data-hierarchy-highlight');
+                        htmlEl.dataset.originalOffset = htmlEl.style.outlineOffset;
                     }
+
+                    // Apply Selection Style (Solid)
+                    htmlEl.style.outline = "3px solid #0D7377";
+                    htmlEl.style.outlineOffset = "4px";
+                    htmlEl.setAttribute('data-hierarchy-selected', 'true');
+
+                    // Also remove highlight attribute if present to keep state clean
+                    htmlEl.removeAttribute('data-hierarchy-highlight');
                 }
             }
+        });
 
-            if (event.data.type === 'highlight-section') {
-                const { sectionId, isHovering } = event.data;
-
-                // Remove existing highlights
-                document.querySelectorAll('[data-hierarchy-highlight]').forEach(el => {
-                    // Only clear style if it's NOT selected (Selection wins)
-                    if (!el.hasAttribute('data-hierarchy-selected')) {
-                        (el as HTMLElement).style.outline = "";
-                        (el as HTMLElement).style.outlineOffset = "";
-                    }
-                    el.removeAttribute('data-hierarchy-highlight');
-                });
+        const unsubscribeHighlight = onHostMessage('highlight-section', ({ sectionId, isHovering }) => {
+            // Remove existing highlights
+            document.querySelectorAll('[data-hierarchy-highlight]').forEach(el => {
+                // Only clear style if it's NOT selected (Selection wins)
+                if (!el.hasAttribute('data-hierarchy-selected')) {
+                    (el as HTMLElement).style.outline = "";
+                    (el as HTMLElement).style.outlineOffset = "";
+                }
+                el.removeAttribute('data-hierarchy-highlight');
+            });
 
-                if (isHovering && sectionId) {
-                    const el = document.querySelector(`[data-section-id="${sectionId}"]`);
-                    // Apply highlight only if not already selected
-                    if (el && !el.hasAttribute('data-hierarchy-selected')) {
-                        (el as HTMLElement).style.outline = "2px dashed #14B8A6";
-                        (el as HTMLElement).style.outlineOffset = "2px";
-                        el.setAttribute('data-hierarchy-highlight', 'true');
-                    }
+            if (isHovering && sectionId) {
+                const el = document.querySelector(`[data-section-id="${sectionId}"]`);
+                // Apply highlight only if not already selected
+                if (el && !el.hasAttribute('data-hierarchy-selected')) {
+                    (el as HTMLElement).style.outline = "2px dashed #14B8A6";
+                    (el as HTMLElement).style.outlineOffset = "2px";
+                    el.setAttribute('data-hierarchy-highlight', 'true');
                 }
             }
-        };
-
-        window.addEventListener('message', handleMessage);
+        });
 
         // Global click listener to handle deselecting when clicking outside
         const handleGlobalClick = (event: MouseEvent) => {
@@ -252,16 +261,16 @@ export const HierarchyReporter = () => {
                 });
 
                 // 2. Notify parent
-                window.parent.postMessage({
-                    type: 'selection-cleared'
-                }, '*');
+                postToHost({ type: 'selection-cleared' });
             }
         };
 
         window.addEventListener('click', handleGlobalClick);
 
         return () => {
-            window.removeEventListener('message', handleMessage);
+            unsubscribeRequest();
+            unsubscribeScroll();
+            unsubscribeHighlight();
             window.removeEventListener('click', handleGlobalClick);
         };
     }, []);
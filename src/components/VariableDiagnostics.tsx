@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useVariableStore, type VariableViolation } from '@/stores';
+
+const KIND_STYLES: Record<VariableViolation['kind'], { label: string; color: string }> = {
+    rejected: { label: 'Rejected', color: '#EF4444' },
+    adjusted: { label: 'Adjusted', color: '#F59E0B' },
+    undeclared: { label: 'Undeclared', color: '#6366F1' },
+};
+
+/**
+ * VariableDiagnostics - dev-only panel listing variable writes that were
+ * rejected, clamped/snapped, or targeted undeclared names.
+ * Shows a small badge in the bottom-left corner once something goes wrong.
+ */
+export const VariableDiagnostics = () => {
+    const violations = useVariableStore((state) => state.violations);
+    const clearViolations = useVariableStore((state) => state.clearViolations);
+    const [isOpen, setIsOpen] = useState(false);
+
+    // Only show in development mode
+    if (!import.meta.env.DEV || violations.length === 0) {
+        return null;
+    }
+
+    const counts = violations.reduce<Record<string, number>>((acc, v) => {
+        acc[v.kind] = (acc[v.kind] ?? 0) + 1;
+        return acc;
+    }, {});
+
+    if (!isOpen) {
+        return (
+            <button
+                onClick={() => setIsOpen(true)}
+                className="fixed bottom-4 left-4 z-50 flex items-center gap-2 px-3 py-1.5 rounded-lg shadow-lg bg-white border border-border text-xs font-medium hierarchy-ignore"
+                title="Variable store diagnostics"
+            >
+                <AlertTriangle className="h-3.5 w-3.5" style={{ color: KIND_STYLES.rejected.color }} />
+                <span>{violations.length} variable {violations.length === 1 ? 'issue' : 'issues'}</span>
+            </button>
+        );
+    }
+
+    return (
+        <div className="fixed bottom-4 left-4 z-50 w-96 max-h-80 flex flex-col rounded-lg shadow-xl bg-white border border-border text-xs hierarchy-ignore">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+                <div className="flex items-center gap-2 font-semibold">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    Variable diagnostics
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={clearViolations} className="text-muted-foreground hover:text-foreground">
+                        Clear
+                    </button>
+                    <button onClick={() => setIsOpen(false)} aria-label="Close diagnostics">
+                        <X className="h-3.5 w-3.5" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex gap-3 px-3 py-1.5 border-b border-border text-muted-foreground">
+                {(Object.keys(KIND_STYLES) as VariableViolation['kind'][]).map((kind) => (
+                    <span key={kind} style={{ color: KIND_STYLES[kind].color }}>
+                        {KIND_STYLES[kind].label}: {counts[kind] ?? 0}
+                    </span>
+                ))}
+            </div>
+
+            <ul className="overflow-y-auto divide-y divide-border">
+                {[...violations].reverse().map((violation, index) => (
+                    <li key={`${violation.timestamp}-${index}`} className="px-3 py-1.5">
+                        <div className="flex items-center justify-between">
+                            <span className="font-mono font-medium">{violation.name}</span>
+                            <span style={{ color: KIND_STYLES[violation.kind].color }}>
+                                {KIND_STYLES[violation.kind].label}
+                            </span>
+                        </div>
+                        <div className="text-muted-foreground">{violation.message}</div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default VariableDiagnostics;
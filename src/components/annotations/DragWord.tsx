@@ -0,0 +1,426 @@
+import {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+    type ReactNode,
+} from 'react';
+import { GripVertical, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAssessment } from '@/stores';
+import type { DragDropProviderProps, DragWordProps, DropZoneProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+interface RegisteredWord {
+    content: ReactNode;
+    dropZones?: string[];
+    onDrop?: DragWordProps['onDrop'];
+}
+
+interface RegisteredZone {
+    accepts?: string[];
+    onChange?: DropZoneProps['onChange'];
+}
+
+// Context shared by the words and zones of one exercise
+interface DragDropContextValue {
+    /** Which word sits in which zone (zoneId → dragId) */
+    placements: Record<string, string>;
+    /** Word picked up by click/keyboard, waiting for a zone */
+    selected: string | null;
+    /** Word being dragged with the pointer */
+    dragging: string | null;
+    /** Zone under the dragged word */
+    hoverZone: string | null;
+    registerWord: (dragId: string, word: RegisteredWord) => () => void;
+    registerZone: (zoneId: string, zone: RegisteredZone) => () => void;
+    getWordContent: (dragId: string) => ReactNode;
+    hasZone: (zoneId: string) => boolean;
+    isCorrect: (zoneId: string, dragId: string) => boolean;
+    place: (dragId: string, zoneId: string) => void;
+    remove: (zoneId: string) => void;
+    select: (dragId: string | null) => void;
+    setDragState: (dragging: string | null, hoverZone: string | null) => void;
+    /** Assessment ref for the zones (set once every zone is known, so the item id is stable) */
+    assessmentRef?: (element: HTMLElement | null) => void;
+}
+
+const DragDropContext = createContext<DragDropContextValue | null>(null);
+
+export const useDragDropContext = () => useContext(DragDropContext);
+
+// Find the drop zone under a screen point
+const findZoneAt = (x: number, y: number): string | null => {
+    for (const element of document.elementsFromPoint(x, y)) {
+        const zone = element.closest('[data-dropzone-id]');
+        if (zone) return zone.getAttribute('data-dropzone-id');
+    }
+    return null;
+};
+
+// Saved answers are the placements as JSON; zones that no longer exist are dropped
+const parsePlacements = (answer: string | null, zoneIds: Set<string>): Record<string, string> => {
+    if (answer === null) return {};
+    try {
+        const saved = JSON.parse(answer);
+        if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return {};
+        return Object.fromEntries(
+            Object.entries(saved).filter(
+                (entry): entry is [string, string] => zoneIds.has(entry[0]) && typeof entry[1] === 'string'
+            )
+        );
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * DragDropProvider - Holds the words and drop zones of one exercise.
+ * Reports every change with whether all zones are filled correctly.
+ *
+ * Each time every zone is filled, the placements are reported to the
+ * assessment store (see useAssessment), which restores them after a reload
+ * when progress persistence is enabled.
+ */
+export const DragDropProvider: React.FC<DragDropProviderProps> = ({ id, children, onChange }) => {
+    const [placements, setPlacements] = useState<Record<string, string>>({});
+    const placementsRef = useRef(placements);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [dragState, setDragStateValue] = useState<{ dragging: string | null; hoverZone: string | null }>({
+        dragging: null,
+        hoverZone: null,
+    });
+    const words = useRef(new Map<string, RegisteredWord>());
+    const zones = useRef(new Map<string, RegisteredZone>());
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    // Sorted zone ids identify the exercise; known once the zones have registered
+    const [zoneKey, setZoneKey] = useState('');
+    const updateZoneKey = useCallback(() => setZoneKey(Array.from(zones.current.keys()).sort().join('|')), []);
+
+    const assessment = useAssessment({ id, kind: 'DragDrop', answerKey: zoneKey });
+    const recordRef = useRef(assessment.record);
+    recordRef.current = assessment.record;
+    const isRegistered = assessment.item !== undefined;
+    const savedAnswer = assessment.item?.answer ?? null;
+
+    // Restore saved progress, and follow a progress reset
+    const restoreFrom = isRegistered ? savedAnswer ?? '' : null;
+    const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+    if (restoreFrom !== restoredFrom) {
+        setRestoredFrom(restoreFrom);
+        const saved = parsePlacements(savedAnswer, new Set(zones.current.keys()));
+        if (restoreFrom !== null && JSON.stringify(saved) !== JSON.stringify(placements)) {
+            placementsRef.current = saved;
+            setPlacements(saved);
+        }
+    }
+
+    const registerWord = useCallback((dragId: string, word: RegisteredWord) => {
+        words.current.set(dragId, word);
+        return () => {
+            if (words.current.get(dragId) === word) words.current.delete(dragId);
+        };
+    }, []);
+
+    const registerZone = useCallback((zoneId: string, zone: RegisteredZone) => {
+        zones.current.set(zoneId, zone);
+        updateZoneKey();
+        return () => {
+            if (zones.current.get(zoneId) === zone) zones.current.delete(zoneId);
+            updateZoneKey();
+        };
+    }, [updateZoneKey]);
+
+    const isCorrect = useCallback((zoneId: string, dragId: string) => {
+        const accepts = zones.current.get(zoneId)?.accepts;
+        const dropZones = words.current.get(dragId)?.dropZones;
+        // Without any rule, every placement is accepted
+        if (!accepts && !dropZones) return true;
+        return Boolean(accepts?.includes(dragId) || dropZones?.includes(zoneId));
+    }, []);
+
+    const update = useCallback((next: Record<string, string>) => {
+        placementsRef.current = next;
+        setPlacements(next);
+        const allZones = Array.from(zones.current.keys());
+        const complete = allZones.every((zoneId) => next[zoneId] && isCorrect(zoneId, next[zoneId]));
+        // A fully filled exercise is a submitted answer
+        if (allZones.length > 0 && allZones.every((zoneId) => next[zoneId])) {
+            recordRef.current(JSON.stringify(next), complete);
+        }
+        onChangeRef.current?.(next, complete);
+    }, [isCorrect]);
+
+    const place = useCallback((dragId: string, zoneId: string) => {
+        setSelected(null);
+        const prev = placementsRef.current;
+        if (prev[zoneId] === dragId) return;
+
+        // A word can only be in one zone; the zone's previous word goes back to the bank
+        const vacated = Object.keys(prev).find((zone) => prev[zone] === dragId);
+        const next: Record<string, string> = {};
+        for (const [zone, word] of Object.entries(prev)) {
+            if (zone !== vacated && zone !== zoneId) next[zone] = word;
+        }
+        next[zoneId] = dragId;
+
+        const correct = isCorrect(zoneId, dragId);
+        if (vacated) zones.current.get(vacated)?.onChange?.(null, false);
+        words.current.get(dragId)?.onDrop?.(zoneId, correct);
+        zones.current.get(zoneId)?.onChange?.(dragId, correct);
+        update(next);
+    }, [isCorrect, update]);
+
+    const remove = useCallback((zoneId: string) => {
+        const prev = placementsRef.current;
+        if (!prev[zoneId]) return;
+        const next = { ...prev };
+        delete next[zoneId];
+        zones.current.get(zoneId)?.onChange?.(null, false);
+        update(next);
+    }, [update]);
+
+    const value = useMemo<DragDropContextValue>(() => ({
+        placements,
+        selected,
+        dragging: dragState.dragging,
+        hoverZone: dragState.hoverZone,
+        registerWord,
+        registerZone,
+        getWordContent: (dragId) => words.current.get(dragId)?.content ?? dragId,
+        hasZone: (zoneId) => zones.current.has(zoneId),
+        isCorrect,
+        place,
+        remove,
+        select: setSelected,
+        setDragState: (dragging, hoverZone) => setDragStateValue({ dragging, hoverZone }),
+        assessmentRef: zoneKey ? assessment.ref : undefined,
+    }), [placements, selected, dragState, registerWord, registerZone, isCorrect, place, remove, zoneKey, assessment.ref]);
+
+    return <DragDropContext.Provider value={value}>{children}</DragDropContext.Provider>;
+};
+
+/**
+ * DragWord - A word chip that can be dragged onto a DropZone.
+ * Category: Draggable | Visual: Dashed border chip
+ *
+ * Drag it with mouse, pen or touch, or click it (Enter/Space from the
+ * keyboard) and then click the zone it should go in.
+ * Must be rendered inside a DragDropProvider.
+ *
+ * @example
+ * ```tsx
+ * <DragDropProvider onChange={(placements, isCorrect) => setDone(isCorrect)}>
+ *   <Paragraph>
+ *     An eigenvector is only <DropZone zoneId="blank-1" accepts="scaled" /> by its matrix.
+ *   </Paragraph>
+ *   <DragWord dragId="scaled">scaled</DragWord>
+ *   <DragWord dragId="rotated">rotated</DragWord>
+ * </DragDropProvider>
+ * ```
+ */
+export const DragWord: React.FC<DragWordProps> = ({
+    id,
+    children,
+    dragId,
+    dropZones,
+    onDrop,
+    color = ANNOTATION_COLORS.draggable.primary,
+    bgColor = ANNOTATION_COLORS.draggable.bg,
+    className,
+}) => {
+    const ctx = useDragDropContext();
+    const [offset, setOffset] = useState<{ x: number; y: number } | null>(null);
+    const pointer = useRef({ id: -1, startX: 0, startY: 0, moved: false });
+
+    const registerWord = ctx?.registerWord;
+
+    useEffect(() => {
+        if (!registerWord) {
+            console.warn(`DragWord "${dragId}" must be rendered inside a DragDropProvider`);
+            return;
+        }
+        return registerWord(dragId, { content: children, dropZones, onDrop });
+    }, [registerWord, dragId, children, dropZones, onDrop]);
+
+    const isPlaced = ctx ? Object.values(ctx.placements).includes(dragId) : false;
+    const isSelected = ctx?.selected === dragId;
+
+    const toggleSelected = () => ctx?.select(isSelected ? null : dragId);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLSpanElement>) => {
+        if (!ctx || isPlaced || (e.pointerType === 'mouse' && e.button !== 0)) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointer.current = { id: e.pointerId, startX: e.clientX, startY: e.clientY, moved: false };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLSpanElement>) => {
+        if (!ctx || e.pointerId !== pointer.current.id) return;
+        const x = e.clientX - pointer.current.startX;
+        const y = e.clientY - pointer.current.startY;
+        // Small movements are still clicks
+        if (!pointer.current.moved && Math.hypot(x, y) < 4) return;
+        pointer.current.moved = true;
+        setOffset({ x, y });
+        const zone = findZoneAt(e.clientX, e.clientY);
+        ctx.setDragState(dragId, zone && ctx.hasZone(zone) ? zone : null);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLSpanElement>) => {
+        if (!ctx || e.pointerId !== pointer.current.id) return;
+        pointer.current.id = -1;
+        setOffset(null);
+        ctx.setDragState(null, null);
+
+        if (!pointer.current.moved) {
+            toggleSelected();
+            return;
+        }
+        const zone = findZoneAt(e.clientX, e.clientY);
+        if (zone && ctx.hasZone(zone)) ctx.place(dragId, zone);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (isPlaced) return;
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            toggleSelected();
+        } else if (e.key === 'Escape' && isSelected) {
+            ctx?.select(null);
+        }
+    };
+
+    return (
+        <span
+            id={id}
+            className={cn('annotation annotation-dragword', offset && 'dragging', className)}
+            style={{
+                color,
+                background: bgColor,
+                borderColor: color,
+                position: 'relative',
+                transform: offset ? `translate(${offset.x}px, ${offset.y}px) scale(1.05)` : undefined,
+                transition: offset ? 'none' : undefined,
+                opacity: isPlaced ? 0.35 : 1,
+                cursor: isPlaced ? 'default' : undefined,
+                boxShadow: isSelected ? `0 0 0 2px ${color}` : undefined,
+                touchAction: 'none',
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+            tabIndex={isPlaced ? -1 : 0}
+            role="button"
+            aria-pressed={isSelected}
+            aria-disabled={isPlaced}
+        >
+            <GripVertical size={12} className="annotation-dragword__handle" />
+            {children}
+        </span>
+    );
+};
+
+/**
+ * DropZone - A blank (in a sentence) or label (on a diagram) that a DragWord
+ * can be dropped onto. Shows green when the right word is in it and red
+ * otherwise; click × to send the word back.
+ * Category: Draggable | Visual: Dashed box
+ *
+ * @example Label on a diagram
+ * ```tsx
+ * <div className="relative">
+ *   <img src="/eigen-diagram.svg" />
+ *   <div className="absolute top-4 left-10">
+ *     <DropZone zoneId="label-eigenvector" accepts="eigenvector" />
+ *   </div>
+ * </div>
+ * ```
+ */
+export const DropZone: React.FC<DropZoneProps> = ({
+    id,
+    zoneId,
+    accepts,
+    placeholder,
+    onChange,
+    className,
+}) => {
+    const ctx = useDragDropContext();
+    const registerZone = ctx?.registerZone;
+    // Compare by content so an inline `accepts={[...]}` doesn't re-register every render
+    const acceptsKey = accepts === undefined ? undefined : ([] as string[]).concat(accepts).join('|');
+
+    useEffect(() => {
+        if (!registerZone) {
+            console.warn(`DropZone "${zoneId}" must be rendered inside a DragDropProvider`);
+            return;
+        }
+        return registerZone(zoneId, { accepts: acceptsKey?.split('|'), onChange });
+    }, [registerZone, zoneId, acceptsKey, onChange]);
+
+    const placed = ctx?.placements[zoneId];
+    const isActive = Boolean(ctx && ((ctx.dragging && ctx.hoverZone === zoneId) || (ctx.selected && !placed)));
+    const correct = placed ? ctx!.isCorrect(zoneId, placed) : false;
+
+    const placeSelected = () => {
+        if (ctx?.selected) ctx.place(ctx.selected, zoneId);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            placeSelected();
+        } else if ((e.key === 'Backspace' || e.key === 'Delete') && placed) {
+            e.preventDefault();
+            ctx?.remove(zoneId);
+        }
+    };
+
+    return (
+        <span
+            ref={ctx?.assessmentRef}
+            id={id}
+            data-dropzone-id={zoneId}
+            className={cn(
+                'annotation-dropzone',
+                isActive && 'active',
+                placed && (correct ? 'filled' : 'incorrect'),
+                className
+            )}
+            onClick={placeSelected}
+            onKeyDown={handleKeyDown}
+            tabIndex={0}
+            role="button"
+            aria-label={placed ? `Drop zone containing ${placed}${correct ? ', correct' : ', incorrect'}` : 'Empty drop zone'}
+        >
+            {placed ? (
+                <span
+                    className="inline-flex items-center gap-1 font-medium"
+                    style={{ color: correct ? ANNOTATION_COLORS.success.primary : ANNOTATION_COLORS.error.primary }}
+                >
+                    {ctx!.getWordContent(placed)}
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            ctx?.remove(zoneId);
+                        }}
+                        className="hover:scale-110 transition-transform"
+                        aria-label="Remove word"
+                    >
+                        <X size={12} />
+                    </button>
+                </span>
+            ) : (
+                <span style={{ color: ANNOTATION_COLORS.draggable.primary, opacity: 0.7 }}>{placeholder ?? ' '}</span>
+            )}
+        </span>
+    );
+};
+
+export default DragWord;
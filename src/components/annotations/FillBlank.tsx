@@ -1,16 +1,42 @@
 import { useState, useRef, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { checkAnswer, type AnswerRule } from '@/lib/answer-checker';
+import { useAssessment, useVarBinding } from '@/stores';
+import { QuizFeedback } from './QuizFeedback';
 import type { FillBlankProps } from './types';
 import { ANNOTATION_COLORS } from './types';
 
 /**
  * FillBlank - Text input for quiz/validation.
  * Category: Validatable | Visual: Highlighted placeholder
+ *
+ * With `bind`, the submitted answer is written to a text variable and
+ * restored from it (a value equal to the variable's default counts as
+ * "not answered yet").
+ *
+ * Answers are checked with the shared answer checker (lib/answer-checker.ts):
+ * text matches exactly, `math` compares numbers, units and simple algebra by
+ * value, and `accept` adds more answers (alternatives, tolerances, regexes,
+ * expressions).
+ *
+ * Answers are reported to the assessment store (see useAssessment), which
+ * restores them after a reload when progress persistence is enabled.
+ *
+ * A wrong answer shows `hints` one by one as wrong answers add up, and
+ * finally a "Show solution" step (see QuizFeedback).
  */
 export const FillBlank: React.FC<FillBlankProps> = ({
     id,
+    bind,
     correctAnswer,
+    accept,
+    math = false,
+    tolerance,
+    hints,
+    solution,
+    solutionLatex,
+    solutionAfter,
     placeholder = '???',
     caseSensitive = false,
     color = ANNOTATION_COLORS.validatable.primary,
@@ -18,40 +44,75 @@ export const FillBlank: React.FC<FillBlankProps> = ({
     onChange,
     className,
 }) => {
-    const [inputValue, setInputValue] = useState('');
+    const isAnswerCorrect = (val: string) =>
+        checkAnswer(val, ([correctAnswer] as AnswerRule[]).concat(accept ?? []), { caseSensitive, tolerance, math });
+
+    const binding = useVarBinding<string>(bind);
+    const storedAnswer =
+        binding.isBound && typeof binding.value === 'string' && binding.value !== binding.defaultValue
+            ? binding.value
+            : '';
+
+    const [inputValue, setInputValue] = useState(storedAnswer);
     const [isEditing, setIsEditing] = useState(false);
-    const [isChecked, setIsChecked] = useState(false);
-    const [isCorrect, setIsCorrect] = useState(false);
+    const [isChecked, setIsChecked] = useState(storedAnswer !== '');
+    const [isCorrect, setIsCorrect] = useState(storedAnswer !== '' && isAnswerCorrect(storedAnswer));
     const inputRef = useRef<HTMLInputElement>(null);
+    const assessment = useAssessment({ id, kind: 'FillBlank', answerKey: correctAnswer });
+    const isRegistered = assessment.item !== undefined;
+    const savedAnswer = assessment.item?.answer ?? '';
 
     useEffect(() => {
         if (isEditing && inputRef.current) inputRef.current.focus();
     }, [isEditing]);
 
-    const checkAnswer = (val: string) => {
-        const user = caseSensitive ? val : val.toLowerCase();
-        const correct = caseSensitive ? correctAnswer : correctAnswer.toLowerCase();
-        return user.trim() === correct.trim();
+    // Restore saved progress, and follow a progress reset
+    const restoreFrom = isRegistered ? savedAnswer : null;
+    const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+    if (restoreFrom !== restoredFrom) {
+        setRestoredFrom(restoreFrom);
+        if (restoreFrom !== null && !binding.isBound && !isEditing && savedAnswer !== (isChecked ? inputValue : '')) {
+            setInputValue(savedAnswer);
+            setIsChecked(savedAnswer !== '');
+            setIsCorrect(savedAnswer !== '' && isAnswerCorrect(savedAnswer));
+        }
+    }
+
+    // Follow changes made elsewhere (another bound component, undo, reset...)
+    const [followedAnswer, setFollowedAnswer] = useState(storedAnswer);
+    if (storedAnswer !== followedAnswer) {
+        setFollowedAnswer(storedAnswer);
+        if (binding.isBound && !isEditing && storedAnswer !== inputValue) {
+            setInputValue(storedAnswer);
+            setIsChecked(storedAnswer !== '');
+            setIsCorrect(storedAnswer !== '' && isAnswerCorrect(storedAnswer));
+        }
+    }
+
+    const submit = (val: string, correct: boolean) => {
+        if (binding.isBound) binding.setValue(val);
+        assessment.record(val, correct);
+        onChange?.(val, correct);
     };
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const val = e.target.value;
         setInputValue(val);
-        if (checkAnswer(val)) {
+        if (isAnswerCorrect(val)) {
             setIsCorrect(true);
             setIsChecked(true);
             setIsEditing(false);
-            onChange?.(val, true);
+            submit(val, true);
         }
     };
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter') {
-            const correct = checkAnswer(inputValue);
+            const correct = isAnswerCorrect(inputValue);
             setIsCorrect(correct);
             setIsChecked(true);
             setIsEditing(false);
-            onChange?.(inputValue, correct);
+            submit(inputValue, correct);
         } else if (e.key === 'Escape') {
             setIsEditing(false);
             if (!isChecked) setInputValue('');
@@ -63,12 +124,14 @@ export const FillBlank: React.FC<FillBlankProps> = ({
         setIsChecked(false);
         setIsCorrect(false);
         setIsEditing(false);
+        if (binding.isBound) binding.setValue(binding.defaultValue ?? '');
+        assessment.clear();
     };
 
     // Correct state 
     if (isCorrect && inputValue) {
         return (
-            <span id={id} className={cn('font-medium', className)} style={{ color: ANNOTATION_COLORS.success.primary }}>
+            <span ref={assessment.ref} id={id} className={cn('font-medium', className)} style={{ color: ANNOTATION_COLORS.success.primary }}>
                 {inputValue}
             </span>
         );
@@ -78,14 +141,22 @@ export const FillBlank: React.FC<FillBlankProps> = ({
     if (isChecked && !isCorrect && inputValue) {
         return (
             <span
+                ref={assessment.ref}
                 id={id}
-                className={cn('inline-flex items-center rounded', className)}
+                className={cn('relative inline-flex items-center rounded', className)}
                 style={{ background: ANNOTATION_COLORS.error.bg }}
             >
                 <span className="px-1" style={{ color }}>{inputValue}</span>
                 <button onClick={handleClear} className="px-0.5 hover:scale-110 transition-transform" style={{ color: ANNOTATION_COLORS.error.primary }}>
                     <X size={12} />
                 </button>
+                <QuizFeedback
+                    wrongAttempts={assessment.wrongAttempts}
+                    hints={hints}
+                    solution={solution}
+                    solutionLatex={solutionLatex}
+                    solutionAfter={solutionAfter}
+                />
             </span>
         );
     }
@@ -111,6 +182,7 @@ export const FillBlank: React.FC<FillBlankProps> = ({
     // Initial placeholder state
     return (
         <button
+            ref={assessment.ref}
             id={id}
             onClick={() => setIsEditing(true)}
             className={cn('px-1 rounded font-medium hover:opacity-80', className)}
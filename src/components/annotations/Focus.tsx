@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { ZoomIn } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { FocusProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+const TRANSITION_MS = 450;
+const DIM_SHADOW = '0 0 0 100vmax rgba(15, 23, 42, 0.45)';
+
+// Inline styles Focus changes, restored when the focus ends
+const TARGET_STYLES = ['transform', 'transform-origin', 'transition', 'will-change'];
+const FRAME_STYLES = ['overflow', 'box-shadow', 'position', 'z-index', 'transition'];
+
+type SavedStyles = Record<string, string>;
+
+interface FocusState {
+    /** Focus annotations currently zooming this target */
+    holders: number;
+    target: SavedStyles;
+    frame: SavedStyles | null;
+    restoreTimer?: number;
+}
+
+// Shared per target, so two phrases pointing at the same plot don't fight over its original styles
+const focusStates = new WeakMap<HTMLElement, FocusState>();
+
+const saveStyles = (element: HTMLElement, properties: string[]): SavedStyles =>
+    Object.fromEntries(properties.map((property) => [property, element.style.getPropertyValue(property)]));
+
+const restoreStyles = (element: HTMLElement, saved: SavedStyles) => {
+    for (const [property, value] of Object.entries(saved)) {
+        if (value) element.style.setProperty(property, value);
+        else element.style.removeProperty(property);
+    }
+};
+
+/**
+ * Zoom `target` in on `point` inside its parent, which acts as the viewport.
+ * Returns a function that zooms back out and restores the original styles.
+ */
+const focusElement = (
+    target: HTMLElement,
+    { zoomLevel, point, dim }: { zoomLevel: number; point: { x: number; y: number }; dim: boolean }
+) => {
+    const frame = target.parentElement;
+    let state = focusStates.get(target);
+    if (state) {
+        window.clearTimeout(state.restoreTimer);
+        state.holders++;
+    } else {
+        state = {
+            holders: 1,
+            target: saveStyles(target, TARGET_STYLES),
+            frame: frame ? saveStyles(frame, FRAME_STYLES) : null,
+        };
+        focusStates.set(target, state);
+    }
+
+    // Untransformed size - clientWidth ignores the transform we are about to apply
+    const rect = target.getBoundingClientRect();
+    const width = target.clientWidth || rect.width;
+    const height = target.clientHeight || rect.height;
+
+    // Move the point to the middle, without uncovering empty space at the edges
+    const clamp = (offset: number, size: number) => Math.min(0, Math.max(size - size * zoomLevel, offset));
+    const tx = clamp(width / 2 - point.x * width * zoomLevel, width);
+    const ty = clamp(height / 2 - point.y * height * zoomLevel, height);
+
+    target.style.setProperty('transition', `transform ${TRANSITION_MS}ms ease`);
+    target.style.setProperty('transform-origin', '0 0');
+    target.style.setProperty('will-change', 'transform');
+    target.style.setProperty('transform', `translate(${tx}px, ${ty}px) scale(${zoomLevel})`);
+
+    if (frame) {
+        frame.style.setProperty('overflow', 'hidden');
+        if (dim) {
+            if (getComputedStyle(frame).position === 'static') frame.style.setProperty('position', 'relative');
+            frame.style.setProperty('z-index', '40');
+            frame.style.setProperty('transition', `box-shadow ${TRANSITION_MS}ms ease`);
+            frame.style.setProperty('box-shadow', DIM_SHADOW);
+        }
+    }
+
+    return () => {
+        const current = focusStates.get(target);
+        if (!current || --current.holders > 0) return;
+
+        // Animate back first, then put every other style back
+        restoreStyles(target, { transform: current.target.transform });
+        if (frame && current.frame) restoreStyles(frame, { 'box-shadow': current.frame['box-shadow'] });
+
+        current.restoreTimer = window.setTimeout(() => {
+            restoreStyles(target, current.target);
+            if (frame && current.frame) restoreStyles(frame, current.frame);
+            focusStates.delete(target);
+        }, TRANSITION_MS);
+    };
+};
+
+/**
+ * Focus - Zooms and pans a visualization to the part the text is talking about.
+ * Category: Connective | Visual: Dashed underline, zoom cursor
+ *
+ * Hovering (or keyboard-focusing) the phrase previews the zoom; clicking pins
+ * it until clicked again or Escape. The rest of the page is dimmed while focused.
+ *
+ * `target` can be any element - an SVG, a canvas, a Mafs view or a FlowDiagram
+ * viewport. Its parent acts as the viewport and clips the zoomed target, so
+ * give the target a wrapper of its own if it shares a parent with other content.
+ *
+ * @example
+ * ```tsx
+ * <p>
+ *   Notice how the curve flattens out in{' '}
+ *   <Focus target="#wave-plot" zoomLevel={2.5} point={{ x: 0.85, y: 0.2 }}>
+ *     the top-right corner
+ *   </Focus>.
+ * </p>
+ * <div><div id="wave-plot"><MafsInteractive /></div></div>
+ * ```
+ */
+export const Focus: React.FC<FocusProps> = ({
+    id,
+    children,
+    target,
+    zoomLevel = 2,
+    point,
+    dim = true,
+    color = ANNOTATION_COLORS.connective.primary,
+    bgColor = ANNOTATION_COLORS.connective.bg,
+    className,
+}) => {
+    const [isHovered, setIsHovered] = useState(false);
+    const [isPinned, setIsPinned] = useState(false);
+    const isActive = isHovered || isPinned;
+
+    const pointX = point?.x ?? 0.5;
+    const pointY = point?.y ?? 0.5;
+
+    useEffect(() => {
+        if (!isActive) return;
+        const element = typeof target === 'string' ? document.querySelector<HTMLElement>(target) : target.current;
+        if (!element) {
+            console.warn(`Focus: target ${typeof target === 'string' ? `"${target}"` : 'ref'} not found`);
+            return;
+        }
+        return focusElement(element, { zoomLevel, point: { x: pointX, y: pointY }, dim });
+    }, [isActive, target, zoomLevel, pointX, pointY, dim]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            setIsPinned((pinned) => !pinned);
+        } else if (e.key === 'Escape') {
+            setIsPinned(false);
+        }
+    };
+
+    return (
+        <span
+            id={id}
+            className={cn('annotation annotation-focus', isPinned && 'active', className)}
+            style={{
+                color,
+                borderBottomColor: color,
+                background: isActive ? bgColor : undefined,
+                // Stay readable above the dimmed page
+                zIndex: isActive && dim ? 41 : undefined,
+            }}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+            onFocus={() => setIsHovered(true)}
+            onBlur={() => {
+                setIsHovered(false);
+                setIsPinned(false);
+            }}
+            onClick={() => setIsPinned((pinned) => !pinned)}
+            onKeyDown={handleKeyDown}
+            role="button"
+            tabIndex={0}
+            aria-pressed={isPinned}
+        >
+            {children}
+            <ZoomIn size={12} style={{ display: 'inline', marginLeft: 2, opacity: isActive ? 0.9 : 0.5 }} />
+        </span>
+    );
+};
+
+export default Focus;
@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useVarBinding } from '@/stores';
+import type { MovableProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+type Point = { x: number; y: number };
+
+// Arrow keys move by one snap step (or this many pixels), Shift by 5 steps
+const KEYBOARD_STEP_PX = 10;
+const KEYBOARD_COARSE_FACTOR = 5;
+
+const isPoint = (value: unknown): value is Point =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Point).x === 'number' &&
+    typeof (value as Point).y === 'number';
+
+// Drop floating point noise from unit conversions (0.30000000000000004 → 0.3)
+const tidy = (n: number) => Number(n.toFixed(6));
+
+/**
+ * Movable - A label, vector tip or card the learner can drag around its parent.
+ * Category: Draggable | Visual: Floating card
+ *
+ * Positioned absolutely, so the parent needs `position: relative`. Drag with
+ * mouse, pen or touch, or focus it and use the arrow keys (Shift for bigger steps).
+ *
+ * With `coordinates`, every position (initialPosition, position, onMove and
+ * the bound variable) is in graph units with y pointing up, so a dragged
+ * point can drive a CoordinateSystem or Mafs plot directly.
+ *
+ * @example Free card, kept inside the parent
+ * ```tsx
+ * <div className="relative h-64">
+ *   <Movable initialPosition={{ x: 20, y: 20 }} constrain>Drag me</Movable>
+ * </div>
+ * ```
+ *
+ * @example Point bound to the `point` variable ({ x, y }) on a 40px grid
+ * ```tsx
+ * <div className="relative" style={{ width: 400, height: 300 }}>
+ *   <CoordinateSystem width={400} height={300} gridSpacing={40} />
+ *   <Movable
+ *     bind="point"
+ *     anchor="center"
+ *     coordinates={{ origin: { x: 200, y: 150 }, unit: 40 }}
+ *     snap={0.5}
+ *     constrain
+ *   >
+ *     P
+ *   </Movable>
+ * </div>
+ * ```
+ */
+export const Movable: React.FC<MovableProps> = ({
+    id,
+    children,
+    bind,
+    position: positionProp,
+    initialPosition = { x: 0, y: 0 },
+    constrain = false,
+    snap,
+    axis = 'both',
+    anchor = 'top-left',
+    coordinates,
+    color = ANNOTATION_COLORS.draggable.primary,
+    bgColor = ANNOTATION_COLORS.draggable.bg,
+    onMove,
+    className,
+}) => {
+    const binding = useVarBinding(bind);
+    const boundPosition = isPoint(binding.value) ? { x: binding.value.x, y: binding.value.y } : undefined;
+    const controlledPosition = binding.isBound ? boundPosition ?? initialPosition : positionProp;
+
+    const [internalPosition, setInternalPosition] = useState<Point>(controlledPosition ?? initialPosition);
+    const [isDragging, setIsDragging] = useState(false);
+    const elementRef = useRef<HTMLDivElement>(null);
+    const drag = useRef({ pointerId: -1, startX: 0, startY: 0, start: { x: 0, y: 0 } });
+
+    useEffect(() => {
+        if (binding.isBound && binding.value !== undefined && !isPoint(binding.value)) {
+            console.warn(`Movable: "${bind}" is not an object with numeric x and y`);
+        }
+    }, [bind, binding.isBound, binding.value]);
+
+    // Controlled vs uncontrolled
+    const isControlled = controlledPosition !== undefined;
+    const position = isControlled ? controlledPosition : internalPosition;
+
+    const toPixels = (p: Point): Point =>
+        coordinates
+            ? { x: coordinates.origin.x + p.x * coordinates.unit, y: coordinates.origin.y - p.y * coordinates.unit }
+            : p;
+
+    const fromPixels = (p: Point): Point =>
+        coordinates
+            ? { x: (p.x - coordinates.origin.x) / coordinates.unit, y: (coordinates.origin.y - p.y) / coordinates.unit }
+            : p;
+
+    // Keep the whole element inside its positioned parent
+    const clampToParent = (p: Point): Point => {
+        const element = elementRef.current;
+        const parent = element?.offsetParent as HTMLElement | null;
+        if (!constrain || !element || !parent) return p;
+
+        const offsetX = anchor === 'center' ? element.offsetWidth / 2 : 0;
+        const offsetY = anchor === 'center' ? element.offsetHeight / 2 : 0;
+        const maxX = Math.max(offsetX, parent.clientWidth - element.offsetWidth + offsetX);
+        const maxY = Math.max(offsetY, parent.clientHeight - element.offsetHeight + offsetY);
+        return {
+            x: Math.max(offsetX, Math.min(maxX, p.x)),
+            y: Math.max(offsetY, Math.min(maxY, p.y)),
+        };
+    };
+
+    const moveTo = (pixels: Point) => {
+        let next = fromPixels(clampToParent(pixels));
+        if (snap) {
+            next = { x: Math.round(next.x / snap) * snap, y: Math.round(next.y / snap) * snap };
+            // Snapping may step past the parent's edge - the bounds win
+            next = fromPixels(clampToParent(toPixels(next)));
+        }
+        next = {
+            x: axis === 'y' ? position.x : tidy(next.x),
+            y: axis === 'x' ? position.y : tidy(next.y),
+        };
+        if (next.x === position.x && next.y === position.y) return;
+
+        if (!isControlled) {
+            setInternalPosition(next);
+        }
+        if (binding.isBound) {
+            // Keep any other fields of the bound object
+            const current = typeof binding.value === 'object' && !Array.isArray(binding.value) ? binding.value : {};
+            binding.setValue({ ...current, x: next.x, y: next.y });
+        }
+        onMove?.(next);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        e.currentTarget.focus();
+        drag.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, start: toPixels(position) };
+        setIsDragging(true);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!isDragging || e.pointerId !== drag.current.pointerId) return;
+        const { start, startX, startY } = drag.current;
+        moveTo({ x: start.x + e.clientX - startX, y: start.y + e.clientY - startY });
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.pointerId !== drag.current.pointerId) return;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+        drag.current.pointerId = -1;
+        setIsDragging(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const directions: Record<string, Point> = {
+            ArrowLeft: { x: -1, y: 0 },
+            ArrowRight: { x: 1, y: 0 },
+            ArrowUp: { x: 0, y: -1 },
+            ArrowDown: { x: 0, y: 1 },
+        };
+        const direction = directions[e.key];
+        if (!direction) return;
+        e.preventDefault();
+
+        const stepPx = (snap ? snap * (coordinates?.unit ?? 1) : KEYBOARD_STEP_PX) *
+            (e.shiftKey ? KEYBOARD_COARSE_FACTOR : 1);
+        const pixels = toPixels(position);
+        moveTo({ x: pixels.x + direction.x * stepPx, y: pixels.y + direction.y * stepPx });
+    };
+
+    const pixels = toPixels(position);
+
+    return (
+        <div
+            id={id}
+            ref={elementRef}
+            className={cn('annotation annotation-movable', isDragging && 'dragging', className)}
+            style={{
+                left: pixels.x,
+                top: pixels.y,
+                transform: anchor === 'center' ? 'translate(-50%, -50%)' : undefined,
+                color,
+                borderColor: color,
+                background: bgColor,
+                cursor: axis === 'x' ? 'ew-resize' : axis === 'y' ? 'ns-resize' : undefined,
+                touchAction: 'none',
+                zIndex: isDragging ? 100 : undefined,
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+            tabIndex={0}
+            role="group"
+            aria-roledescription="movable"
+            aria-label={`Position ${position.x}, ${position.y}`}
+        >
+            {children}
+        </div>
+    );
+};
+
+export default Movable;
@@ -2,27 +2,87 @@ import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useAssessment, useVarBinding } from '@/stores';
+import { QuizFeedback } from './QuizFeedback';
 import type { MultiChoiceProps } from './types';
 import { ANNOTATION_COLORS } from './types';
 
 /**
  * MultiChoice - Dropdown selection for quiz.
  * Category: Validatable | Visual: Highlighted placeholder with dropdown
+ *
+ * With `bind`, options default to the select variable's options and the
+ * chosen option is written to it (the variable's default counts as
+ * "not answered yet").
+ *
+ * Answers are reported to the assessment store (see useAssessment), which
+ * restores them after a reload when progress persistence is enabled.
+ *
+ * A wrong answer shows its `feedback`, then `hints` one by one as wrong
+ * answers add up, and finally a "Show solution" step.
+ *
+ * @example
+ * ```tsx
+ * <MultiChoice
+ *   correctAnswer="ad − bc"
+ *   options={['a + d', 'ad − bc', 'ab − cd']}
+ *   feedback={{ 'a + d': "That's the trace, not the determinant" }}
+ *   hints={['Think of the area of the parallelogram']}
+ *   solutionLatex="\det\begin{pmatrix} a & b \\ c & d \end{pmatrix} = ad - bc"
+ * />
+ * ```
  */
 export const MultiChoice: React.FC<MultiChoiceProps> = ({
     id,
+    bind,
     correctAnswer,
-    options,
+    options: optionsProp,
+    feedback,
+    hints,
+    solution,
+    solutionLatex,
+    solutionAfter,
     placeholder = '???',
     color = ANNOTATION_COLORS.validatable.primary,
     bgColor = ANNOTATION_COLORS.validatable.bg,
     onChange,
     className,
 }) => {
-    const [selectedValue, setSelectedValue] = useState<string | null>(null);
+    const binding = useVarBinding<string>(bind);
+    const options = optionsProp ?? binding.definition?.options ?? [];
+    const storedValue =
+        binding.isBound && typeof binding.value === 'string' && binding.value !== binding.defaultValue
+            ? binding.value
+            : null;
+
+    const [selectedValue, setSelectedValue] = useState<string | null>(storedValue);
     const [isOpen, setIsOpen] = useState(false);
-    const [isCorrect, setIsCorrect] = useState(false);
-    const dropdownRef = useRef<HTMLDivElement>(null);
+    const [isCorrect, setIsCorrect] = useState(storedValue === correctAnswer);
+    const dropdownRef = useRef<HTMLSpanElement | null>(null);
+    const assessment = useAssessment({ id, kind: 'MultiChoice', answerKey: correctAnswer });
+    const isRegistered = assessment.item !== undefined;
+    const savedAnswer = assessment.item?.answer ?? null;
+
+    // Follow changes made elsewhere (another bound component, undo, reset...)
+    const [followedValue, setFollowedValue] = useState(storedValue);
+    if (storedValue !== followedValue) {
+        setFollowedValue(storedValue);
+        if (binding.isBound && storedValue !== selectedValue) {
+            setSelectedValue(storedValue);
+            setIsCorrect(storedValue === correctAnswer);
+        }
+    }
+
+    // Restore saved progress, and follow a progress reset
+    const restoreFrom = isRegistered ? savedAnswer ?? '' : null;
+    const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+    if (restoreFrom !== restoredFrom) {
+        setRestoredFrom(restoreFrom);
+        if (restoreFrom !== null && !binding.isBound && savedAnswer !== selectedValue) {
+            setSelectedValue(savedAnswer);
+            setIsCorrect(savedAnswer === correctAnswer);
+        }
+    }
 
     useEffect(() => {
         const handleClickOutside = (e: MouseEvent) => {
@@ -39,18 +99,22 @@ export const MultiChoice: React.FC<MultiChoiceProps> = ({
         setSelectedValue(option);
         setIsCorrect(correct);
         setIsOpen(false);
+        binding.setValue(option);
+        assessment.record(option, correct);
         onChange?.(option, correct);
     };
 
     const handleClear = () => {
         setSelectedValue(null);
         setIsCorrect(false);
+        if (binding.isBound && binding.defaultValue !== undefined) binding.setValue(binding.defaultValue);
+        assessment.clear();
     };
 
     // Correct state
     if (isCorrect && selectedValue) {
         return (
-            <span id={id} className={cn('font-medium', className)} style={{ color: ANNOTATION_COLORS.success.primary }}>
+            <span ref={assessment.ref} id={id} className={cn('font-medium', className)} style={{ color: ANNOTATION_COLORS.success.primary }}>
                 {selectedValue}
             </span>
         );
@@ -59,18 +123,33 @@ export const MultiChoice: React.FC<MultiChoiceProps> = ({
     // Incorrect state
     if (selectedValue && !isCorrect) {
         return (
-            <span id={id} className={cn('inline-flex items-center rounded', className)} style={{ background: ANNOTATION_COLORS.error.bg }}>
+            <span ref={assessment.ref} id={id} className={cn('relative inline-flex items-center rounded', className)} style={{ background: ANNOTATION_COLORS.error.bg }}>
                 <span className="px-1" style={{ color }}>{selectedValue}</span>
                 <button onClick={handleClear} className="px-0.5 hover:scale-110 transition-transform" style={{ color: ANNOTATION_COLORS.error.primary }}>
                     <X size={12} />
                 </button>
+                <QuizFeedback
+                    wrongAttempts={assessment.wrongAttempts}
+                    feedback={feedback?.[selectedValue]}
+                    hints={hints}
+                    solution={solution}
+                    solutionLatex={solutionLatex}
+                    solutionAfter={solutionAfter}
+                />
             </span>
         );
     }
 
     // Dropdown state
     return (
-        <span id={id} className="inline-block relative" ref={dropdownRef}>
+        <span
+            id={id}
+            className="inline-block relative"
+            ref={(element) => {
+                dropdownRef.current = element;
+                assessment.ref(element);
+            }}
+        >
             <button
                 onClick={() => setIsOpen(!isOpen)}
                 className={cn('px-1 rounded font-medium hover:opacity-80', className)}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lightbulb } from 'lucide-react';
+import { Equation } from '@/components/atoms/Equation';
+import type { QuizHelpProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+interface QuizFeedbackProps extends QuizHelpProps {
+    /** Wrong answers so far (from useAssessment) */
+    wrongAttempts: number;
+    /** Feedback for the current wrong answer */
+    feedback?: React.ReactNode;
+}
+
+/**
+ * QuizFeedback - Card under a wrong quiz answer with feedback for that
+ * answer, the hints unlocked so far and a "Show solution" step.
+ * Rendered by FillBlank and MultiChoice inside their (relative) root;
+ * renders nothing when there is nothing to show.
+ */
+export const QuizFeedback: React.FC<QuizFeedbackProps> = ({
+    wrongAttempts,
+    feedback,
+    hints = [],
+    solution,
+    solutionLatex,
+    solutionAfter = 2,
+}) => {
+    const [showSolution, setShowSolution] = useState(false);
+
+    const unlockedHints = hints
+        .map((hint, index) =>
+            typeof hint === 'string'
+                ? { content: hint as React.ReactNode, after: index + 1 }
+                : { content: hint.content, after: hint.after ?? index + 1 }
+        )
+        .filter((hint) => wrongAttempts >= hint.after);
+    const hasSolution = (solution !== undefined || solutionLatex !== undefined) && wrongAttempts >= solutionAfter;
+
+    if (!feedback && unlockedHints.length === 0 && !hasSolution) return null;
+
+    return (
+        <motion.span
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.15 }}
+            role="status"
+            className="absolute top-full left-0 mt-1 z-50 block w-max max-w-xs space-y-1.5 rounded-lg bg-white p-3 text-left text-sm font-normal leading-snug shadow-lg"
+            style={{ border: `1px solid ${ANNOTATION_COLORS.validatable.bg}`, color: '#334155' }}
+        >
+            {feedback && (
+                <span className="block" style={{ color: ANNOTATION_COLORS.error.primary }}>
+                    {feedback}
+                </span>
+            )}
+
+            {unlockedHints.map((hint, index) => (
+                <span key={index} className="flex gap-1.5">
+                    <Lightbulb size={14} className="mt-0.5 shrink-0" style={{ color: ANNOTATION_COLORS.informational.primary }} />
+                    <span>
+                        {unlockedHints.length > 1 && <span className="font-medium">Hint {index + 1}: </span>}
+                        {hint.content}
+                    </span>
+                </span>
+            ))}
+
+            {hasSolution && !showSolution && (
+                <button
+                    onClick={() => setShowSolution(true)}
+                    className="block font-medium hover:underline"
+                    style={{ color: ANNOTATION_COLORS.validatable.primary }}
+                >
+                    Show solution
+                </button>
+            )}
+
+            {hasSolution && showSolution && (
+                <span className="block space-y-1 border-t pt-1.5">
+                    <span className="block font-medium">Solution</span>
+                    {solutionLatex && <Equation latex={solutionLatex} />}
+                    {solution && <span className="block">{solution}</span>}
+                </span>
+            )}
+        </motion.span>
+    );
+};
+
+export default QuizFeedback;
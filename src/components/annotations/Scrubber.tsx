@@ -0,0 +1,173 @@
+import { useState, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { useVarBinding } from '@/stores';
+import type { ScrubberProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+// Shift drags/steps 10× faster, Alt 10× finer
+const COARSE_FACTOR = 10;
+const FINE_FACTOR = 0.1;
+
+// Number of decimals implied by a step (0.1 → 1, 0.25 → 2)
+const decimalsOf = (step: number): number => String(step).split('.')[1]?.length ?? 0;
+
+const getModifierFactor = (e: { shiftKey: boolean; altKey: boolean }): number =>
+  e.shiftKey ? COARSE_FACTOR : e.altKey ? FINE_FACTOR : 1;
+
+/**
+ * Scrubber - A Bret Victor style inline number, changed by dragging it
+ * horizontally.
+ *
+ * Category: Mutable
+ * Visual Style: Double underline, highlighted while dragging
+ * Interaction: Drag left/right (mouse, pen or touch), or focus and use the arrow keys.
+ * Hold Shift for coarse and Alt for fine adjustment; Home/End jump to min/max.
+ *
+ * Unlike Stepper, the value follows the pointer continuously, so it suits
+ * parameters that are explored rather than counted.
+ *
+ * @example
+ * ```tsx
+ * <p>
+ *   A spring with stiffness{' '}
+ *   <Scrubber initialValue={2.5} min={0} max={10} step={0.1} onChange={setStiffness} />{' '}
+ *   N/m oscillates faster as you drag the number to the right.
+ * </p>
+ * ```
+ *
+ * @example Bound to a store variable
+ * ```tsx
+ * The phase is <Scrubber bind="phase" />°.
+ * ```
+ */
+export const Scrubber: React.FC<ScrubberProps> = ({
+  id,
+  bind,
+  value: valueProp,
+  initialValue = 0,
+  min: minProp,
+  max: maxProp,
+  step: stepProp,
+  precision: precisionProp,
+  sensitivity = 4,
+  color = ANNOTATION_COLORS.mutable.primary,
+  bgColor = ANNOTATION_COLORS.mutable.bg,
+  onChange,
+  className,
+}) => {
+  const binding = useVarBinding<number>(bind);
+  const min = minProp ?? binding.definition?.min ?? -Infinity;
+  const max = maxProp ?? binding.definition?.max ?? Infinity;
+  const step = stepProp ?? binding.definition?.step ?? 1;
+  const precision = precisionProp ?? decimalsOf(step);
+  const controlledValue = binding.isBound ? binding.value ?? initialValue : valueProp;
+
+  const [internalValue, setInternalValue] = useState(controlledValue ?? initialValue);
+  const [isDragging, setIsDragging] = useState(false);
+  const drag = useRef({ pointerId: -1, lastX: 0, raw: 0 });
+
+  // Controlled vs uncontrolled
+  const isControlled = controlledValue !== undefined;
+  const value = isControlled ? controlledValue : internalValue;
+
+  const updateValue = (newValue: number, increment = step) => {
+    const snapped = Math.round(newValue / increment) * increment;
+    const clamped = Math.max(min, Math.min(max, snapped));
+    const rounded = Number(clamped.toFixed(Math.max(precision, decimalsOf(increment))));
+    if (rounded === value) return;
+    if (!isControlled) {
+      setInternalValue(rounded);
+    }
+    binding.setValue(rounded);
+    onChange?.(rounded);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLSpanElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    drag.current = { pointerId: e.pointerId, lastX: e.clientX, raw: value };
+    setIsDragging(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLSpanElement>) => {
+    if (!isDragging || e.pointerId !== drag.current.pointerId) return;
+    const factor = getModifierFactor(e);
+    const deltaX = e.clientX - drag.current.lastX;
+    drag.current.lastX = e.clientX;
+    // Accumulate unrounded so slow drags still add up, and switching modifiers mid-drag doesn't jump
+    drag.current.raw = Math.max(min, Math.min(max, drag.current.raw + (deltaX / sensitivity) * step * factor));
+    updateValue(drag.current.raw, factor < 1 ? step * factor : step);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLSpanElement>) => {
+    if (e.pointerId !== drag.current.pointerId) return;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    drag.current.pointerId = -1;
+    setIsDragging(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const factor = getModifierFactor(e);
+    const increment = step * factor;
+    if (e.key === 'ArrowUp' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      updateValue(value + increment, factor < 1 ? increment : step);
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowLeft') {
+      e.preventDefault();
+      updateValue(value - increment, factor < 1 ? increment : step);
+    } else if (e.key === 'Home' && Number.isFinite(min)) {
+      e.preventDefault();
+      updateValue(min);
+    } else if (e.key === 'End' && Number.isFinite(max)) {
+      e.preventDefault();
+      updateValue(max);
+    }
+  };
+
+  const hasRange = Number.isFinite(min) && Number.isFinite(max) && max > min;
+  const progress = hasRange ? ((value - min) / (max - min)) * 100 : 0;
+
+  return (
+    <span
+      id={id}
+      className={cn('annotation annotation-scrubber', isDragging && 'dragging', className)}
+      style={{
+        position: 'relative',
+        display: 'inline-block',
+        color,
+        borderBottomColor: color,
+        background: isDragging ? bgColor : undefined,
+        fontWeight: 600,
+        fontVariantNumeric: 'tabular-nums',
+        touchAction: 'none',
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      role="slider"
+      aria-valuenow={value}
+      aria-valuemin={Number.isFinite(min) ? min : undefined}
+      aria-valuemax={Number.isFinite(max) ? max : undefined}
+      aria-valuetext={value.toFixed(precision)}
+    >
+      {hasRange && (
+        <span className="annotation-progress" style={{ opacity: isDragging ? 1 : undefined }}>
+          <span
+            className="annotation-progress__fill"
+            style={{ display: 'block', width: `${progress}%`, background: color }}
+          />
+        </span>
+      )}
+      {value.toFixed(precision)}
+    </span>
+  );
+};
+
+export default Scrubber;
@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react';
+import { Reorder } from 'framer-motion';
+import { Check, GripVertical, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAssessment } from '@/stores';
+import type { SortableProps } from './types';
+import { ANNOTATION_COLORS } from './types';
+
+/**
+ * Deterministic shuffle (seeded by the item text) so the starting order is
+ * stable across re-renders and reloads, and never already `solved`.
+ */
+const scramble = (count: number, seedText: string, solved: number[]): number[] => {
+    const order = Array.from({ length: count }, (_, i) => i);
+    if (count < 2) return order;
+
+    let seed = 0;
+    for (let i = 0; i < seedText.length; i++) seed = (seed * 31 + seedText.charCodeAt(i)) >>> 0;
+    const random = () => {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        return seed / 2 ** 32;
+    };
+
+    for (let i = count - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    // A shuffle that happens to be solved is no exercise - rotate it
+    return order.every((item, i) => item === solved[i]) ? [...order.slice(1), order[0]] : order;
+};
+
+// Saved answers are the order as JSON; anything that isn't a permutation of the items is ignored
+const parseOrder = (answer: string | null, count: number): number[] | null => {
+    if (answer === null) return null;
+    try {
+        const order = JSON.parse(answer);
+        const isPermutation =
+            Array.isArray(order) &&
+            order.length === count &&
+            [...order].sort((a, b) => a - b).every((item, i) => item === i);
+        return isPermutation ? order : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Sortable - Put items in the right order (steps of a procedure, values by size...).
+ * Category: Validatable | Visual: Chips (inline) or a numbered list (block)
+ *
+ * Reorder by dragging, or from the keyboard: focus an item, press Space to
+ * pick it up, move it with the arrow keys and press Space again to drop it
+ * (Alt+Arrow moves it directly). "Check" marks every position as right or wrong.
+ * Checked and solved orders are reported to the assessment store. A drag is
+ * judged when the item is dropped, not at every swap on the way.
+ *
+ * `correctOrder[position]` is the index in `items` of the item that belongs
+ * there. Without it, `items` is taken to be in the correct order. Items start
+ * scrambled unless `initialOrder` is given.
+ *
+ * @example
+ * ```tsx
+ * <Sortable
+ *   layout="block"
+ *   items={[
+ *     'Write det(A − λI) = 0',
+ *     'Expand the characteristic polynomial',
+ *     'Solve for λ',
+ *     'Find the eigenvectors for each λ',
+ *   ]}
+ *   onChange={(items, isCorrect) => console.log(isCorrect)}
+ * />
+ * ```
+ */
+export const Sortable: React.FC<SortableProps> = ({
+    id,
+    items,
+    correctOrder: correctOrderProp,
+    initialOrder,
+    layout = 'inline',
+    color = ANNOTATION_COLORS.validatable.primary,
+    bgColor = ANNOTATION_COLORS.validatable.bg,
+    onChange,
+    className,
+}) => {
+    const correctOrder = useMemo(
+        () => correctOrderProp ?? items.map((_, i) => i),
+        [correctOrderProp, items]
+    );
+
+    const startOrder = useMemo(
+        () => initialOrder ?? scramble(items.length, items.join('|'), correctOrder),
+        [initialOrder, items, correctOrder]
+    );
+    const [order, setOrder] = useState<number[]>(startOrder);
+    const [grabbed, setGrabbed] = useState<number | null>(null);
+    const [isChecked, setIsChecked] = useState(false);
+    const [announcement, setAnnouncement] = useState('');
+    // Order when the current drag started (null when not dragging)
+    const [dragStartOrder, setDragStartOrder] = useState<number[] | null>(null);
+
+    const assessment = useAssessment({ id, kind: 'Sortable', answerKey: items.join('|') });
+    const isRegistered = assessment.item !== undefined;
+    const savedAnswer = assessment.item?.answer ?? null;
+
+    const isInCorrectOrder = (candidate: number[]) =>
+        candidate.every((item, position) => item === correctOrder[position]);
+    const isCorrect = dragStartOrder === null && isInCorrectOrder(order);
+    const correctCount = order.filter((item, position) => item === correctOrder[position]).length;
+
+    // Restore saved progress, and follow a progress reset
+    const restoreFrom = isRegistered ? savedAnswer ?? '' : null;
+    const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+    if (restoreFrom !== restoredFrom) {
+        setRestoredFrom(restoreFrom);
+        const saved = restoreFrom === null ? null : parseOrder(savedAnswer, items.length);
+        const target = saved ?? startOrder;
+        if (restoreFrom !== null && !target.every((item, i) => item === order[i])) {
+            setOrder(target);
+            setIsChecked(saved !== null);
+        }
+    }
+
+    // Live reordering (every swap during a drag); nothing is judged yet
+    const updateOrder = (next: number[]) => {
+        if (next.every((item, i) => item === order[i])) return;
+        setOrder(next);
+        setIsChecked(false);
+    };
+
+    // Judge a settled order (item dropped, or moved from the keyboard)
+    const commitOrder = (next: number[]) => {
+        const correct = isInCorrectOrder(next);
+        if (correct) assessment.record(JSON.stringify(next), true);
+        onChange?.(next.map((i) => items[i]), correct);
+    };
+
+    const handleDragEnd = () => {
+        setDragStartOrder(null);
+        if (dragStartOrder?.some((item, i) => item !== order[i])) commitOrder(order);
+    };
+
+    const moveItem = (item: number, delta: number) => {
+        const from = order.indexOf(item);
+        const to = Math.max(0, Math.min(order.length - 1, from + delta));
+        if (from === to) return;
+        const next = [...order];
+        next.splice(from, 1);
+        next.splice(to, 0, item);
+        updateOrder(next);
+        commitOrder(next);
+        setAnnouncement(`${items[item]}, moved to position ${to + 1} of ${order.length}`);
+    };
+
+    const handleKeyDown = (item: number) => (e: React.KeyboardEvent) => {
+        const back = e.key === 'ArrowUp' || e.key === 'ArrowLeft';
+        const forward = e.key === 'ArrowDown' || e.key === 'ArrowRight';
+
+        if (e.key === ' ' || e.key === 'Enter') {
+            e.preventDefault();
+            const pickingUp = grabbed !== item;
+            setGrabbed(pickingUp ? item : null);
+            setAnnouncement(
+                pickingUp
+                    ? `${items[item]} picked up. Use the arrow keys to move it, Space to drop it.`
+                    : `${items[item]} dropped at position ${order.indexOf(item) + 1}.`
+            );
+        } else if (e.key === 'Escape' && grabbed !== null) {
+            setGrabbed(null);
+        } else if ((back || forward) && (grabbed === item || e.altKey)) {
+            e.preventDefault();
+            moveItem(item, back ? -1 : 1);
+        }
+    };
+
+    const isBlock = layout === 'block';
+    const Wrapper = isBlock ? 'div' : 'span';
+
+    const getItemState = (item: number, position: number): 'correct' | 'wrong' | null => {
+        if (isCorrect) return 'correct';
+        if (!isChecked) return null;
+        return item === correctOrder[position] ? 'correct' : 'wrong';
+    };
+
+    return (
+        <Wrapper
+            ref={assessment.ref}
+            id={id}
+            className={cn(
+                'annotation annotation-sortable',
+                isBlock ? 'flex flex-col gap-2 my-2' : 'inline-flex flex-wrap items-center gap-1 align-middle',
+                className
+            )}
+        >
+            <Reorder.Group
+                as={isBlock ? 'ol' : 'span'}
+                axis={isBlock ? 'y' : 'x'}
+                values={order}
+                onReorder={updateOrder}
+                className={isBlock ? 'flex flex-col gap-1.5 list-none p-0 m-0' : 'inline-flex flex-wrap items-center gap-1'}
+                aria-label="Reorderable items"
+            >
+                {order.map((item, position) => {
+                    const state = getItemState(item, position);
+                    const itemColor = state === 'correct'
+                        ? ANNOTATION_COLORS.success.primary
+                        : state === 'wrong'
+                            ? ANNOTATION_COLORS.error.primary
+                            : color;
+                    const itemBg = state === 'correct'
+                        ? ANNOTATION_COLORS.success.bg
+                        : state === 'wrong'
+                            ? ANNOTATION_COLORS.error.bg
+                            : bgColor;
+
+                    return (
+                        <Reorder.Item
+                            key={item}
+                            value={item}
+                            as={isBlock ? 'li' : 'span'}
+                            tabIndex={0}
+                            onKeyDown={handleKeyDown(item)}
+                            onDragStart={() => setDragStartOrder(order)}
+                            onDragEnd={handleDragEnd}
+                            onBlur={() => grabbed === item && setGrabbed(null)}
+                            aria-grabbed={grabbed === item}
+                            aria-label={`${items[item]}, position ${position + 1} of ${order.length}`}
+                            className={cn(
+                                'items-center gap-1.5 rounded font-medium select-none cursor-grab active:cursor-grabbing outline-none focus-visible:ring-2',
+                                isBlock ? 'flex px-2 py-1.5' : 'inline-flex px-1.5 py-0.5'
+                            )}
+                            style={{
+                                color: itemColor,
+                                background: itemBg,
+                                boxShadow: grabbed === item ? `0 0 0 2px ${itemColor}` : undefined,
+                                touchAction: 'none',
+                            }}
+                            whileDrag={{ scale: 1.04, boxShadow: `0 4px 12px ${ANNOTATION_COLORS.validatable.glow}` }}
+                        >
+                            {isBlock && (
+                                <>
+                                    <GripVertical size={14} style={{ opacity: 0.5 }} />
+                                    <span style={{ opacity: 0.6 }}>{position + 1}.</span>
+                                </>
+                            )}
+                            <span>{items[item]}</span>
+                            {state === 'correct' && isChecked && <Check size={12} />}
+                            {state === 'wrong' && <X size={12} />}
+                        </Reorder.Item>
+                    );
+                })}
+            </Reorder.Group>
+
+            {isCorrect ? (
+                <span className="inline-flex items-center gap-1 text-sm font-medium" style={{ color: ANNOTATION_COLORS.success.primary }}>
+                    <Check size={14} /> Correct order
+                </span>
+            ) : (
+                <span className="inline-flex items-center gap-2 text-sm">
+                    <button
+                        onClick={() => {
+                            setIsChecked(true);
+                            assessment.record(JSON.stringify(order), false);
+                            onChange?.(order.map((i) => items[i]), false);
+                        }}
+                        className="px-1.5 rounded font-medium hover:opacity-80"
+                        style={{ color, background: bgColor }}
+                    >
+                        Check
+                    </button>
+                    {isChecked && (
+                        <span style={{ color: ANNOTATION_COLORS.error.primary }}>
+                            {correctCount} of {order.length} in the right place
+                        </span>
+                    )}
+                </span>
+            )}
+
+            <span className="sr-only" aria-live="polite">{announcement}</span>
+        </Wrapper>
+    );
+};
+
+export default Sortable;
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { useVarBinding } from '@/stores';
 import type { StepperProps } from './types';
 import { ANNOTATION_COLORS } from './types';
 
@@ -27,20 +28,32 @@ import { ANNOTATION_COLORS } from './types';
  *   the shape becomes more circular.
  * </p>
  * ```
+ * 
+ * @example Bound to a store variable (range and step come from variables.ts)
+ * ```tsx
+ * The amplitude is <Stepper bind="amplitude" formatValue={(v) => v.toFixed(1)} />.
+ * ```
  */
 export const Stepper: React.FC<StepperProps> = ({
   id,
-  value: controlledValue,
+  bind,
+  value: valueProp,
   initialValue = 10,
-  min = 0,
-  max = 100,
-  step = 1,
+  min: minProp,
+  max: maxProp,
+  step: stepProp,
   color = ANNOTATION_COLORS.mutable.primary,
   bgColor = ANNOTATION_COLORS.mutable.bg,
   formatValue,
   onChange,
   className,
 }) => {
+  const binding = useVarBinding<number>(bind);
+  const min = minProp ?? binding.definition?.min ?? 0;
+  const max = maxProp ?? binding.definition?.max ?? 100;
+  const step = stepProp ?? binding.definition?.step ?? 1;
+  const controlledValue = binding.isBound ? binding.value ?? initialValue : valueProp;
+
   const [internalValue, setInternalValue] = useState(controlledValue ?? initialValue);
   const [isDragging, setIsDragging] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
@@ -57,6 +70,7 @@ export const Stepper: React.FC<StepperProps> = ({
     if (!isControlled) {
       setInternalValue(clampedValue);
     }
+    binding.setValue(clampedValue);
     onChange?.(clampedValue);
   };
 
@@ -1,23 +1,35 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { getVariableType, useVarBinding } from '@/stores';
 import type { ToggleProps } from './types';
 import { ANNOTATION_COLORS } from './types';
 
 /**
  * Toggle - Cycles through options on click.
  * Category: Mutable | Visual: Dashed underline
+ *
+ * Bound to a select variable, it cycles through the variable's options;
+ * bound to a boolean, `options` are the labels for false and true:
+ * <Toggle bind="waveType" /> or <Toggle bind="showGrid" options={['hidden', 'shown']} />
  */
 export const Toggle: React.FC<ToggleProps> = ({
     id,
-    options,
-    value: controlledIndex,
+    bind,
+    options: optionsProp,
+    value: valueProp,
     initialValue = 0,
     color = ANNOTATION_COLORS.mutable.primary,
     bgColor = ANNOTATION_COLORS.mutable.bg,
     onChange,
     className,
 }) => {
+    const binding = useVarBinding<string | boolean>(bind);
+    const isBoolean = binding.definition ? getVariableType(binding.definition) === 'boolean' : typeof binding.value === 'boolean';
+    const options = optionsProp ?? binding.definition?.options ?? (isBoolean ? ['false', 'true'] : []);
+    const boundIndex = isBoolean ? Number(binding.value === true) : options.indexOf(String(binding.value));
+    const controlledIndex = binding.isBound ? Math.max(0, boundIndex) : valueProp;
+
     const [internalIndex, setInternalIndex] = useState(controlledIndex ?? initialValue);
     const [isHovered, setIsHovered] = useState(false);
 
@@ -28,6 +40,7 @@ export const Toggle: React.FC<ToggleProps> = ({
     const cycle = () => {
         const nextIndex = (currentIndex + 1) % options.length;
         if (!isControlled) setInternalIndex(nextIndex);
+        if (binding.isBound) binding.setValue(isBoolean ? nextIndex === 1 : options[nextIndex]);
         onChange?.(options[nextIndex], nextIndex);
     };
 
@@ -5,16 +5,21 @@
  * 
  * Categories:
  * - Informational: Hoverable, Glossary, Whisper
- * - Mutable: Stepper, Toggle
- * - Validatable: FillBlank, MultiChoice
- * - Connective: Linked, Trigger
+ * - Mutable: Stepper, Toggle, Scrubber
+ * - Validatable: FillBlank, MultiChoice, Sortable
+ * - Connective: Linked, Trigger, Focus
+ * - Draggable: DragWord, DropZone, Movable
  * 
  * Visual Style Guide:
  * - Solid underline ─────── : Draggable values (Stepper)
  * - Dashed underline - - -  : Toggleable states (Toggle)
+ * - Double underline ══════ : Continuous values (Scrubber)
  * - Dotted underline ······ : Definitions (Glossary, Linked)
+ * - Dashed underline + zoom : Zoom into a visual (Focus)
  * - No underline (color)    : Tooltips (Hoverable, Whisper)
- * - Background highlight    : Quiz inputs (FillBlank, MultiChoice)
+ * - Background highlight    : Quiz inputs (FillBlank, MultiChoice, Sortable)
+ * - Dashed chip / box       : Drag-and-drop words (DragWord, DropZone)
+ * - Floating card           : Free-moving elements (Movable)
  */
 
 // Components
@@ -23,10 +28,15 @@ export { Glossary } from './Glossary';
 export { Whisper } from './Whisper';
 export { Stepper } from './Stepper';
 export { Toggle } from './Toggle';
+export { Scrubber } from './Scrubber';
 export { FillBlank } from './FillBlank';
 export { MultiChoice } from './MultiChoice';
+export { Sortable } from './Sortable';
 export { Linked, LinkedProvider, useLinkedContext, useActiveLink, useSetActiveLink } from './Linked';
 export { Trigger } from './Trigger';
+export { Focus } from './Focus';
+export { DragWord, DropZone, DragDropProvider, useDragDropContext } from './DragWord';
+export { Movable } from './Movable';
 
 // Types
 export * from './types';
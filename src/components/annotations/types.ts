@@ -11,6 +11,8 @@
  * 5. Draggable - Spatial manipulation
  */
 
+import type { AnswerRule } from '@/lib/answer-checker';
+
 // ============================================================================
 // ANNOTATION CATEGORIES
 // ============================================================================
@@ -51,6 +53,14 @@ export interface BaseAnnotationProps {
     underline?: UnderlineStyle;
 }
 
+export interface BindableProps {
+    /**
+     * Name of a store variable (see variables.ts) to read and write.
+     * Missing min/max/step/options are taken from its definition.
+     */
+    bind?: string;
+}
+
 // ============================================================================
 // CATEGORY: INFORMATIONAL
 // ============================================================================
@@ -90,7 +100,7 @@ export interface WhisperProps extends BaseAnnotationProps {
 // CATEGORY: MUTABLE
 // ============================================================================
 
-export interface StepperProps extends BaseAnnotationProps {
+export interface StepperProps extends BaseAnnotationProps, BindableProps {
     /** Controlled value */
     value?: number;
     /** Initial value for uncontrolled mode */
@@ -107,9 +117,9 @@ export interface StepperProps extends BaseAnnotationProps {
     onChange?: (value: number) => void;
 }
 
-export interface ToggleProps extends BaseAnnotationProps {
-    /** Array of options to cycle through */
-    options: string[];
+export interface ToggleProps extends BaseAnnotationProps, BindableProps {
+    /** Array of options to cycle through (bound: defaults to the variable's options) */
+    options?: string[];
     /** Current value index */
     value?: number;
     /** Initial value index */
@@ -118,7 +128,7 @@ export interface ToggleProps extends BaseAnnotationProps {
     onChange?: (value: string, index: number) => void;
 }
 
-export interface ScrubberProps extends BaseAnnotationProps {
+export interface ScrubberProps extends BaseAnnotationProps, BindableProps {
     /** Current value */
     value?: number;
     /** Initial value */
@@ -129,9 +139,9 @@ export interface ScrubberProps extends BaseAnnotationProps {
     max?: number;
     /** Step increment */
     step?: number;
-    /** Decimal precision */
+    /** Decimal precision (default: the decimals of `step`) */
     precision?: number;
-    /** Scrub sensitivity (pixels per step) */
+    /** Scrub sensitivity (pixels per step, default: 4) */
     sensitivity?: number;
     /** Callback when value changes */
     onChange?: (value: number) => void;
@@ -141,9 +151,33 @@ export interface ScrubberProps extends BaseAnnotationProps {
 // CATEGORY: VALIDATABLE
 // ============================================================================
 
-export interface FillBlankProps extends BaseAnnotationProps {
-    /** The correct answer */
+/** A hint, shown once the learner has answered wrong `after` times (default: its position, 1-based) */
+export type QuizHint = string | { content: React.ReactNode; after?: number };
+
+/**
+ * Help for learners who answer a quiz wrong: escalating hints and a
+ * worked solution
+ */
+export interface QuizHelpProps {
+    /** Hints, revealed one by one after wrong answers */
+    hints?: QuizHint[];
+    /** Worked solution, behind a "Show solution" button */
+    solution?: React.ReactNode;
+    /** LaTeX shown with the solution (rendered with Equation) */
+    solutionLatex?: string;
+    /** Wrong answers before the solution can be revealed (default: 2) */
+    solutionAfter?: number;
+}
+
+export interface FillBlankProps extends BaseAnnotationProps, BindableProps, QuizHelpProps {
+    /** The correct answer (matched as text unless `math` is set) */
     correctAnswer: string;
+    /** Other accepted answers: text, numbers with tolerance/unit, regexes or expressions (see answer-checker.ts) */
+    accept?: AnswerRule | AnswerRule[];
+    /** Compare text answers as numbers, units and simple algebra (e.g. "90°" accepts "π/2") */
+    math?: boolean;
+    /** Tolerance for numeric answers */
+    tolerance?: number;
     /** Placeholder text */
     placeholder?: string;
     /** Case sensitive checking */
@@ -152,11 +186,13 @@ export interface FillBlankProps extends BaseAnnotationProps {
     onChange?: (value: string, isCorrect: boolean) => void;
 }
 
-export interface MultiChoiceProps extends BaseAnnotationProps {
+export interface MultiChoiceProps extends BaseAnnotationProps, BindableProps, QuizHelpProps {
     /** The correct answer */
     correctAnswer: string;
-    /** Array of options */
-    options: string[];
+    /** Array of options (bound: defaults to the variable's options) */
+    options?: string[];
+    /** Feedback for wrong options, by option (e.g. { trace: "That's the trace, not the determinant" }) */
+    feedback?: Record<string, React.ReactNode>;
     /** Placeholder text */
     placeholder?: string;
     /** Callback when selection changes */
@@ -166,9 +202,13 @@ export interface MultiChoiceProps extends BaseAnnotationProps {
 export interface SortableProps extends BaseAnnotationProps {
     /** Items to sort */
     items: string[];
-    /** Correct order (array of indices) */
+    /** Correct order (array of indices) - default: `items` as given, shown scrambled */
     correctOrder?: number[];
-    /** Callback when order changes */
+    /** Starting order (array of indices) - default: scrambled (never already correct) */
+    initialOrder?: number[];
+    /** Inline chips within a sentence, or a vertical numbered list */
+    layout?: 'inline' | 'block';
+    /** Callback when an item is dropped or moved, or the order is checked */
     onChange?: (items: string[], isCorrect: boolean) => void;
 }
 
@@ -211,6 +251,10 @@ export interface FocusProps extends BaseAnnotationProps {
     target: string | React.RefObject<HTMLElement>;
     /** Zoom level when focused */
     zoomLevel?: number;
+    /** Point to zoom in on, as fractions of the target's size (default: center) */
+    point?: { x: number; y: number };
+    /** Dim the rest of the page while focused (default: true) */
+    dim?: boolean;
 }
 
 // ============================================================================
@@ -222,19 +266,52 @@ export interface DragWordProps extends BaseAnnotationProps {
     children: React.ReactNode;
     /** Drag data identifier */
     dragId: string;
-    /** Valid drop zones */
+    /** Drop zones this word belongs in (checked alongside each zone's `accepts`) */
     dropZones?: string[];
-    /** Callback when dropped */
-    onDrop?: (dropZoneId: string) => void;
+    /** Callback when dropped into a zone */
+    onDrop?: (dropZoneId: string, isCorrect: boolean) => void;
+}
+
+export interface DropZoneProps extends BaseAnnotationProps {
+    /** Unique drop zone identifier */
+    zoneId: string;
+    /** dragId(s) of the words that belong here */
+    accepts?: string | string[];
+    /** Shown while the zone is empty */
+    placeholder?: React.ReactNode;
+    /** Callback when a word is dropped in or removed (dragId is null when emptied) */
+    onChange?: (dragId: string | null, isCorrect: boolean) => void;
+}
+
+export interface DragDropProviderProps {
+    /** Assessment item id (default: derived from the section and the zone ids) */
+    id?: string;
+    /** The words and drop zones of one exercise */
+    children: React.ReactNode;
+    /** Callback on every placement, with whether every zone holds a correct word */
+    onChange?: (placements: Record<string, string>, isCorrect: boolean) => void;
 }
 
-export interface MovableProps extends BaseAnnotationProps {
+export interface MovableProps extends BaseAnnotationProps, BindableProps {
     /** Content to display */
     children: React.ReactNode;
+    /** Current position (controlled) */
+    position?: { x: number; y: number };
     /** Initial position */
     initialPosition?: { x: number; y: number };
     /** Constrain to parent bounds */
     constrain?: boolean;
+    /** Snap to a grid of this size (in position units) */
+    snap?: number;
+    /** Only allow movement along one axis */
+    axis?: 'x' | 'y' | 'both';
+    /** Which point of the element sits at the position (default: top-left) */
+    anchor?: 'top-left' | 'center';
+    /**
+     * Graph coordinates for all positions: `origin` is the pixel position of (0, 0)
+     * and `unit` the pixels per unit; y points up. Default: pixels from the parent's top-left.
+     */
+    coordinates?: { origin: { x: number; y: number }; unit: number };
     /** Callback when position changes */
     onMove?: (position: { x: number; y: number }) => void;
 }
@@ -1,9 +1,11 @@
 import React, { useState, createContext, useContext } from 'react';
 import { Equation } from './Equation';
 import { cn } from '@/lib/utils';
-import { useOptionalEditing } from '@/contexts/EditingContext';
+import { getElementIdentity, type EditableIdentityProps } from '@/lib/element-identity';
+import { useOptionalEditing, type EquationEdit } from '@/contexts/EditingContext';
 import { useAppMode } from '@/contexts/AppModeContext';
-import { useEditableTextContext } from '@/components/editing/EditableText';
+import { useEditableTextContext, useEditKeyAttribute, useSyncedTextEdit } from '@/components/editing/EditableText';
+import { EquationEditButton, useEquationEditing } from '@/components/editing/EquationEditButton';
 
 // Context for sharing hover state between equation and text
 interface ColoredEquationContextValue {
@@ -50,40 +52,42 @@ export const ColoredEquationProvider: React.FC<ColoredEquationProviderProps> = (
     className = '',
 }) => {
     const [activeTerm, setActiveTerm] = useState<string | null>(null);
+    const containerRef = React.useRef<HTMLDivElement>(null);
 
-    // Editing support: Check if any equation inside this provider has pending color edits
+    // Editing support: preview the color edits made inside this provider
     const editingContext = useOptionalEditing();
     const { isEditor } = useAppMode();
-    const pendingEdits = editingContext?.pendingEdits || [];
+    const pendingEdits = editingContext?.pendingEdits;
     const isEditing = editingContext?.isEditing && isEditor;
 
-    // Derived color map from pending edits
+    // Applying edits merges every equation and term color edit into the
+    // provider's colorMap, in order, so the preview does the same. Edits
+    // belong to this provider when their element (data-edit-key) is inside it.
     const effectiveColorMap = React.useMemo(() => {
-        if (!isEditing || pendingEdits.length === 0) return colorMap;
+        const container = containerRef.current;
+        if (!isEditing || !pendingEdits || !container) return colorMap;
 
-        // Try to find an equation edit that has a color map
-        // We look for the most recent one. 
-        // Note: This is a heuristics-based approach since we don't strictly know if the equation belongs to this provider.
-        // But typically, a section shares a color scheme.
-        const colorEdit = [...pendingEdits].reverse().find(e =>
+        const colorEdits = pendingEdits.filter((e): e is EquationEdit =>
             e.type === 'equation' &&
-            e.colorMap &&
-            Object.keys(e.colorMap).length > 0
+            !e.stale &&
+            !!e.colorMap &&
+            container.querySelector(`[data-edit-key="${CSS.escape(e.elementPath)}"]`) !== null
         );
+        if (colorEdits.length === 0) return colorMap;
 
-        return (colorEdit as any)?.colorMap || colorMap;
+        return colorEdits.reduce((merged, e) => ({ ...merged, ...e.colorMap }), colorMap);
     }, [isEditing, pendingEdits, colorMap]);
 
     return (
         <ColoredEquationContext.Provider value={{ activeTerm, setActiveTerm, colorMap: effectiveColorMap }}>
-            <div className={cn("colored-equation-provider", className)}>
+            <div ref={containerRef} className={cn("colored-equation-provider", className)}>
                 {children}
             </div>
         </ColoredEquationContext.Provider>
     );
 };
 
-interface ColoredEquationProps {
+interface ColoredEquationProps extends EditableIdentityProps {
     latex: string;
     className?: string;
 }
@@ -95,6 +99,8 @@ interface ColoredEquationProps {
 export const ColoredEquation: React.FC<ColoredEquationProps> = ({
     latex,
     className = '',
+    editId,
+    sourceLocation,
 }) => {
     const { activeTerm, setActiveTerm, colorMap } = useColoredEquation();
 
@@ -102,6 +108,9 @@ export const ColoredEquation: React.FC<ColoredEquationProps> = ({
         <span className={cn("inline-block align-baseline", className)}>
             <Equation
                 latex={latex}
+                editId={editId}
+                sourceLocation={sourceLocation}
+                componentType="ColoredEquation"
                 colorMap={colorMap}
                 activeTerm={activeTerm}
                 onTermHover={setActiveTerm}
@@ -111,7 +120,7 @@ export const ColoredEquation: React.FC<ColoredEquationProps> = ({
     );
 };
 
-interface HighlightedTermProps {
+interface HighlightedTermProps extends EditableIdentityProps {
     name: string;
     children: React.ReactNode;
     className?: string;
@@ -122,16 +131,18 @@ interface HighlightedTermProps {
  * HighlightedTerm - Text that corresponds to an equation term.
  * Highlights when the matching equation term is hovered, and vice versa.
  * Must be used within ColoredEquationProvider.
- * Now supports inline editing when in edit mode.
+ * Now supports inline editing when in edit mode; the term's color opens in
+ * the equation editor.
  */
 export const HighlightedTerm: React.FC<HighlightedTermProps> = ({
     name,
     children,
     className = '',
     sectionId = '',
+    editId,
+    sourceLocation,
 }) => {
     const { activeTerm, setActiveTerm, colorMap } = useColoredEquation();
-    const color = colorMap[name];
     const isActive = activeTerm === name;
     const hasActiveTerm = activeTerm !== null;
 
@@ -146,6 +157,26 @@ export const HighlightedTerm: React.FC<HighlightedTermProps> = ({
     const isEditing = editingContext?.isEditing && isEditor;
     const addTextEdit = editingContext?.addTextEdit;
 
+    const getIdentity = React.useCallback(
+        () => getElementIdentity({ editId, sourceLocation }, () => `HighlightedTerm[${name}]`),
+        [editId, sourceLocation, name]
+    );
+    const getKey = React.useCallback(() => getIdentity().key, [getIdentity]);
+    useSyncedTextEdit(spanRef, sectionId, getKey, isContentEditable);
+    useEditKeyAttribute(spanRef, getKey, isEditor);
+
+    // The term's color is edited in the equation editor, as \clr{name}{text}
+    const termLatex = `\\clr{${name}}{${React.Children.toArray(children).filter(c => typeof c === 'string' || typeof c === 'number').join('')}}`;
+    const { openEditor } = useEquationEditing(spanRef, {
+        getIdentity,
+        latex: termLatex,
+        colorMap,
+        sharedColorMap: true,
+        componentType: 'HighlightedTerm',
+        componentProps: { name },
+    });
+    const color = colorMap[name];
+
     // Check if we are inside an editable text component that is currently being edited
     // Use try-catch or safe access since useEditableTextContext might not be wrapped
     let isParentEditable = false;
@@ -188,9 +219,11 @@ export const HighlightedTerm: React.FC<HighlightedTermProps> = ({
         const newText = spanRef.current.innerText;
 
         if (newText !== originalText && addTextEdit) {
+            const { key, source } = getIdentity();
             addTextEdit({
                 sectionId,
-                elementPath: `HighlightedTerm[${name}]`,
+                elementPath: key,
+                source,
                 originalText,
                 newText,
             });
@@ -212,29 +245,35 @@ export const HighlightedTerm: React.FC<HighlightedTermProps> = ({
         }
     };
 
+    const canEditColor = isEditing && !isContentEditable && !isParentEditable;
+
     return (
-        <span
-            ref={spanRef}
-            className={cn(
-                "cursor-pointer transition-all duration-150 rounded px-0.5",
-                isEditing && !isContentEditable && !isParentEditable && "hover:outline hover:outline-2 hover:outline-dashed hover:outline-offset-1 hover:outline-[#3cc499]",
-                isContentEditable && "outline outline-2 outline-offset-1 outline-[#3cc499]",
-                className
-            )}
-            style={{
-                color: color,
-                opacity: hasActiveTerm ? (isActive ? 1 : 0.35) : 1,
-                backgroundColor: isContentEditable ? `${color}30` : (isActive ? `${color}20` : 'transparent'),
-            }}
-            contentEditable={isContentEditable}
-            suppressContentEditableWarning
-            onMouseEnter={() => !isContentEditable && setActiveTerm(name)}
-            onMouseLeave={() => !isContentEditable && setActiveTerm(null)}
-            onClick={handleClick}
-            onBlur={handleBlur}
-            onKeyDown={handleKeyDown}
-        >
-            {children}
+        <span className={cn("relative", canEditColor && "group")}>
+            <span
+                ref={spanRef}
+                className={cn(
+                    "cursor-pointer transition-all duration-150 rounded px-0.5",
+                    canEditColor && "hover:outline hover:outline-2 hover:outline-dashed hover:outline-offset-1 hover:outline-[#3cc499]",
+                    isContentEditable && "outline outline-2 outline-offset-1 outline-[#3cc499]",
+                    className
+                )}
+                style={{
+                    color: color,
+                    opacity: hasActiveTerm ? (isActive ? 1 : 0.35) : 1,
+                    backgroundColor: isContentEditable ? `${color}30` : (isActive ? `${color}20` : 'transparent'),
+                }}
+                contentEditable={isContentEditable}
+                suppressContentEditableWarning
+                onMouseEnter={() => !isContentEditable && setActiveTerm(name)}
+                onMouseLeave={() => !isContentEditable && setActiveTerm(null)}
+                onClick={handleClick}
+                onBlur={handleBlur}
+                onKeyDown={handleKeyDown}
+                data-latex={isEditor ? termLatex : undefined}
+            >
+                {children}
+            </span>
+            {canEditColor && <EquationEditButton onClick={openEditor} title="Edit term color" className="-top-4" />}
         </span>
     );
 };
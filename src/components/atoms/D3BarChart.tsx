@@ -1,5 +1,6 @@
 import React, { useRef, useEffect, useState } from 'react';
 import * as d3 from 'd3';
+import DOMPurify from 'dompurify';
 
 export interface DataPoint {
     label: string;
@@ -145,7 +146,7 @@ export const D3BarChart: React.FC<D3BarChartProps> = ({
                     left: tooltip.x,
                     top: tooltip.y,
                 }}
-                dangerouslySetInnerHTML={{ __html: tooltip.content }}
+                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(tooltip.content) }}
             />
         </div>
     );
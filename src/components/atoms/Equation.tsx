@@ -1,17 +1,21 @@
-import React, { useEffect, useRef, useMemo, useCallback, useState } from 'react';
+import React, { useEffect, useRef, useMemo, useCallback } from 'react';
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
 import { cn } from '@/lib/utils';
-import { useEditing } from '@/contexts/EditingContext';
-import { useAppMode } from '@/contexts/AppModeContext';
+import type { EquationComponentType } from '@/contexts/EditingContext';
+import { getElementIdentity, type EditableIdentityProps } from '@/lib/element-identity';
+import { useEditKeyAttribute } from '@/components/editing/EditableText';
+import { EquationEditButton, useEquationEditing } from '@/components/editing/EquationEditButton';
 
-interface EquationProps {
+interface EquationProps extends EditableIdentityProps {
     latex: string;
     colorMap?: Record<string, string>; // term -> color hex
     activeTerm?: string | null;
     onTermHover?: (term: string | null) => void;
     onTermClick?: (term: string) => void;
     className?: string;
+    /** Component reported with edits (set by wrappers such as ColoredEquation) */
+    componentType?: EquationComponentType;
 }
 
 /**
@@ -19,6 +23,9 @@ interface EquationProps {
  * 
  * Use the syntax: \clr{termName}{content} where termName matches a key in colorMap.
  * 
+ * In editor mode, edits are keyed by `editId` or the source location added at
+ * build time (see lib/element-identity.ts).
+ * 
  * Features:
  * - No layout shifts: uses only opacity changes
  * - Bidirectional hover: controlled via activeTerm prop
@@ -39,45 +46,34 @@ export const Equation: React.FC<EquationProps> = ({
     onTermHover,
     onTermClick,
     className = '',
+    editId,
+    sourceLocation,
+    componentType = 'Equation',
 }) => {
     const containerRef = useRef<HTMLSpanElement>(null);
 
-    // Editing support
-    const { isEditor } = useAppMode();
-    const { isEditing, openEquationEditor, pendingEdits } = useEditing();
-    const [isHovered, setIsHovered] = useState(false);
-
-    // Generate element path for identifying this equation
-    const getElementPath = useCallback(() => {
-        if (!containerRef.current) return '';
-        const section = containerRef.current.closest('[data-section-id]');
+    // Stable identity for edits; without an editId or source location, fall back to the content
+    const getIdentity = useCallback(() => getElementIdentity({ editId, sourceLocation }, () => {
+        const section = containerRef.current?.closest('[data-section-id]');
         const sectionId = section?.getAttribute('data-section-id') || 'unknown';
-        // Use a more stable ID if possible, otherwise rely on content
         return `equation-${sectionId}-${latex.substring(0, 20)}`;
-    }, [latex]);
-
-    // Check for pending edits
-    const pendingEdit = useMemo(() => {
-        if (!isEditing || !isEditor || !containerRef.current) return null;
-
-        const path = getElementPath();
-        const section = containerRef.current.closest('[data-section-id]');
-        const sectionId = section?.getAttribute('data-section-id') || '';
-
-        // Find the most recent edit for this equation
-        const edit = [...pendingEdits].reverse().find(e =>
-            e.type === 'equation' &&
-            e.sectionId === sectionId &&
-            (e as any).originalLatex === latex // Simple matching for now
-            // Ideally we'd match by elementPath if we generated it consistently upstream
-        );
-
-        return edit as { newLatex: string, colorMap?: Record<string, string> } | null;
-    }, [isEditing, isEditor, pendingEdits, latex, getElementPath]);
-
-    // Use edited values if available
-    const displayLatex = pendingEdit ? pendingEdit.newLatex : latex;
-    const displayColorMap = pendingEdit && pendingEdit.colorMap ? pendingEdit.colorMap : colorMap;
+    }), [editId, sourceLocation, latex]);
+
+    // Editing support: preview the pending edit, if any
+    const {
+        isEditor,
+        isEditing,
+        latex: displayLatex,
+        colorMap: displayColorMap = {},
+        openEditor,
+    } = useEquationEditing(containerRef, {
+        getIdentity,
+        latex,
+        colorMap,
+        sharedColorMap: componentType === 'ColoredEquation',
+        componentType,
+    });
+    useEditKeyAttribute(containerRef, useCallback(() => getIdentity().key, [getIdentity]), isEditor);
 
     // Pre-process the latex to replace \clr{term}{content} with colored spans
     const processedLatex = useMemo(() => {
@@ -199,47 +195,27 @@ export const Equation: React.FC<EquationProps> = ({
         }
     }, [onTermClick, findTermElement, getTermFromElement]);
 
-    // Handle edit button click
-    const handleEditClick = useCallback((e: React.MouseEvent) => {
-        e.stopPropagation();
-        e.preventDefault();
-        const section = containerRef.current?.closest('[data-section-id]');
-        const sectionId = section?.getAttribute('data-section-id') || '';
-        openEquationEditor(displayLatex, displayColorMap, sectionId, getElementPath());
-    }, [displayLatex, displayColorMap, openEquationEditor, getElementPath]);
-
     return (
         <span
             className={cn(
                 "relative inline-block",
-                isEditor && isEditing && "group"
+                isEditing && "group"
             )}
-            onMouseEnter={() => setIsHovered(true)}
-            onMouseLeave={() => setIsHovered(false)}
         >
             <span
                 ref={containerRef}
                 className={cn(
                     "equation-display inline-block",
                     className,
-                    isEditor && isEditing && "cursor-pointer hover:outline hover:outline-2 hover:outline-dashed hover:outline-offset-2 hover:outline-[#3cc499] rounded transition-all duration-150"
+                    isEditing && "cursor-pointer hover:outline hover:outline-2 hover:outline-dashed hover:outline-offset-2 hover:outline-[#3cc499] rounded transition-all duration-150"
                 )}
                 onMouseOver={handleMouseOver}
                 onMouseOut={handleMouseOut}
-                onClick={isEditor && isEditing ? handleEditClick : handleClick}
+                onClick={isEditing ? openEditor : handleClick}
+                data-latex={isEditor ? latex : undefined}
             />
             {/* Edit button - appears on hover in edit mode */}
-            {isEditor && isEditing && isHovered && (
-                <button
-                    onClick={handleEditClick}
-                    className="absolute -top-2 -right-2 w-6 h-6 bg-[#3cc499] text-white rounded-full shadow-lg flex items-center justify-center text-xs hover:bg-[#3cc499]/90 transition-all duration-150 z-10"
-                    title="Edit equation"
-                >
-                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                    </svg>
-                </button>
-            )}
+            {isEditing && <EquationEditButton onClick={openEditor} />}
         </span>
     );
 };
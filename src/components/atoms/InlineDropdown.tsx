@@ -1,8 +1,11 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X } from 'lucide-react';
+import { useAssessment } from '@/stores';
 
 interface InlineDropdownProps {
+    /** Optional id (also identifies the answer in the learner's progress) */
+    id?: string;
     /** The correct answer */
     correctAnswer: string;
     /** Array of options to choose from */
@@ -27,6 +30,7 @@ interface InlineDropdownProps {
  * - Opens a dropdown menu when clicked
  * - If incorrect: shows selection with red X to clear
  * - If correct: shows as plain colored text (locked)
+ * - Answers are reported to the assessment store (see useAssessment)
  * 
  * @example
  * ```tsx
@@ -43,6 +47,7 @@ interface InlineDropdownProps {
  * ```
  */
 export const InlineDropdown: React.FC<InlineDropdownProps> = ({
+    id,
     correctAnswer,
     options,
     placeholder = "???",
@@ -53,7 +58,21 @@ export const InlineDropdown: React.FC<InlineDropdownProps> = ({
     const [selectedValue, setSelectedValue] = useState<string | null>(null);
     const [isOpen, setIsOpen] = useState(false);
     const [isCorrect, setIsCorrect] = useState(false);
-    const dropdownRef = useRef<HTMLDivElement>(null);
+    const dropdownRef = useRef<HTMLSpanElement | null>(null);
+    const assessment = useAssessment({ id, kind: 'InlineDropdown', answerKey: correctAnswer });
+    const isRegistered = assessment.item !== undefined;
+    const savedAnswer = assessment.item?.answer ?? null;
+
+    // Restore saved progress, and follow a progress reset
+    const restoreFrom = isRegistered ? savedAnswer ?? '' : null;
+    const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+    if (restoreFrom !== restoredFrom) {
+        setRestoredFrom(restoreFrom);
+        if (restoreFrom !== null && savedAnswer !== selectedValue) {
+            setSelectedValue(savedAnswer);
+            setIsCorrect(savedAnswer === correctAnswer);
+        }
+    }
 
     // Close dropdown when clicking outside
     useEffect(() => {
@@ -77,18 +96,22 @@ export const InlineDropdown: React.FC<InlineDropdownProps> = ({
         setSelectedValue(option);
         setIsCorrect(correct);
         setIsOpen(false);
+        assessment.record(option, correct);
         onChange?.(option, correct);
     };
 
     const handleClear = () => {
         setSelectedValue(null);
         setIsCorrect(false);
+        assessment.clear();
     };
 
     // If correct, show as plain colored text
     if (isCorrect && selectedValue) {
         return (
             <span
+                ref={assessment.ref}
+                id={id}
                 className="font-medium px-0.5 rounded"
                 style={{ color }}
             >
@@ -101,6 +124,8 @@ export const InlineDropdown: React.FC<InlineDropdownProps> = ({
     if (selectedValue && !isCorrect) {
         return (
             <span
+                ref={assessment.ref}
+                id={id}
                 className="inline-flex items-center rounded font-medium"
                 style={{
                     backgroundColor: bgColor,
@@ -130,7 +155,14 @@ export const InlineDropdown: React.FC<InlineDropdownProps> = ({
 
     // Initial state: show dropdown button
     return (
-        <span className="inline-block relative" ref={dropdownRef}>
+        <span
+            id={id}
+            className="inline-block relative"
+            ref={(element) => {
+                dropdownRef.current = element;
+                assessment.ref(element);
+            }}
+        >
             <button
                 onClick={() => setIsOpen(!isOpen)}
                 className="px-1 rounded font-medium transition-all hover:opacity-80 backdrop-blur-sm"
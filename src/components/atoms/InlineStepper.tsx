@@ -1,8 +1,11 @@
 import { useState, useRef, useEffect } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { useVarBinding } from '@/stores';
 
 interface InlineStepperProps {
+    /** Store variable to read and write (min/max/step default to its definition) */
+    bind?: string;
     /** Controlled value (if provided, component is controlled) */
     value?: number;
     /** Initial value (for uncontrolled mode) */
@@ -29,9 +32,10 @@ interface InlineStepperProps {
  * An interactive number stepper that can be embedded inline within paragraphs.
  * Users can click arrows, drag, or use keyboard to change the value.
  * 
- * Supports both controlled and uncontrolled modes:
+ * Supports controlled, uncontrolled and store-bound modes:
  * - Controlled: Pass `value` and `onChange` props
  * - Uncontrolled: Pass `initialValue` prop
+ * - Bound: Pass `bind="variableName"` to read and write the variable store
  * 
  * - Click left/right arrows to decrement/increment
  * - Click and drag on the number to change value
@@ -67,18 +71,32 @@ interface InlineStepperProps {
  *   />.
  * </p>
  * ```
+ * 
+ * @example Bound mode
+ * ```tsx
+ * <p>
+ *   The amplitude is <InlineStepper bind="amplitude" formatValue={(v) => v.toFixed(1)} />.
+ * </p>
+ * ```
  */
 export const InlineStepper: React.FC<InlineStepperProps> = ({
-    value: controlledValue,
+    bind,
+    value: valueProp,
     initialValue = 10,
-    min = 0,
-    max = 100,
-    step = 1,
+    min: minProp,
+    max: maxProp,
+    step: stepProp,
     color = "#D81B60", // Default pink/magenta
     bgColor = "rgba(216, 27, 96, 0.9)", // Semi-transparent pink
     onChange,
     formatValue,
 }) => {
+    const binding = useVarBinding<number>(bind);
+    const min = minProp ?? binding.definition?.min ?? 0;
+    const max = maxProp ?? binding.definition?.max ?? 100;
+    const step = stepProp ?? binding.definition?.step ?? 1;
+    const controlledValue = binding.isBound ? binding.value ?? initialValue : valueProp;
+
     const [internalValue, setInternalValue] = useState(controlledValue ?? initialValue);
     const [isDragging, setIsDragging] = useState(false);
     const [isHovered, setIsHovered] = useState(false);
@@ -95,6 +113,7 @@ export const InlineStepper: React.FC<InlineStepperProps> = ({
         if (!isControlled) {
             setInternalValue(clampedValue);
         }
+        binding.setValue(clampedValue);
         onChange?.(clampedValue);
     };
 
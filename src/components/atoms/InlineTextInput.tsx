@@ -1,9 +1,19 @@
 import { useState, useRef, useEffect } from 'react';
 import { X } from 'lucide-react';
+import { useAssessment } from '@/stores';
+import { checkAnswer, type AnswerRule } from '@/lib/answer-checker';
 
 interface InlineTextInputProps {
-    /** The correct answer */
+    /** Optional id (also identifies the answer in the learner's progress) */
+    id?: string;
+    /** The correct answer (matched as text unless `math` is set) */
     correctAnswer: string;
+    /** Optional other accepted answers: text, numbers with tolerance/unit, regexes or expressions */
+    accept?: AnswerRule | AnswerRule[];
+    /** Optional: compare text answers as numbers, units and simple algebra (e.g. "90°" accepts "π/2") */
+    math?: boolean;
+    /** Optional tolerance for numeric answers */
+    tolerance?: number;
     /** Optional placeholder text (default: "???") */
     placeholder?: string;
     /** Optional color for the input and text (default: blue) */
@@ -27,6 +37,8 @@ interface InlineTextInputProps {
  * - Press Enter to check the answer
  * - If incorrect: shows input with red X to clear
  * - If correct: shows as plain colored text (locked)
+ * - Answers are checked with the shared answer checker (lib/answer-checker.ts)
+ * - Answers are reported to the assessment store (see useAssessment)
  * 
  * @example
  * ```tsx
@@ -42,7 +54,11 @@ interface InlineTextInputProps {
  * ```
  */
 export const InlineTextInput: React.FC<InlineTextInputProps> = ({
+    id,
     correctAnswer,
+    accept,
+    math = false,
+    tolerance,
     placeholder = "???",
     color = "#3B82F6", // Default blue
     bgColor = "rgba(59, 130, 246, 0.35)", // Balanced transparency
@@ -54,6 +70,12 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
     const [isChecked, setIsChecked] = useState(false);
     const [isCorrect, setIsCorrect] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
+    const assessment = useAssessment({ id, kind: 'InlineTextInput', answerKey: correctAnswer });
+    const isRegistered = assessment.item !== undefined;
+    const savedAnswer = assessment.item?.answer ?? "";
+
+    const isAnswerCorrect = (value: string) =>
+        checkAnswer(value, ([correctAnswer] as AnswerRule[]).concat(accept ?? []), { caseSensitive, tolerance, math });
 
     // Focus input when entering edit mode
     useEffect(() => {
@@ -62,6 +84,18 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
         }
     }, [isEditing]);
 
+    // Restore saved progress, and follow a progress reset
+    const restoreFrom = isRegistered ? savedAnswer : null;
+    const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+    if (restoreFrom !== restoredFrom) {
+        setRestoredFrom(restoreFrom);
+        if (restoreFrom !== null && !isEditing && savedAnswer !== (isChecked ? inputValue : "")) {
+            setInputValue(savedAnswer);
+            setIsChecked(savedAnswer !== "");
+            setIsCorrect(savedAnswer !== "" && isAnswerCorrect(savedAnswer));
+        }
+    }
+
     const handleClick = () => {
         if (!isCorrect && !isChecked) {
             setIsEditing(true);
@@ -73,20 +107,18 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
         setInputValue(value);
 
         // Auto-check the answer as user types
-        const userAnswer = caseSensitive ? value : value.toLowerCase();
-        const correctAns = caseSensitive ? correctAnswer : correctAnswer.toLowerCase();
-
-        if (userAnswer.trim() === correctAns.trim()) {
+        if (isAnswerCorrect(value)) {
             setIsCorrect(true);
             setIsChecked(true);
             setIsEditing(false);
+            assessment.record(value, true);
             onChange?.(value, true);
         }
     };
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter') {
-            checkAnswer();
+            submitAnswer();
         } else if (e.key === 'Escape') {
             setIsEditing(false);
             if (!isChecked) {
@@ -95,14 +127,12 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
         }
     };
 
-    const checkAnswer = () => {
-        const userAnswer = caseSensitive ? inputValue : inputValue.toLowerCase();
-        const correctAns = caseSensitive ? correctAnswer : correctAnswer.toLowerCase();
-
-        const correct = userAnswer.trim() === correctAns.trim();
+    const submitAnswer = () => {
+        const correct = isAnswerCorrect(inputValue);
         setIsCorrect(correct);
         setIsChecked(true);
         setIsEditing(false);
+        assessment.record(inputValue, correct);
         onChange?.(inputValue, correct);
     };
 
@@ -111,6 +141,7 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
         setIsChecked(false);
         setIsCorrect(false);
         setIsEditing(false);
+        assessment.clear();
     };
 
     const handleBlur = () => {
@@ -124,6 +155,8 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
     if (isCorrect && inputValue) {
         return (
             <span
+                ref={assessment.ref}
+                id={id}
                 className="font-medium px-0.5 rounded"
                 style={{ color }}
             >
@@ -136,6 +169,8 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
     if (isChecked && !isCorrect && inputValue) {
         return (
             <span
+                ref={assessment.ref}
+                id={id}
                 className="inline-flex items-center rounded font-medium"
                 style={{
                     backgroundColor: bgColor,
@@ -188,6 +223,8 @@ export const InlineTextInput: React.FC<InlineTextInputProps> = ({
     // Initial state: show button with placeholder
     return (
         <button
+            ref={assessment.ref}
+            id={id}
             onClick={handleClick}
             className="px-1 rounded font-medium transition-all hover:opacity-80 backdrop-blur-sm"
             style={{
@@ -1,6 +1,7 @@
 import { useEffect, useState, useRef } from "react";
 import { Mafs, Coordinates, Plot, Point, Line, useMovablePoint, Circle } from "mafs";
 import { useInteractiveHighlight } from "./InteractiveHighlight";
+import { useVarBinding } from "@/stores";
 
 export interface MafsInteractiveProps {
     /** Controlled amplitude value (0-4) */
@@ -11,6 +12,10 @@ export interface MafsInteractiveProps {
     onAmplitudeChange?: (value: number) => void;
     /** Callback when frequency changes (from dragging the point) */
     onFrequencyChange?: (value: number) => void;
+    /** Store variable to read and write the amplitude (instead of amplitude/onAmplitudeChange) */
+    bindAmplitude?: string;
+    /** Store variable to read and write the frequency (instead of frequency/onFrequencyChange) */
+    bindFrequency?: string;
 }
 
 /**
@@ -18,16 +23,38 @@ export interface MafsInteractiveProps {
  * Supports both controlled and uncontrolled modes:
  * - Controlled: Pass amplitude/frequency props and onChange callbacks
  * - Uncontrolled: Component manages its own state
+ * - Bound: Pass bindAmplitude/bindFrequency to sync with store variables,
+ *   e.g. the same variables an inline <Stepper bind="amplitude" /> uses
  * Also supports bidirectional highlighting with InteractiveHighlightProvider
  */
 export function MafsInteractive({
-    amplitude: controlledAmplitude,
-    frequency: controlledFrequency,
-    onAmplitudeChange,
-    onFrequencyChange,
+    amplitude: amplitudeProp,
+    frequency: frequencyProp,
+    onAmplitudeChange: onAmplitudeChangeProp,
+    onFrequencyChange: onFrequencyChangeProp,
+    bindAmplitude,
+    bindFrequency,
 }: MafsInteractiveProps = {}) {
     const highlightContext = useInteractiveHighlight();
 
+    // Store bindings take the place of the controlled props
+    const amplitudeBinding = useVarBinding<number>(bindAmplitude);
+    const frequencyBinding = useVarBinding<number>(bindFrequency);
+    const controlledAmplitude = amplitudeBinding.isBound ? amplitudeBinding.value : amplitudeProp;
+    const controlledFrequency = frequencyBinding.isBound ? frequencyBinding.value : frequencyProp;
+    const onAmplitudeChange = amplitudeBinding.isBound
+        ? (value: number) => {
+            amplitudeBinding.setValue(value);
+            onAmplitudeChangeProp?.(value);
+        }
+        : onAmplitudeChangeProp;
+    const onFrequencyChange = frequencyBinding.isBound
+        ? (value: number) => {
+            frequencyBinding.setValue(value);
+            onFrequencyChangeProp?.(value);
+        }
+        : onFrequencyChangeProp;
+
     // Internal state for uncontrolled mode
     const [internalAmplitude, setInternalAmplitude] = useState(2);
     const [internalFrequency, setInternalFrequency] = useState(1);
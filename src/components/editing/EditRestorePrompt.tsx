@@ -0,0 +1,42 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { Button } from '@/components/atoms/ui/button';
+import { useEditing } from '@/contexts/EditingContext';
+import { useAppMode } from '@/contexts/AppModeContext';
+
+/**
+ * EditRestorePrompt - Offers to bring back unsaved edits from an earlier
+ * session (e.g. before the lesson reloaded). Edits that no longer match the
+ * lesson are restored as stale and can be reviewed in the edit drawer.
+ */
+export const EditRestorePrompt: React.FC = () => {
+    const { isEditor } = useAppMode();
+    const { recoveredEdits, restoreRecoveredEdits, discardRecoveredEdits } = useEditing();
+
+    if (!isEditor || recoveredEdits.length === 0) {
+        return null;
+    }
+
+    const count = recoveredEdits.length;
+
+    return (
+        <div
+            role="alertdialog"
+            aria-label="Unsaved edits"
+            className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-lg border border-border bg-white px-4 py-2 shadow-lg text-sm hierarchy-ignore"
+        >
+            <History className="h-4 w-4 text-muted-foreground" />
+            <span>
+                You have {count} unsaved {count === 1 ? 'edit' : 'edits'} from an earlier session.
+            </span>
+            <Button size="sm" onClick={restoreRecoveredEdits}>
+                Restore
+            </Button>
+            <Button variant="ghost" size="sm" onClick={discardRecoveredEdits}>
+                Discard
+            </Button>
+        </div>
+    );
+};
+
+export default EditRestorePrompt;
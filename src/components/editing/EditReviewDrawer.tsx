@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import katex from 'katex';
+import { FileCode, ListChecks, LocateFixed, Redo2, RotateCcw, Undo2 } from 'lucide-react';
+import { Button } from '@/components/atoms/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/atoms/ui/sheet';
+import { isStructuralEdit, useEditing, type PendingEdit, type StructuralEdit } from '@/contexts/EditingContext';
+import { useAppMode } from '@/contexts/AppModeContext';
+import { findElementByIdentity } from '@/lib/element-identity';
+import { cn } from '@/lib/utils';
+
+type DiffPart = { kind: 'same' | 'removed' | 'added'; text: string };
+
+/**
+ * Word-level diff (whitespace is kept with the words)
+ */
+const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+
+    // lcs[i][j] = longest common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (kind: DiffPart['kind'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.kind === kind) {
+            last.text += text;
+        } else {
+            parts.push({ kind, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            push('same', a[i]);
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    return parts;
+};
+
+const TextDiff: React.FC<{ before: string; after: string; mono?: boolean }> = ({ before, after, mono }) => (
+    <p className={cn('whitespace-pre-wrap break-words', mono ? 'font-mono text-xs' : 'text-sm')}>
+        {diffWords(before, after).map((part, index) => (
+            <span
+                key={index}
+                className={cn(
+                    part.kind === 'removed' && 'bg-red-100 text-red-700 line-through',
+                    part.kind === 'added' && 'bg-green-100 text-green-800'
+                )}
+            >
+                {part.text}
+            </span>
+        ))}
+    </p>
+);
+
+/**
+ * Rendered equation for the before/after preview (\clr terms in their colors)
+ */
+const LatexPreview: React.FC<{ latex: string; colorMap?: Record<string, string> }> = ({ latex, colorMap = {} }) => {
+    const ref = useRef<HTMLSpanElement>(null);
+
+    useEffect(() => {
+        if (!ref.current) return;
+        const processed = latex.replace(/\\clr\{([^}]+)\}\{([^}]+)\}/g, (_, term: string, content: string) =>
+            colorMap[term] ? `\\textcolor{${colorMap[term]}}{${content}}` : content
+        );
+        try {
+            katex.render(processed, ref.current, { throwOnError: false, output: 'html' });
+        } catch {
+            ref.current.textContent = latex;
+        }
+    }, [latex, colorMap]);
+
+    return <span ref={ref} />;
+};
+
+const STRUCTURAL_LABELS: Record<StructuralEdit['type'], string> = {
+    'insert-section': 'Added section',
+    'move-section': 'Moved section',
+    'delete-section': 'Deleted section',
+    'change-layout': 'Layout',
+};
+
+const getEditLabel = (edit: PendingEdit) => {
+    if (edit.type === 'text') return 'Text';
+    if (edit.type === 'equation') return edit.componentType;
+    return STRUCTURAL_LABELS[edit.type];
+};
+
+const describeStructuralEdit = (edit: StructuralEdit): string => {
+    const position = (afterSectionId: string | null) => afterSectionId === null ? 'at the top' : `after ${afterSectionId}`;
+    switch (edit.type) {
+        case 'insert-section':
+            return `From the "${edit.templateId}" template, ${position(edit.afterSectionId)}`;
+        case 'move-section':
+            return `Moved ${position(edit.afterSectionId)}`;
+        case 'delete-section':
+            return 'Removed from the lesson';
+        case 'change-layout':
+            return `${edit.originalLayout} → ${edit.layout}`;
+    }
+};
+
+/**
+ * Scroll to the element an edit was made to (or its section) and flash it
+ */
+const jumpToEdit = (edit: PendingEdit) => {
+    const element = isStructuralEdit(edit)
+        ? document.querySelector<HTMLElement>(`[data-section-key="${CSS.escape(edit.sectionId)}"]`)
+        : findElementByIdentity(edit.elementPath) ??
+            (edit.sectionId ? document.querySelector<HTMLElement>(`[data-section-id="${CSS.escape(edit.sectionId)}"]`) : null);
+    if (!element) {
+        console.warn(`Edit review: element for edit ${edit.id} is not on the page`);
+        return;
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.animate(
+        [
+            { outline: '3px solid #3cc499', outlineOffset: '4px' },
+            { outline: '3px solid transparent', outlineOffset: '4px' },
+        ],
+        { duration: 1600, easing: 'ease-out' }
+    );
+};
+
+const EditCard: React.FC<{ edit: PendingEdit; onJump: () => void; onRevert: () => void }> = ({ edit, onJump, onRevert }) => (
+    <li className="rounded-lg border border-border p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+                <span className="font-medium text-foreground">{getEditLabel(edit)}</span>
+                {edit.stale && (
+                    <span
+                        className="ml-1.5 rounded bg-amber-100 px-1.5 py-0.5 font-medium text-amber-800"
+                        title="The lesson changed since this edit was made, so it isn't shown on the page"
+                    >
+                        Stale
+                    </span>
+                )}
+                {edit.sectionId && <> · {edit.sectionId}</>}
+                {' · '}
+                {new Date(edit.timestamp).toLocaleTimeString()}
+            </span>
+            <span className="flex items-center gap-1">
+                {edit.type !== 'delete-section' && (
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onJump} title="Show on page">
+                        <LocateFixed />
+                    </Button>
+                )}
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onRevert} title="Revert this edit">
+                    <RotateCcw />
+                </Button>
+            </span>
+        </div>
+
+        {isStructuralEdit(edit) ? (
+            <p className="text-sm">{describeStructuralEdit(edit)}</p>
+        ) : edit.type === 'text' ? (
+            <TextDiff before={edit.originalText} after={edit.newText} />
+        ) : (
+            <>
+                <div className="grid grid-cols-2 gap-2 text-center">
+                    <div className="rounded bg-red-50 px-2 py-1.5 overflow-x-auto"><LatexPreview latex={edit.originalLatex} colorMap={edit.colorMap} /></div>
+                    <div className="rounded bg-green-50 px-2 py-1.5 overflow-x-auto"><LatexPreview latex={edit.newLatex} colorMap={edit.colorMap} /></div>
+                </div>
+                <TextDiff before={edit.originalLatex} after={edit.newLatex} mono />
+            </>
+        )}
+
+        {!isStructuralEdit(edit) && edit.source && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground font-mono">
+                <FileCode className="h-3 w-3" />
+                {edit.source.file}:{edit.source.line}
+            </div>
+        )}
+    </li>
+);
+
+/**
+ * EditReviewDrawer - Undo/redo buttons and a drawer listing the pending
+ * edits with a before/after diff, to revert single edits or jump to where
+ * they were made. Shown while editing, once there is something to review.
+ */
+export const EditReviewDrawer: React.FC = () => {
+    const { isEditor } = useAppMode();
+    const { isEditing, pendingEdits, removeEdit, clearAllEdits, undo, redo, canUndo, canRedo } = useEditing();
+    const [isOpen, setIsOpen] = useState(false);
+
+    // Newest first
+    const edits = useMemo(() => [...pendingEdits].reverse(), [pendingEdits]);
+
+    if (!isEditor || !isEditing || (pendingEdits.length === 0 && !canUndo && !canRedo)) {
+        return null;
+    }
+
+    const handleJump = (edit: PendingEdit) => {
+        setIsOpen(false);
+        // Wait for the drawer to close so the page can scroll
+        setTimeout(() => jumpToEdit(edit), 300);
+    };
+
+    return (
+        <>
+            <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 rounded-lg border border-border bg-white p-1 shadow-lg hierarchy-ignore">
+                <Button variant="ghost" size="sm" onClick={undo} disabled={!canUndo} title="Undo edit (Ctrl+Z)">
+                    <Undo2 />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={redo} disabled={!canRedo} title="Redo edit (Ctrl+Shift+Z)">
+                    <Redo2 />
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => setIsOpen(true)} disabled={pendingEdits.length === 0}>
+                    <ListChecks />
+                    Review {pendingEdits.length} {pendingEdits.length === 1 ? 'edit' : 'edits'}
+                </Button>
+            </div>
+
+            <Sheet open={isOpen} onOpenChange={setIsOpen}>
+                <SheetContent className="flex flex-col w-full sm:max-w-md hierarchy-ignore">
+                    <SheetHeader>
+                        <SheetTitle>Pending edits</SheetTitle>
+                        <SheetDescription>
+                            {pendingEdits.length === 0
+                                ? 'No pending edits.'
+                                : 'Changes not yet saved to the lesson. Revert them one by one, or jump to where they were made.'}
+                        </SheetDescription>
+                    </SheetHeader>
+
+                    <div className="flex items-center gap-2">
+                        <Button variant="outline" size="sm" onClick={undo} disabled={!canUndo}>
+                            <Undo2 />
+                            Undo
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={redo} disabled={!canRedo}>
+                            <Redo2 />
+                            Redo
+                        </Button>
+                        <Button variant="ghost" size="sm" className="ml-auto text-destructive" onClick={clearAllEdits} disabled={pendingEdits.length === 0}>
+                            Revert all
+                        </Button>
+                    </div>
+
+                    <ul className="flex-1 overflow-y-auto space-y-2 pr-1">
+                        {edits.map((edit) => (
+                            <EditCard
+                                key={edit.id}
+                                edit={edit}
+                                onJump={() => handleJump(edit)}
+                                onRevert={() => removeEdit(edit.id)}
+                            />
+                        ))}
+                    </ul>
+                </SheetContent>
+            </Sheet>
+        </>
+    );
+};
+
+export default EditReviewDrawer;
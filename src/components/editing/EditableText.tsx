@@ -1,9 +1,10 @@
 import React, { useRef, useCallback, useEffect, useState } from 'react';
-import { useEditing } from '@/contexts/EditingContext';
+import { useEditing, useOptionalEditing, type TextEdit } from '@/contexts/EditingContext';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { cn } from '@/lib/utils';
+import { getDomPath, getElementIdentity, type EditableIdentityProps } from '@/lib/element-identity';
 
-interface EditableTextProps {
+interface EditableTextProps extends EditableIdentityProps {
     children: React.ReactNode;
     sectionId?: string;
     className?: string;
@@ -15,16 +16,66 @@ const EditableTextContext = React.createContext<{ isParentEditable: boolean }>({
 
 export const useEditableTextContext = () => React.useContext(EditableTextContext);
 
+/**
+ * Mark an editable element with its identity key (`data-edit-key`), so
+ * edits can be traced back to it on the page (see findElementByIdentity)
+ */
+export const useEditKeyAttribute = (
+    elementRef: React.RefObject<HTMLElement>,
+    getKey: () => string,
+    isEnabled: boolean
+) => {
+    useEffect(() => {
+        if (isEnabled) elementRef.current?.setAttribute('data-edit-key', getKey());
+    });
+};
+
+/**
+ * Keep an editable element's text in line with its pending edit, so undo,
+ * redo and reverting an edit show up on the page. Paused while the element
+ * is being typed in.
+ */
+export const useSyncedTextEdit = (
+    elementRef: React.RefObject<HTMLElement>,
+    sectionId: string,
+    getKey: () => string,
+    isPaused: boolean
+) => {
+    const pendingEdits = useOptionalEditing()?.pendingEdits;
+    // The edit currently shown, to restore its original text once it's gone
+    const shownEditRef = useRef<TextEdit | null>(null);
+
+    useEffect(() => {
+        const element = elementRef.current;
+        if (!element || !pendingEdits || isPaused) return;
+
+        const key = getKey();
+        const edit = [...pendingEdits].reverse().find((e): e is TextEdit =>
+            e.type === 'text' && !e.stale && e.sectionId === sectionId && e.elementPath === key
+        ) ?? null;
+
+        const text = edit ? edit.newText : shownEditRef.current?.originalText;
+        shownEditRef.current = edit;
+        if (text !== undefined && element.innerText !== text) {
+            element.innerText = text;
+        }
+    }, [elementRef, pendingEdits, sectionId, getKey, isPaused]);
+};
+
 /**
  * EditableText wrapper component.
  * In editor mode, makes text content editable with click-to-edit functionality.
  * Preserves styling and structure while enabling inline editing.
+ * Edits are keyed by `editId` or the source location added at build time,
+ * falling back to the DOM path (see lib/element-identity.ts).
  */
 export const EditableText: React.FC<EditableTextProps> = ({
     children,
     sectionId = '',
     className = '',
     as: Component = 'span',
+    editId,
+    sourceLocation,
 }) => {
     const { isEditor } = useAppMode();
     const { isEditing, addTextEdit } = useEditing();
@@ -32,26 +83,15 @@ export const EditableText: React.FC<EditableTextProps> = ({
     const [isContentEditable, setIsContentEditable] = useState(false);
     const originalTextRef = useRef<string>('');
 
-    // Generate a unique path for this element based on its position in the DOM
-    const getElementPath = useCallback(() => {
-        if (!containerRef.current) return '';
-
-        const path: string[] = [];
-        let el: HTMLElement | null = containerRef.current;
-
-        while (el && el !== document.body) {
-            const parent = el.parentElement;
-            if (parent) {
-                const siblings = Array.from(parent.children);
-                const index = siblings.indexOf(el);
-                const tagName = el.tagName.toLowerCase();
-                path.unshift(`${tagName}[${index}]`);
-            }
-            el = parent;
-        }
+    // Stable identity for this element (the DOM position is only a last resort)
+    const getIdentity = useCallback(
+        () => getElementIdentity({ editId, sourceLocation }, () => getDomPath(containerRef.current)),
+        [editId, sourceLocation]
+    );
 
-        return path.join(' > ');
-    }, []);
+    const getKey = useCallback(() => getIdentity().key, [getIdentity]);
+    useSyncedTextEdit(containerRef, sectionId, getKey, isContentEditable);
+    useEditKeyAttribute(containerRef, getKey, isEditor);
 
     // Handle click to enable editing
     const handleClick = useCallback((e: React.MouseEvent) => {
@@ -89,16 +129,18 @@ export const EditableText: React.FC<EditableTextProps> = ({
 
         // Only create edit if text actually changed
         if (newText !== originalText) {
+            const { key, source } = getIdentity();
             addTextEdit({
                 sectionId,
-                elementPath: getElementPath(),
+                elementPath: key,
+                source,
                 originalText,
                 newText,
             });
         }
 
         setIsContentEditable(false);
-    }, [sectionId, getElementPath, addTextEdit]);
+    }, [sectionId, getIdentity, addTextEdit]);
 
     // Handle keyboard events
     const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
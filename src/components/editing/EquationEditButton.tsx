@@ -0,0 +1,107 @@
+import React, { useCallback, useMemo, type RefObject } from 'react';
+import { useOptionalEditing, type EquationComponentType, type EquationEdit } from '@/contexts/EditingContext';
+import { useAppMode } from '@/contexts/AppModeContext';
+import type { ElementIdentity } from '@/lib/element-identity';
+import { cn } from '@/lib/utils';
+
+interface EquationEditingOptions {
+    /** Identity of the element (see lib/element-identity.ts) */
+    getIdentity: () => ElementIdentity;
+    /** The equation as the component was given it */
+    latex: string;
+    colorMap?: Record<string, string>;
+    /** The colors come from a ColoredEquationProvider, which already previews pending color edits */
+    sharedColorMap?: boolean;
+    componentType: EquationComponentType;
+    componentProps?: Record<string, unknown>;
+}
+
+/**
+ * Equation editing for a component: the pending edit to preview (latest,
+ * non-stale), the latex and colors to show, and a handler that opens the
+ * equation editor on what is shown.
+ */
+export const useEquationEditing = (
+    elementRef: RefObject<HTMLElement>,
+    { getIdentity, latex, colorMap, sharedColorMap = false, componentType, componentProps }: EquationEditingOptions
+) => {
+    const { isEditor } = useAppMode();
+    const editingContext = useOptionalEditing();
+    const isEditing = !!editingContext?.isEditing && isEditor;
+    const pendingEdits = editingContext?.pendingEdits;
+    const openEquationEditor = editingContext?.openEquationEditor;
+
+    const getSectionId = useCallback(() => {
+        const section = elementRef.current?.closest('[data-section-id]');
+        return section?.getAttribute('data-section-id') || '';
+    }, [elementRef]);
+
+    const pendingEdit = useMemo(() => {
+        if (!isEditing || !pendingEdits || !elementRef.current) return null;
+
+        const { key } = getIdentity();
+        const sectionId = getSectionId();
+
+        // Find the most recent edit for this equation
+        const edit = [...pendingEdits].reverse().find((e): e is EquationEdit =>
+            e.type === 'equation' &&
+            !e.stale &&
+            e.sectionId === sectionId &&
+            e.elementPath === key
+        );
+
+        return edit ?? null;
+    }, [isEditing, pendingEdits, elementRef, getIdentity, getSectionId]);
+
+    // Use edited values if available
+    const displayLatex = pendingEdit ? pendingEdit.newLatex : latex;
+    const displayColorMap = pendingEdit && pendingEdit.colorMap && !sharedColorMap ? pendingEdit.colorMap : colorMap;
+
+    const openEditor = useCallback((e?: React.SyntheticEvent) => {
+        e?.stopPropagation();
+        e?.preventDefault();
+        if (!openEquationEditor) return;
+
+        const { key, source } = getIdentity();
+        openEquationEditor({
+            latex: displayLatex,
+            colorMap: displayColorMap,
+            sectionId: getSectionId(),
+            elementPath: key,
+            source,
+            componentType,
+            componentProps,
+        });
+    }, [openEquationEditor, getIdentity, getSectionId, displayLatex, displayColorMap, componentType, componentProps]);
+
+    return { isEditor, isEditing, pendingEdit, latex: displayLatex, colorMap: displayColorMap, openEditor };
+};
+
+interface EquationEditButtonProps {
+    onClick: (e: React.MouseEvent) => void;
+    title?: string;
+    className?: string;
+}
+
+/**
+ * Round edit button shown over an equation while hovering it in edit mode.
+ * Place it in a `relative group` wrapper.
+ */
+export const EquationEditButton: React.FC<EquationEditButtonProps> = ({
+    onClick,
+    title = 'Edit equation',
+    className,
+}) => (
+    <button
+        onClick={onClick}
+        className={cn(
+            "absolute -top-2 -right-2 w-6 h-6 bg-[#3cc499] text-white rounded-full shadow-lg hidden group-hover:flex items-center justify-center text-xs hover:bg-[#3cc499]/90 transition-all duration-150 z-10",
+            className
+        )}
+        title={title}
+    >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+        </svg>
+    </button>
+);
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useEditing } from '@/contexts/EditingContext';
+import { useEditing, type EquationComponentType } from '@/contexts/EditingContext';
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
 import { cn } from '@/lib/utils';
@@ -21,12 +21,17 @@ const COLOR_PRESETS = [
     { name: 'Indigo', value: '#6366f1' }, // indigo-500
 ];
 
+// Rendered with MathJax, which has no \clr colored terms
+const PLAIN_LATEX_COMPONENTS: EquationComponentType[] = ['InteractiveEquation', 'MathBlock'];
+
 interface TermEditorProps {
     termName: string;
     content: string;
     color: string;
     onUpdate: (termName: string, content: string, color: string) => void;
     onRemove: (termName: string) => void;
+    /** Only the color can be changed (HighlightedTerm) */
+    colorOnly?: boolean;
 }
 
 const TermEditor: React.FC<TermEditorProps> = ({
@@ -35,6 +40,7 @@ const TermEditor: React.FC<TermEditorProps> = ({
     color,
     onUpdate,
     onRemove,
+    colorOnly = false,
 }) => {
     const [localContent, setLocalContent] = useState(content);
     const [showColorPicker, setShowColorPicker] = useState(false);
@@ -85,7 +91,8 @@ const TermEditor: React.FC<TermEditorProps> = ({
                 value={localContent}
                 onChange={(e) => setLocalContent(e.target.value)}
                 onBlur={() => onUpdate(termName, localContent, color)}
-                className="flex-1 px-2 py-1 text-sm bg-background border rounded"
+                readOnly={colorOnly}
+                className={cn("flex-1 px-2 py-1 text-sm bg-background border rounded", colorOnly && "text-muted-foreground")}
                 placeholder="Content"
             />
 
@@ -143,15 +150,17 @@ const TermEditor: React.FC<TermEditorProps> = ({
             )}
 
             {/* Remove button */}
-            <button
-                onClick={() => onRemove(termName)}
-                className="text-muted-foreground hover:text-destructive transition-colors flex-shrink-0"
-                title="Remove term"
-            >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-            </button>
+            {!colorOnly && (
+                <button
+                    onClick={() => onRemove(termName)}
+                    className="text-muted-foreground hover:text-destructive transition-colors flex-shrink-0"
+                    title="Remove term"
+                >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            )}
         </div>
     );
 };
@@ -168,9 +177,16 @@ export const EquationEditorModal: React.FC = () => {
     const previewRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+    // What can be edited depends on the component the equation came from
+    const componentType = editingEquation?.componentType ?? 'Equation';
+    const componentProps = editingEquation?.componentProps ?? {};
+    const isTerm = componentType === 'HighlightedTerm';
+    const hasTerms = !PLAIN_LATEX_COMPONENTS.includes(componentType);
+
     // Initialize state when equation opens
     useEffect(() => {
         if (editingEquation) {
+            setActiveTab(editingEquation.componentType === 'HighlightedTerm' ? 'terms' : 'latex');
             setLatex(editingEquation.latex);
             setColorMap(editingEquation.colorMap || {});
             parseTermsFromLatex(editingEquation.latex, editingEquation.colorMap || {});
@@ -234,12 +250,13 @@ export const EquationEditorModal: React.FC = () => {
                 throwOnError: false,
                 trust: true,
                 output: 'html',
+                displayMode: componentProps.mode === 'block',
             });
             setError(null);
         } catch (err) {
             setError((err as Error).message);
         }
-    }, [latex, colorMap, activeTab]);
+    }, [latex, colorMap, activeTab, componentProps.mode]);
 
     // Update term in LaTeX
     const handleUpdateTerm = useCallback((termName: string, newContent: string, newColor: string) => {
@@ -299,7 +316,10 @@ export const EquationEditorModal: React.FC = () => {
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
                         </svg>
-                        Edit Equation
+                        {isTerm ? 'Edit Term Color' : 'Edit Equation'}
+                        <span className="text-xs font-mono font-normal text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
+                            {componentType}
+                        </span>
                     </h2>
                     <button
                         onClick={handleCancel}
@@ -313,28 +333,32 @@ export const EquationEditorModal: React.FC = () => {
 
                 {/* Tabs */}
                 <div className="flex border-b">
-                    <button
-                        className={cn(
-                            "px-4 py-2 text-sm font-medium transition-colors",
-                            activeTab === 'latex'
-                                ? "border-b-2 border-[#3cc499] text-[#3cc499]"
-                                : "text-muted-foreground hover:text-foreground"
-                        )}
-                        onClick={() => setActiveTab('latex')}
-                    >
-                        LaTeX Source
-                    </button>
-                    <button
-                        className={cn(
-                            "px-4 py-2 text-sm font-medium transition-colors",
-                            activeTab === 'terms'
-                                ? "border-b-2 border-[#3cc499] text-[#3cc499]"
-                                : "text-muted-foreground hover:text-foreground"
-                        )}
-                        onClick={() => setActiveTab('terms')}
-                    >
-                        Colored Terms ({terms.length})
-                    </button>
+                    {!isTerm && (
+                        <button
+                            className={cn(
+                                "px-4 py-2 text-sm font-medium transition-colors",
+                                activeTab === 'latex'
+                                    ? "border-b-2 border-[#3cc499] text-[#3cc499]"
+                                    : "text-muted-foreground hover:text-foreground"
+                            )}
+                            onClick={() => setActiveTab('latex')}
+                        >
+                            LaTeX Source
+                        </button>
+                    )}
+                    {hasTerms && (
+                        <button
+                            className={cn(
+                                "px-4 py-2 text-sm font-medium transition-colors",
+                                activeTab === 'terms'
+                                    ? "border-b-2 border-[#3cc499] text-[#3cc499]"
+                                    : "text-muted-foreground hover:text-foreground"
+                            )}
+                            onClick={() => setActiveTab('terms')}
+                        >
+                            Colored Terms ({terms.length})
+                        </button>
+                    )}
                 </div>
 
                 {/* Content */}
@@ -354,9 +378,11 @@ export const EquationEditorModal: React.FC = () => {
                                     placeholder="Enter LaTeX equation..."
                                     spellCheck={false}
                                 />
-                                <p className="text-xs text-muted-foreground mt-1">
-                                    Use <code className="bg-muted px-1 rounded">\clr{'{'}name{'}'}{'{'}content{'}'}</code> for colored terms
-                                </p>
+                                {hasTerms && (
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        Use <code className="bg-muted px-1 rounded">\clr{'{'}name{'}'}{'{'}content{'}'}</code> for colored terms
+                                    </p>
+                                )}
                             </div>
 
                             <div>
@@ -369,6 +395,7 @@ export const EquationEditorModal: React.FC = () => {
                                         "min-h-[60px] p-4 bg-muted/20 rounded-lg flex items-center justify-center text-xl",
                                         error && "border-2 border-destructive"
                                     )}
+                                    style={{ color: typeof componentProps.color === 'string' ? componentProps.color : undefined }}
                                 />
                                 {error && (
                                     <p className="text-xs text-destructive mt-1">{error}</p>
@@ -393,6 +420,7 @@ export const EquationEditorModal: React.FC = () => {
                                         color={term.color}
                                         onUpdate={handleUpdateTerm}
                                         onRemove={handleRemoveTerm}
+                                        colorOnly={isTerm}
                                     />
                                 ))
                             )}
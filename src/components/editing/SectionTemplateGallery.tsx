@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import {
+    CommandDialog,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+} from '@/components/atoms/ui/command';
+import { getSectionTemplates, type SectionTemplate } from '@/lib/section-templates';
+
+interface SectionTemplateGalleryProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Called with the chosen template; the gallery closes itself */
+    onSelect: (template: SectionTemplate) => void;
+}
+
+/**
+ * SectionTemplateGallery - Searchable list of the registered section
+ * templates (see lib/section-templates.ts), grouped by category.
+ * Searches match the name, description and keywords.
+ */
+export const SectionTemplateGallery: React.FC<SectionTemplateGalleryProps> = ({
+    open,
+    onOpenChange,
+    onSelect,
+}) => {
+    // Read when opened, so templates registered after the first render are listed
+    const groups = useMemo(() => {
+        const byCategory = new Map<string, SectionTemplate[]>();
+        if (!open) return byCategory;
+        for (const template of getSectionTemplates()) {
+            byCategory.set(template.category, [...(byCategory.get(template.category) ?? []), template]);
+        }
+        return byCategory;
+    }, [open]);
+
+    const handleSelect = (template: SectionTemplate) => {
+        onOpenChange(false);
+        onSelect(template);
+    };
+
+    return (
+        <CommandDialog open={open} onOpenChange={onOpenChange}>
+            <CommandInput placeholder="Search blocks..." />
+            <CommandList className="max-h-[400px]">
+                <CommandEmpty>No blocks found.</CommandEmpty>
+                {Array.from(groups, ([category, templates]) => (
+                    <CommandGroup key={category} heading={category}>
+                        {templates.map((template) => (
+                            <CommandItem
+                                key={template.id}
+                                value={`${template.name} ${template.id}`}
+                                keywords={[category, ...(template.description ? [template.description] : []), ...(template.keywords ?? [])]}
+                                onSelect={() => handleSelect(template)}
+                                className="flex-col items-start gap-0.5"
+                            >
+                                <span className="font-medium">{template.name}</span>
+                                {template.description && (
+                                    <span className="text-xs text-muted-foreground">{template.description}</span>
+                                )}
+                            </CommandItem>
+                        ))}
+                    </CommandGroup>
+                ))}
+            </CommandList>
+        </CommandDialog>
+    );
+};
+
+export default SectionTemplateGallery;
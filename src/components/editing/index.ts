@@ -1,2 +1,5 @@
 export { EditableText, withEditableText } from './EditableText';
 export { EquationEditorModal } from './EquationEditorModal';
+export { EditReviewDrawer } from './EditReviewDrawer';
+export { EditRestorePrompt } from './EditRestorePrompt';
+export { SectionTemplateGallery } from './SectionTemplateGallery';
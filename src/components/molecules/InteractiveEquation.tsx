@@ -1,7 +1,11 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import DOMPurify from "dompurify";
+import { cn } from "@/lib/utils";
+import { getElementIdentity, type EditableIdentityProps } from "@/lib/element-identity";
+import { useEditKeyAttribute } from "@/components/editing/EditableText";
+import { EquationEditButton, useEquationEditing } from "@/components/editing/EquationEditButton";
 
-export interface InteractiveEquationProps {
+export interface InteractiveEquationProps extends EditableIdentityProps {
     /** The LaTeX equation to display (without $ delimiters) */
     equation: string;
     /** Callback when the equation is clicked */
@@ -27,6 +31,7 @@ export interface InteractiveEquationProps {
 /**
  * InteractiveEquation - A clickable/hoverable mathematical equation.
  * Rendered using MathJax with interactive capabilities.
+ * In edit mode, clicking it opens the equation editor.
  * 
  * @example
  * ```tsx
@@ -47,11 +52,27 @@ export const InteractiveEquation = ({
     hoverBackgroundColor = "rgba(0, 0, 0, 0.05)",
     mode = 'inline',
     className = "",
-    showHoverBackground = true
+    showHoverBackground = true,
+    editId,
+    sourceLocation,
 }: InteractiveEquationProps) => {
     const [isHovered, setIsHovered] = useState(false);
     const contentRef = useRef<HTMLSpanElement | HTMLDivElement>(null);
 
+    // Editing support: preview the pending edit, if any
+    const getIdentity = useCallback(() => getElementIdentity({ editId, sourceLocation }, () => {
+        const section = contentRef.current?.closest("[data-section-id]");
+        const sectionId = section?.getAttribute("data-section-id") || "unknown";
+        return `interactive-equation-${sectionId}-${equation.substring(0, 20)}`;
+    }), [editId, sourceLocation, equation]);
+    const { isEditor, isEditing, latex: displayEquation, openEditor } = useEquationEditing(contentRef, {
+        getIdentity,
+        latex: equation,
+        componentType: "InteractiveEquation",
+        componentProps: { mode, color },
+    });
+    useEditKeyAttribute(contentRef, useCallback(() => getIdentity().key, [getIdentity]), isEditor);
+
     // Typeset MathJax
     useEffect(() => {
         const el = contentRef.current;
@@ -65,7 +86,7 @@ export const InteractiveEquation = ({
                 mj.typeset([el]);
             }
         } catch { }
-    }, [equation]);
+    }, [displayEquation]);
 
     const handleMouseEnter = () => {
         setIsHovered(true);
@@ -78,6 +99,10 @@ export const InteractiveEquation = ({
     };
 
     const handleClick = () => {
+        if (isEditing) {
+            openEditor();
+            return;
+        }
         onClick?.();
     };
 
@@ -93,31 +118,38 @@ export const InteractiveEquation = ({
     `;
 
     const mathDelimiters = mode === 'inline' ? ['$', '$'] : ['$$', '$$'];
-    const sanitizedEquation = DOMPurify.sanitize(equation);
+    const sanitizedEquation = DOMPurify.sanitize(displayEquation);
     const mathContent = `${mathDelimiters[0]}${sanitizedEquation}${mathDelimiters[1]}`;
 
     const Component = mode === 'inline' ? 'span' : 'div';
 
     return (
-        <Component
-            ref={contentRef as any}
-            className={`${baseStyles} mathjax-process`}
-            style={{
-                color: color,
-                backgroundColor: isHovered && showHoverBackground ? hoverBackgroundColor : 'transparent',
-            }}
-            onMouseEnter={handleMouseEnter}
-            onMouseLeave={handleMouseLeave}
-            onClick={handleClick}
-            role="button"
-            tabIndex={0}
-            onKeyPress={(e) => {
-                if (e.key === 'Enter' || e.key === ' ') {
-                    handleClick();
-                }
-            }}
-            dangerouslySetInnerHTML={{ __html: mathContent }}
-        />
+        <Component className={cn("relative", isEditing && "group")}>
+            <Component
+                ref={contentRef as any}
+                className={cn(
+                    `${baseStyles} mathjax-process`,
+                    isEditing && "hover:outline hover:outline-2 hover:outline-dashed hover:outline-offset-2 hover:outline-[#3cc499]"
+                )}
+                style={{
+                    color: color,
+                    backgroundColor: isHovered && showHoverBackground ? hoverBackgroundColor : 'transparent',
+                }}
+                onMouseEnter={handleMouseEnter}
+                onMouseLeave={handleMouseLeave}
+                onClick={handleClick}
+                role="button"
+                tabIndex={0}
+                onKeyPress={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                        handleClick();
+                    }
+                }}
+                dangerouslySetInnerHTML={{ __html: mathContent }}
+                data-latex={isEditor ? equation : undefined}
+            />
+            {isEditing && <EquationEditButton onClick={openEditor} />}
+        </Component>
     );
 };
 
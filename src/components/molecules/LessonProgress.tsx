@@ -0,0 +1,120 @@
+import { CheckCircle2, Circle, RotateCcw } from "lucide-react";
+import { Progress } from "@/components/atoms/ui/progress";
+import { useAssessmentStore, useAssessmentSummary } from "@/stores";
+import { cn } from "@/lib/utils";
+
+export interface LessonProgressProps {
+    /** Show one row per section (default: true) */
+    showSections?: boolean;
+    /** Show a button that clears all answers (default: true) */
+    showReset?: boolean;
+    /** Optional heading above the summary */
+    title?: string;
+    /** Custom CSS class */
+    className?: string;
+}
+
+const formatDuration = (ms: number): string => {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+/**
+ * LessonProgress - Summary of the learner's answers across every
+ * validatable component in the lesson (see assessmentStore.ts):
+ * overall score, first-try accuracy, attempts, time to answer and
+ * completion per section.
+ *
+ * @example
+ * ```tsx
+ * <LessonProgress title="Your progress" />
+ * ```
+ */
+export const LessonProgress = ({
+    showSections = true,
+    showReset = true,
+    title,
+    className,
+}: LessonProgressProps) => {
+    const summary = useAssessmentSummary();
+    const reset = useAssessmentStore((state) => state.reset);
+
+    if (summary.total === 0) {
+        return (
+            <div className={cn("text-sm text-muted-foreground", className)}>
+                No questions in this lesson yet.
+            </div>
+        );
+    }
+
+    const percent = Math.round((summary.correct / summary.total) * 100);
+    const sections = Object.entries(summary.sections);
+
+    return (
+        <div className={cn("space-y-4", className)}>
+            {title && <h3 className="text-lg font-semibold">{title}</h3>}
+
+            <div className="space-y-2">
+                <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-medium">
+                        {summary.correct} of {summary.total} answered correctly
+                    </span>
+                    <span className="text-sm text-muted-foreground font-mono">{percent}%</span>
+                </div>
+                <Progress value={percent} className="h-2" />
+            </div>
+
+            <dl className="grid grid-cols-3 gap-3 text-sm">
+                <div>
+                    <dt className="text-muted-foreground">First try</dt>
+                    <dd className="font-mono">
+                        {summary.firstTryCorrect} / {summary.total}
+                    </dd>
+                </div>
+                <div>
+                    <dt className="text-muted-foreground">Attempts</dt>
+                    <dd className="font-mono">{summary.attempts}</dd>
+                </div>
+                <div>
+                    <dt className="text-muted-foreground">Avg. time</dt>
+                    <dd className="font-mono">
+                        {summary.averageTimeToAnswerMs === null ? "–" : formatDuration(summary.averageTimeToAnswerMs)}
+                    </dd>
+                </div>
+            </dl>
+
+            {showSections && sections.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                    {sections.map(([sectionId, section]) => (
+                        <li key={sectionId} className="flex items-center justify-between gap-2">
+                            <span className="flex items-center gap-2">
+                                {section.complete ? (
+                                    <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                                ) : (
+                                    <Circle className="h-4 w-4 text-muted-foreground" />
+                                )}
+                                {sectionId || "Outside sections"}
+                            </span>
+                            <span className="font-mono text-muted-foreground">
+                                {section.correct}/{section.total}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {showReset && (
+                <button
+                    onClick={reset}
+                    disabled={summary.attempts === 0}
+                    className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground disabled:opacity-40"
+                >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    Start over
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default LessonProgress;
@@ -1,6 +1,11 @@
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef } from "react";
+import DOMPurify from "dompurify";
+import { cn } from "@/lib/utils";
+import { getElementIdentity, type EditableIdentityProps } from "@/lib/element-identity";
+import { useEditKeyAttribute } from "@/components/editing/EditableText";
+import { EquationEditButton, useEquationEditing } from "@/components/editing/EquationEditButton";
 
-export interface MathBlockProps {
+export interface MathBlockProps extends EditableIdentityProps {
     /** LaTeX equation string */
     equation: string;
     /** Optional equation number to display on the right */
@@ -13,15 +18,36 @@ export interface MathBlockProps {
 /**
  * MathBlock component for rendering mathematical equations.
  * Uses MathJax for rendering LaTeX.
+ * In edit mode, clicking it opens the equation editor.
  */
 export const MathBlock = ({
     equation,
     numbered,
     mode = "block",
-    className = ""
+    className = "",
+    editId,
+    sourceLocation,
 }: MathBlockProps) => {
     const contentRef = useRef<HTMLDivElement>(null);
 
+    // Editing support: preview the pending edit, if any
+    const getIdentity = useCallback(() => getElementIdentity({ editId, sourceLocation }, () => {
+        const section = contentRef.current?.closest("[data-section-id]");
+        const sectionId = section?.getAttribute("data-section-id") || "unknown";
+        return `math-block-${sectionId}-${equation.substring(0, 20)}`;
+    }), [editId, sourceLocation, equation]);
+    const { isEditor, isEditing, latex: displayEquation, openEditor } = useEquationEditing(contentRef, {
+        getIdentity,
+        latex: equation,
+        componentType: "MathBlock",
+        componentProps: { mode, numbered },
+    });
+    useEditKeyAttribute(contentRef, useCallback(() => getIdentity().key, [getIdentity]), isEditor);
+
+    const editingClassName = isEditing
+        ? "cursor-pointer rounded hover:outline hover:outline-2 hover:outline-dashed hover:outline-offset-2 hover:outline-[#3cc499]"
+        : undefined;
+
     useEffect(() => {
         const el = contentRef.current;
         const mj = window.MathJax;
@@ -34,34 +60,43 @@ export const MathBlock = ({
                 mj.typeset([el]);
             }
         } catch { }
-    }, [equation]);
+    }, [displayEquation]);
 
-    const formattedEquation = equation.startsWith("$$") || equation.startsWith("\\[")
-        ? equation
-        : `$$${equation}$$`;
+    const sanitizedEquation = DOMPurify.sanitize(displayEquation);
+    const formattedEquation = sanitizedEquation.startsWith("$$") || sanitizedEquation.startsWith("\\[")
+        ? sanitizedEquation
+        : `$$${sanitizedEquation}$$`;
 
     if (mode === "inline") {
         return (
-            <span
-                ref={contentRef}
-                className={`mathjax-process ${className}`}
-                dangerouslySetInnerHTML={{ __html: `$${equation}$` }}
-            />
+            <span className={cn("relative", isEditing && "group")}>
+                <span
+                    ref={contentRef}
+                    className={cn(`mathjax-process ${className}`, editingClassName)}
+                    onClick={isEditing ? openEditor : undefined}
+                    dangerouslySetInnerHTML={{ __html: `$${sanitizedEquation}$` }}
+                    data-latex={isEditor ? equation : undefined}
+                />
+                {isEditing && <EquationEditButton onClick={openEditor} />}
+            </span>
         );
     }
 
     return (
-        <div className={`relative my-2 ${className}`}>
+        <div className={cn(`relative my-2 ${className}`, isEditing && "group")}>
             <div
                 ref={contentRef}
-                className="text-center text-lg mathjax-process"
+                className={cn("text-center text-lg mathjax-process", editingClassName)}
+                onClick={isEditing ? openEditor : undefined}
                 dangerouslySetInnerHTML={{ __html: formattedEquation }}
+                data-latex={isEditor ? equation : undefined}
             />
             {numbered && (
                 <span className="absolute right-0 top-1/2 -translate-y-1/2">
                     ({numbered})
                 </span>
             )}
+            {isEditing && <EquationEditButton onClick={openEditor} />}
         </div>
     );
 };
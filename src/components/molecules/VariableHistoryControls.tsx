@@ -0,0 +1,98 @@
+import { useState, type FormEvent } from "react";
+import { Bookmark, Redo2, Undo2, X } from "lucide-react";
+import { Button } from "@/components/atoms/ui/button";
+import { Input } from "@/components/atoms/ui/input";
+import { useVariableHistory, useVariableSnapshots } from "@/stores";
+import { cn } from "@/lib/utils";
+
+export interface VariableHistoryControlsProps {
+    /** Show the "save this configuration" form and saved snapshots (default: true) */
+    showSnapshots?: boolean;
+    /** Custom CSS class */
+    className?: string;
+}
+
+/**
+ * VariableHistoryControls - Undo/redo buttons for the shared variables,
+ * plus named snapshots the learner can save and jump back to.
+ *
+ * @example
+ * ```tsx
+ * <VariableHistoryControls />
+ * ```
+ */
+export const VariableHistoryControls = ({
+    showSnapshots = true,
+    className,
+}: VariableHistoryControlsProps) => {
+    const { undo, redo, canUndo, canRedo } = useVariableHistory();
+    const { snapshots, saveSnapshot, restoreSnapshot, deleteSnapshot } = useVariableSnapshots();
+    const [name, setName] = useState("");
+
+    const handleSave = (e: FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim() || `Configuration ${snapshots.length + 1}`;
+        saveSnapshot(trimmed);
+        setName("");
+    };
+
+    return (
+        <div className={cn("space-y-3", className)}>
+            <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                    <Undo2 />
+                    Undo
+                </Button>
+                <Button variant="outline" size="sm" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                    <Redo2 />
+                    Redo
+                </Button>
+            </div>
+
+            {showSnapshots && (
+                <>
+                    <form onSubmit={handleSave} className="flex items-center gap-2">
+                        <Input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Name this configuration..."
+                            className="h-9"
+                        />
+                        <Button type="submit" variant="secondary" size="sm">
+                            <Bookmark />
+                            Save
+                        </Button>
+                    </form>
+
+                    {snapshots.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {snapshots.map((snapshot) => (
+                                <span
+                                    key={snapshot.name}
+                                    className="inline-flex items-center gap-1 rounded-md bg-muted text-sm"
+                                >
+                                    <button
+                                        onClick={() => restoreSnapshot(snapshot.name)}
+                                        className="pl-3 py-1.5 hover:underline"
+                                        title="Restore this configuration"
+                                    >
+                                        {snapshot.name}
+                                    </button>
+                                    <button
+                                        onClick={() => deleteSnapshot(snapshot.name)}
+                                        className="pr-2 py-1.5 text-muted-foreground hover:text-foreground"
+                                        aria-label={`Delete ${snapshot.name}`}
+                                    >
+                                        <X className="h-3.5 w-3.5" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default VariableHistoryControls;
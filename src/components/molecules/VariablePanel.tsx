@@ -0,0 +1,359 @@
+import { Fragment, type ReactNode } from "react";
+import { Minus, Plus, RotateCcw } from "lucide-react";
+import { Slider } from "@/components/atoms/ui/slider";
+import { Label } from "@/components/atoms/ui/label";
+import { Input } from "@/components/atoms/ui/input";
+import { Switch } from "@/components/atoms/ui/switch";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/atoms/ui/select";
+import {
+    useVar,
+    useSetVar,
+    useVariableStore,
+    getVariableType,
+    parseSchemaHint,
+    isComputed,
+    type VarValue,
+} from "@/stores";
+import type { VariableDefinition } from "@/data/variables";
+import { cn } from "@/lib/utils";
+
+export interface VariablePanelProps {
+    /** Variables to show, in order (default: every declared variable) */
+    names?: string[];
+    /** Group controls by the `group` of their definition (default: true) */
+    grouped?: boolean;
+    /** Show a reset-to-default button next to each control (default: true) */
+    showReset?: boolean;
+    /** Optional heading above the controls */
+    title?: string;
+    /** Custom CSS class */
+    className?: string;
+}
+
+// Undeclared names already warned about (warn once per name)
+const warnedUndeclared = new Set<string>();
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Number of decimals implied by a step (0.1 → 1, 0.01 → 2)
+const getDecimals = (step?: number): number => {
+    if (step === undefined) return 2;
+    return String(step).split(".")[1]?.length ?? 0;
+};
+
+const formatValue = (value: unknown): string =>
+    typeof value === "number" ? String(Number(value.toFixed(4))) : JSON.stringify(value);
+
+/**
+ * Number list editor - one input per item, with add/remove buttons
+ */
+const NumberListEditor = ({
+    value,
+    onChange,
+}: {
+    value: number[];
+    onChange: (value: number[]) => void;
+}) => (
+    <div className="flex flex-wrap items-center gap-2">
+        {value.map((item, index) => (
+            <Input
+                key={index}
+                type="number"
+                value={item}
+                onChange={(e) => {
+                    const next = Number(e.target.value);
+                    if (e.target.value.trim() === "" || !Number.isFinite(next)) return;
+                    onChange(value.map((v, i) => (i === index ? next : v)));
+                }}
+                className="h-8 w-20 font-mono"
+            />
+        ))}
+        <button
+            onClick={() => onChange(value.slice(0, -1))}
+            disabled={value.length === 0}
+            className="h-8 w-8 flex items-center justify-center rounded-md border border-input hover:bg-muted disabled:opacity-50"
+            aria-label="Remove last item"
+        >
+            <Minus className="h-3.5 w-3.5" />
+        </button>
+        <button
+            onClick={() => onChange([...value, value[value.length - 1] ?? 0])}
+            className="h-8 w-8 flex items-center justify-center rounded-md border border-input hover:bg-muted"
+            aria-label="Add item"
+        >
+            <Plus className="h-3.5 w-3.5" />
+        </button>
+    </div>
+);
+
+/**
+ * Object editor - one field per key, typed from the schema hint
+ * (or from the current value when the schema does not describe a key)
+ */
+const ObjectEditor = ({
+    value,
+    schema,
+    onChange,
+}: {
+    value: Record<string, unknown>;
+    schema?: string;
+    onChange: (value: Record<string, unknown>) => void;
+}) => {
+    const fields = schema ? parseSchemaHint(schema) : {};
+    const keys = Array.from(new Set([...Object.keys(fields), ...Object.keys(value)]));
+    const setField = (key: string, fieldValue: unknown) => onChange({ ...value, [key]: fieldValue });
+
+    return (
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 pl-3 border-l-2 border-border">
+            {keys.map((key) => {
+                const fieldValue = value[key];
+                const type = fields[key]?.type ?? (Array.isArray(fieldValue) ? "number[]" : typeof fieldValue);
+
+                let editor: ReactNode;
+                if (type === "number") {
+                    editor = (
+                        <Input
+                            type="number"
+                            value={typeof fieldValue === "number" ? fieldValue : ""}
+                            onChange={(e) => {
+                                const next = Number(e.target.value);
+                                if (e.target.value.trim() !== "" && Number.isFinite(next)) setField(key, next);
+                            }}
+                            className="h-8 font-mono"
+                        />
+                    );
+                } else if (type === "boolean") {
+                    editor = <Switch checked={fieldValue === true} onCheckedChange={(v) => setField(key, v)} />;
+                } else if (type === "number[]") {
+                    editor = (
+                        <NumberListEditor
+                            value={Array.isArray(fieldValue) ? (fieldValue as number[]) : []}
+                            onChange={(v) => setField(key, v)}
+                        />
+                    );
+                } else if (type === "object" && isPlainObject(fieldValue)) {
+                    editor = <ObjectEditor value={fieldValue} onChange={(v) => setField(key, v)} />;
+                } else {
+                    editor = (
+                        <Input
+                            value={fieldValue === undefined ? "" : String(fieldValue)}
+                            onChange={(e) => setField(key, e.target.value)}
+                            className="h-8"
+                        />
+                    );
+                }
+
+                return (
+                    <Fragment key={key}>
+                        <span className="text-sm text-muted-foreground font-mono">
+                            {key}
+                            {fields[key]?.optional && "?"}
+                        </span>
+                        {editor}
+                    </Fragment>
+                );
+            })}
+        </div>
+    );
+};
+
+/**
+ * A single control, picked from the variable's type
+ */
+const VariableControl = ({
+    name,
+    definition,
+    showReset,
+}: {
+    name: string;
+    definition: VariableDefinition;
+    showReset: boolean;
+}) => {
+    const value = useVar(name, definition.defaultValue);
+    const defaultValue = useVariableStore((state) => state.defaults[name] ?? definition.defaultValue);
+    const setVar = useSetVar();
+
+    const label = definition.label ?? name;
+    const type = getVariableType(definition);
+    const readOnly = isComputed(definition);
+    const isDefault = JSON.stringify(value) === JSON.stringify(defaultValue);
+    const set = (next: VarValue) => setVar(name, next);
+
+    const header = (
+        <div className="flex items-center justify-between gap-2">
+            <Label title={definition.description}>{label}</Label>
+            <div className="flex items-center gap-2">
+                {type === "number" && (
+                    <span className="text-sm text-muted-foreground font-mono">
+                        {readOnly ? formatValue(value) : Number(value).toFixed(getDecimals(definition.step))}
+                        {definition.unit && ` ${definition.unit}`}
+                    </span>
+                )}
+                {type === "boolean" && !readOnly && (
+                    <Switch checked={value === true} onCheckedChange={set} />
+                )}
+                {showReset && !readOnly && (
+                    <button
+                        onClick={() => set(defaultValue)}
+                        disabled={isDefault}
+                        className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                        title={`Reset to ${formatValue(defaultValue)}`}
+                        aria-label={`Reset ${label}`}
+                    >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+
+    if (readOnly) {
+        return (
+            <div className="space-y-1">
+                {header}
+                {type !== "number" && (
+                    <div className="text-sm text-muted-foreground font-mono">{formatValue(value)}</div>
+                )}
+            </div>
+        );
+    }
+
+    let control: ReactNode = null;
+    switch (type) {
+        case "number":
+            control =
+                definition.min !== undefined && definition.max !== undefined ? (
+                    <Slider
+                        min={definition.min}
+                        max={definition.max}
+                        step={definition.step ?? 0.01}
+                        value={[value as number]}
+                        onValueChange={([v]) => set(v)}
+                    />
+                ) : (
+                    <Input
+                        type="number"
+                        step={definition.step}
+                        value={value as number}
+                        onChange={(e) => {
+                            const next = Number(e.target.value);
+                            if (e.target.value.trim() !== "" && Number.isFinite(next)) set(next);
+                        }}
+                    />
+                );
+            break;
+        case "text":
+            control = (
+                <Input
+                    value={String(value)}
+                    onChange={(e) => set(e.target.value)}
+                    placeholder={definition.placeholder}
+                />
+            );
+            break;
+        case "select":
+            control = (
+                <Select value={String(value)} onValueChange={set}>
+                    <SelectTrigger>
+                        <SelectValue placeholder={definition.placeholder} />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(definition.options ?? []).map((option) => (
+                            <SelectItem key={option} value={option}>
+                                {option}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            );
+            break;
+        case "array":
+            control = <NumberListEditor value={Array.isArray(value) ? value : []} onChange={set} />;
+            break;
+        case "object":
+            control = (
+                <ObjectEditor
+                    value={isPlainObject(value) ? value : {}}
+                    schema={definition.schema}
+                    onChange={set}
+                />
+            );
+            break;
+    }
+
+    return (
+        <div className="space-y-2">
+            {header}
+            {control}
+        </div>
+    );
+};
+
+/**
+ * VariablePanel - Control panel generated from the variable definitions
+ * (see src/data/variables.ts). Renders a slider, input, switch, dropdown,
+ * list or object editor for each variable depending on its type, wired to
+ * the shared store. Computed variables are shown read-only.
+ *
+ * @example
+ * ```tsx
+ * <VariablePanel names={['amplitude', 'frequency', 'waveType', 'showGrid']} />
+ * ```
+ */
+export const VariablePanel = ({
+    names,
+    grouped = true,
+    showReset = true,
+    title,
+    className,
+}: VariablePanelProps) => {
+    const definitions = useVariableStore((state) => state.definitions);
+
+    const entries = (names ?? Object.keys(definitions)).filter((name) => {
+        if (definitions[name]) return true;
+        if (!warnedUndeclared.has(name)) {
+            warnedUndeclared.add(name);
+            console.warn(`VariablePanel: "${name}" is not declared in variables.ts`);
+        }
+        return false;
+    });
+
+    // Keep groups in order of first appearance; ungrouped variables come first
+    const groups = new Map<string, string[]>();
+    for (const name of entries) {
+        const group = grouped ? definitions[name].group ?? "" : "";
+        groups.set(group, [...(groups.get(group) ?? []), name]);
+    }
+
+    const ungrouped = groups.get("");
+    groups.delete("");
+
+    const renderControls = (groupNames: string[]) =>
+        groupNames.map((name) => (
+            <VariableControl key={name} name={name} definition={definitions[name]} showReset={showReset} />
+        ));
+
+    return (
+        <div className={cn("space-y-6", className)}>
+            {title && <h3 className="text-lg font-semibold">{title}</h3>}
+            {ungrouped && <div className="space-y-5">{renderControls(ungrouped)}</div>}
+            {Array.from(groups.entries()).map(([group, groupNames]) => (
+                <fieldset key={group} className="space-y-5">
+                    <legend className="mb-3 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                        {group}
+                    </legend>
+                    {renderControls(groupNames)}
+                </fieldset>
+            ))}
+        </div>
+    );
+};
+
+export default VariablePanel;
@@ -7,3 +7,10 @@ export { MathBlock } from "./MathBlock";
 export { InteractiveTerm } from "./InteractiveTerm";
 export { InteractiveEquation } from "./InteractiveEquation";
 export { InteractiveParagraph } from "./InteractiveParagraph";
+
+// Variable Store Components
+export { VariableHistoryControls } from "./VariableHistoryControls";
+export { VariablePanel } from "./VariablePanel";
+
+// Learner Progress
+export { LessonProgress } from "./LessonProgress";
@@ -1,14 +1,23 @@
 import { type ReactNode, useState, useRef, useEffect } from "react";
+import { createPortal } from "react-dom";
 import { Button } from "@/components/atoms/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/atoms/ui/tooltip";
 import {
     DropdownMenu,
     DropdownMenuContent,
     DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
     DropdownMenuTrigger,
 } from "@/components/atoms/ui/dropdown-menu";
-import { GripVertical, Plus, Send, Pencil } from "lucide-react";
+import { ArrowDown, ArrowUp, Check, GripVertical, LayoutGrid, Plus, Send, Pencil, Trash2 } from "lucide-react";
 import { AnnotationOverlay } from "@/components/atoms/AnnotationOverlay";
+import { postToHost } from "@/lib/editor-bridge";
+import { useOptionalEditing, type SectionLayoutType } from "@/contexts/EditingContext";
+import type { SectionTemplate } from "@/lib/section-templates";
+import { SectionTemplateGallery } from "@/components/editing/SectionTemplateGallery";
 
 export interface SectionProps {
     /** Unique identifier for the section */
@@ -25,9 +34,65 @@ export interface SectionProps {
     onEditSection?: (instruction: string) => void;
 }
 
+const LAYOUT_OPTIONS: { layout: SectionLayoutType; label: string }[] = [
+    { layout: "FullWidthLayout", label: "Full width" },
+    { layout: "SplitLayout", label: "Split" },
+    { layout: "GridLayout", label: "Grid" },
+];
+
+// Pointer travel before pressing the grip counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+/** The top-level section wrappers added by SectionRenderer, in page order */
+const getSectionWrappers = () => Array.from(document.querySelectorAll<HTMLElement>("[data-section-key]"));
+
+const getWrapperKey = (wrapper: HTMLElement) => wrapper.getAttribute("data-section-key") ?? "";
+
+/**
+ * Where a section dragged to `clientY` would go: the key of the section it
+ * would follow (null: first) and the line that shows it
+ */
+const getDropTarget = (key: string, clientY: number) => {
+    const wrappers = getSectionWrappers().filter((wrapper) => getWrapperKey(wrapper) !== key);
+    if (wrappers.length === 0) return null;
+
+    const rects = wrappers.map((wrapper) => wrapper.getBoundingClientRect());
+    const nextIndex = rects.findIndex((rect) => clientY < rect.top + rect.height / 2);
+    const index = nextIndex === -1 ? wrappers.length : nextIndex;
+    const previous = rects[index - 1];
+    const next = rects[index];
+    const reference = next ?? previous;
+
+    return {
+        afterKey: index === 0 ? null : getWrapperKey(wrappers[index - 1]),
+        indicator: {
+            top: previous && next ? (previous.bottom + next.top) / 2 : previous ? previous.bottom + 8 : next.top - 8,
+            left: reference.left,
+            width: reference.width,
+        },
+    };
+};
+
+/** What the section menu needs to know about the top-level section (only inside a SectionRenderer) */
+interface SectionMenuState {
+    key: string;
+    /** Position among the top-level sections */
+    index: number;
+    count: number;
+    /** Its layout, when it can be switched */
+    layout: SectionLayoutType | null;
+    /** Number of sections in that layout */
+    childSections: number;
+}
+
 /**
  * Section component wraps content and provides consistent layout.
  * This is the container for all content blocks in the canvas.
+ *
+ * The hover toolbar adds a section below, and moves (drag the grip, or the
+ * menu), deletes or re-lays out the top-level section this one belongs to.
+ * These become structural edits in EditingContext, previewed by
+ * SectionRenderer and sent to the host with the other edits.
  */
 export const Section = ({
     id,
@@ -40,6 +105,16 @@ export const Section = ({
     const [isAnnotating, setIsAnnotating] = useState(false);
     const sectionRef = useRef<HTMLElement>(null);
 
+    // Structural editing, only while editing is on (where edits can be reviewed and undone)
+    const editing = useOptionalEditing();
+    const editingContext = editing?.isEditing ? editing : null;
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [menuState, setMenuState] = useState<SectionMenuState | null>(null);
+    // Key of the section the gallery adds below, while it is open
+    const [galleryAfterKey, setGalleryAfterKey] = useState<string | null>(null);
+    const [dropIndicator, setDropIndicator] = useState<{ top: number; left: number; width: number } | null>(null);
+    const dragRef = useRef<{ pointerId: number; startX: number; startY: number; isDragging: boolean; afterKey: string | null } | null>(null);
+
     const paddingClasses = {
         none: "",
         sm: "py-2",
@@ -79,11 +154,11 @@ export const Section = ({
 
         if (id) {
             // Send message to parent window with annotated image
-            window.parent.postMessage({
+            postToHost({
                 type: 'add-annotation-to-chat',
                 sectionId: id,
                 imageDataUrl: imageDataUrl,
-            }, '*');
+            });
 
             // Also call the callback if provided
             if (onEditSection) {
@@ -92,6 +167,131 @@ export const Section = ({
         }
     };
 
+    const getSectionKey = () => {
+        const wrapper = sectionRef.current?.closest<HTMLElement>("[data-section-key]");
+        return wrapper ? getWrapperKey(wrapper) : null;
+    };
+
+    const handleMenuOpenChange = (open: boolean) => {
+        setIsMenuOpen(open);
+        // Without a wrapper the menu still opens, just without the structural items
+        const wrapper = sectionRef.current?.closest<HTMLElement>("[data-section-key]");
+        if (!open || !wrapper) {
+            setMenuState(null);
+            return;
+        }
+        const wrappers = getSectionWrappers();
+        setMenuState({
+            key: getWrapperKey(wrapper),
+            index: wrappers.indexOf(wrapper),
+            count: wrappers.length,
+            layout: wrapper.getAttribute("data-section-layout") as SectionLayoutType | null,
+            childSections: wrapper.querySelectorAll("section[data-section-id]").length,
+        });
+    };
+
+    const handleAddBelow = () => {
+        const key = getSectionKey();
+        if (!editingContext || !key) {
+            console.warn("Section: adding sections needs editing turned on (EditingProvider) and a SectionRenderer");
+            return;
+        }
+        setGalleryAfterKey(key);
+    };
+
+    const handleTemplateSelect = (template: SectionTemplate) => {
+        if (!editingContext || !galleryAfterKey) return;
+        const newKey = editingContext.insertSection(galleryAfterKey, template);
+        requestAnimationFrame(() => {
+            document.querySelector(`[data-section-key="${CSS.escape(newKey)}"]`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+        });
+    };
+
+    const handleMove = (direction: "up" | "down") => {
+        if (!editingContext || !menuState) return;
+        const keys = getSectionWrappers().map(getWrapperKey);
+        const { key, index } = menuState;
+        if (direction === "up" && index > 0) {
+            editingContext.moveSection(key, index > 1 ? keys[index - 2] : null);
+        } else if (direction === "down" && index < keys.length - 1) {
+            editingContext.moveSection(key, keys[index + 1]);
+        }
+    };
+
+    const handleLayoutChange = (layout: SectionLayoutType) => {
+        if (!editingContext || !menuState?.layout) return;
+        const layoutProps = layout === "GridLayout"
+            ? { columns: Math.min(Math.max(menuState.childSections, 2), 6) }
+            : undefined;
+        editingContext.changeSectionLayout(menuState.key, menuState.layout, layout, layoutProps);
+    };
+
+    const handleDelete = () => {
+        if (editingContext && menuState) {
+            editingContext.deleteSection(menuState.key);
+        }
+    };
+
+    // The grip opens the menu on click and moves the section on drag, so the
+    // pointer is handled here instead of by the menu trigger
+    const handleGripPointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+        e.preventDefault();
+        if (e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, isDragging: false, afterKey: null };
+    };
+
+    const handleGripPointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+        const drag = dragRef.current;
+        const key = getSectionKey();
+        if (!drag || drag.pointerId !== e.pointerId || !editingContext || !key) return;
+
+        if (!drag.isDragging) {
+            if (Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < DRAG_THRESHOLD) return;
+            drag.isDragging = true;
+        }
+
+        const target = getDropTarget(key, e.clientY);
+        drag.afterKey = target?.afterKey ?? null;
+        setDropIndicator(target?.indicator ?? null);
+    };
+
+    const handleGripPointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+        const drag = dragRef.current;
+        if (!drag || drag.pointerId !== e.pointerId) return;
+        dragRef.current = null;
+        setDropIndicator(null);
+
+        if (!drag.isDragging) {
+            handleMenuOpenChange(!isMenuOpen);
+            return;
+        }
+
+        const key = getSectionKey();
+        if (!editingContext || !key) return;
+        const keys = getSectionWrappers().map(getWrapperKey);
+        const index = keys.indexOf(key);
+        const currentAfterKey = index > 0 ? keys[index - 1] : null;
+        if (drag.afterKey !== currentAfterKey) {
+            editingContext.moveSection(key, drag.afterKey);
+        }
+    };
+
+    const handleGripPointerCancel = () => {
+        dragRef.current = null;
+        setDropIndicator(null);
+    };
+
+    // Escape cancels a drag
+    useEffect(() => {
+        if (!dropIndicator) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") handleGripPointerCancel();
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [dropIndicator]);
+
     const handleSectionClick = (e: React.MouseEvent<HTMLElement>) => {
         // Only handle clicks in editor mode and if there's an ID
         if (!isPreview && id) {
@@ -101,10 +301,10 @@ export const Section = ({
             }
 
             // Send message to parent window to highlight in hierarchy
-            window.parent.postMessage({
+            postToHost({
                 type: 'section-selected',
                 sectionId: id,
-            }, '*');
+            });
         }
     };
 
@@ -120,10 +320,28 @@ export const Section = ({
                 />
             )}
 
+            {/* Starter blocks for "add below" (outside the section, so clicks don't select it) */}
+            {editingContext && (
+                <SectionTemplateGallery
+                    open={galleryAfterKey !== null}
+                    onOpenChange={(open) => !open && setGalleryAfterKey(null)}
+                    onSelect={handleTemplateSelect}
+                />
+            )}
+
+            {/* Where a dragged section will go */}
+            {dropIndicator && createPortal(
+                <div
+                    className="fixed z-50 h-0.5 rounded-full bg-[#3cc499] pointer-events-none"
+                    style={dropIndicator}
+                />,
+                document.body
+            )}
+
             <section
                 ref={sectionRef}
                 id={id}
-                className={`w-full group flex gap-3 pr-3 ${paddingClasses[padding]} ${className} ${!isPreview ? 'hover:ring-1 rounded-lg transition-all' : ''}`}
+                className={`w-full group flex gap-3 pr-3 ${paddingClasses[padding]} ${className} ${!isPreview ? 'hover:ring-1 rounded-lg transition-all' : ''} ${dropIndicator ? 'opacity-50' : ''}`}
                 style={!isPreview ? { '--tw-ring-color': '#D4EDE5' } as React.CSSProperties : undefined}
                 data-section-id={id}
                 onClick={handleSectionClick}
@@ -137,28 +355,30 @@ export const Section = ({
                                     variant="ghost"
                                     size="icon"
                                     className="h-7 w-7 hover:bg-[#D4EDE5] hover:text-[#0D7377]"
-                                    onClick={() => {
-                                        console.log("Add section clicked (not implemented in code mode)");
-                                    }}
+                                    onClick={handleAddBelow}
                                 >
                                     <Plus className="h-4 w-4" />
                                 </Button>
                             </TooltipTrigger>
                             <TooltipContent side="bottom">
                                 <div>
-                                    <span className="font-semibold">Click</span> to add below
+                                    <span className="font-semibold">Click</span> to add a block below
                                 </div>
                             </TooltipContent>
                         </Tooltip>
 
-                        <DropdownMenu>
+                        <DropdownMenu open={isMenuOpen} onOpenChange={handleMenuOpenChange}>
                             <Tooltip>
                                 <TooltipTrigger asChild>
                                     <DropdownMenuTrigger asChild>
                                         <Button
                                             variant="ghost"
                                             size="icon"
-                                            className="h-7 w-7 cursor-grab active:cursor-grabbing hover:bg-[#D4EDE5] hover:text-[#0D7377]"
+                                            className={`h-7 w-7 touch-none hover:bg-[#D4EDE5] hover:text-[#0D7377] ${editingContext ? "cursor-grab active:cursor-grabbing" : ""}`}
+                                            onPointerDown={handleGripPointerDown}
+                                            onPointerMove={handleGripPointerMove}
+                                            onPointerUp={handleGripPointerUp}
+                                            onPointerCancel={handleGripPointerCancel}
                                         >
                                             <GripVertical className="h-4 w-4" />
                                         </Button>
@@ -166,8 +386,12 @@ export const Section = ({
                                 </TooltipTrigger>
                                 <TooltipContent side="bottom">
                                     <div>
-                                        <span className="font-semibold">Drag</span> to move
-                                        <br />
+                                        {editingContext && (
+                                            <>
+                                                <span className="font-semibold">Drag</span> to move
+                                                <br />
+                                            </>
+                                        )}
                                         <span className="font-semibold">Click</span> to open menu
                                     </div>
                                 </TooltipContent>
@@ -178,10 +402,10 @@ export const Section = ({
                                     onClick={() => {
                                         if (id) {
                                             // Send message to parent window with section context
-                                            window.parent.postMessage({
+                                            postToHost({
                                                 type: 'add-to-chat',
                                                 sectionId: id,
-                                            }, '*');
+                                            });
 
                                             // Also call the callback if provided (for backwards compatibility)
                                             if (onEditSection) {
@@ -199,14 +423,55 @@ export const Section = ({
                                     <Pencil className="mr-2 h-4 w-4" />
                                     Annotate
                                 </DropdownMenuItem>
-                                <DropdownMenuItem
-                                    className="text-destructive"
-                                    onClick={() => {
-                                        console.log("Delete section clicked (not implemented in code mode)");
-                                    }}
-                                >
-                                    Delete
-                                </DropdownMenuItem>
+                                {editingContext && menuState && (
+                                    // These act on the whole top-level row, which may hold several sections
+                                    <>
+                                        <DropdownMenuSeparator />
+                                        <DropdownMenuItem
+                                            disabled={menuState.index <= 0}
+                                            onClick={() => handleMove("up")}
+                                        >
+                                            <ArrowUp className="mr-2 h-4 w-4" />
+                                            {menuState.childSections > 1 ? "Move row up" : "Move up"}
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem
+                                            disabled={menuState.index >= menuState.count - 1}
+                                            onClick={() => handleMove("down")}
+                                        >
+                                            <ArrowDown className="mr-2 h-4 w-4" />
+                                            {menuState.childSections > 1 ? "Move row down" : "Move down"}
+                                        </DropdownMenuItem>
+                                        {menuState.layout && (
+                                            <DropdownMenuSub>
+                                                <DropdownMenuSubTrigger>
+                                                    <LayoutGrid className="mr-2 h-4 w-4" />
+                                                    {menuState.childSections > 1 ? "Row layout" : "Layout"}
+                                                </DropdownMenuSubTrigger>
+                                                <DropdownMenuSubContent>
+                                                    {LAYOUT_OPTIONS.map(({ layout, label }) => (
+                                                        <DropdownMenuItem
+                                                            key={layout}
+                                                            // SplitLayout takes exactly two sections
+                                                            disabled={layout === "SplitLayout" && menuState.childSections !== 2}
+                                                            onClick={() => handleLayoutChange(layout)}
+                                                        >
+                                                            <Check className={`mr-2 h-4 w-4 ${layout === menuState.layout ? "" : "invisible"}`} />
+                                                            {label}
+                                                        </DropdownMenuItem>
+                                                    ))}
+                                                </DropdownMenuSubContent>
+                                            </DropdownMenuSub>
+                                        )}
+                                        <DropdownMenuSeparator />
+                                        <DropdownMenuItem
+                                            className="text-destructive"
+                                            onClick={handleDelete}
+                                        >
+                                            <Trash2 className="mr-2 h-4 w-4" />
+                                            {menuState.childSections > 1 ? `Delete row (${menuState.childSections} sections)` : "Delete"}
+                                        </DropdownMenuItem>
+                                    </>
+                                )}
                             </DropdownMenuContent>
                         </DropdownMenu>
                     </div>
@@ -1,4 +1,7 @@
 import { useEffect, useMemo, useRef, cloneElement, isValidElement, Children, Fragment, type CSSProperties, type ReactElement, type ReactNode } from "react";
+import { useOptionalEditing } from "@/contexts/EditingContext";
+import { useAppMode } from "@/contexts/AppModeContext";
+import { applySectionEdits, getSectionKey, getSectionLayout } from "@/lib/section-edits";
 
 export interface SectionRendererProps {
   initialSections?: ReactElement[];
@@ -44,11 +47,27 @@ const deepCloneWithProps = (element: ReactNode, props: { isPreview?: boolean; on
  * 
  * Now supports layout components that wrap sections, recursively passing
  * isPreview and onEditSection props to all nested components.
+ *
+ * In editor mode, pending structural edits (added, moved, deleted sections and
+ * layout changes) are previewed. Each top-level section is wrapped in an
+ * element with `data-section-key` (and `data-section-layout` when its layout
+ * can be switched), which the Section toolbar uses to edit it.
  */
 export const SectionRenderer = ({ initialSections = [], isPreview = false, onEditSection }: SectionRendererProps) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const stackRef = useRef<HTMLDivElement | null>(null);
 
+  const { isEditor } = useAppMode();
+  const editingContext = useOptionalEditing();
+  const pendingEdits = editingContext?.pendingEdits;
+
+  const sections = useMemo(
+    () => isEditor && pendingEdits
+      ? applySectionEdits(initialSections, pendingEdits)
+      : initialSections.map((element, index) => ({ key: getSectionKey(element, index), element })),
+    [isEditor, pendingEdits, initialSections]
+  );
+
   // Typeset MathJax whenever sections update (processes elements with 'mathjax-process')
   useEffect(() => {
     const el = stackRef.current;
@@ -61,7 +80,7 @@ export const SectionRenderer = ({ initialSections = [], isPreview = false, onEdi
         mj.typeset([el]);
       }
     } catch { }
-  }, [initialSections]);
+  }, [sections]);
 
   const containerStyles = useMemo<CSSProperties>(() => ({
     position: "absolute",
@@ -78,9 +97,14 @@ export const SectionRenderer = ({ initialSections = [], isPreview = false, onEdi
         aria-label="Sections Stack"
       >
         <div className="max-w-5xl mx-auto w-full space-y-8">
-          {initialSections.map((section, index) => (
-            <div key={section.key || `section-${index}`} className="w-full">
-              {deepCloneWithProps(section, { isPreview, onEditSection })}
+          {sections.map(({ key, element }) => (
+            <div
+              key={key}
+              className="w-full"
+              data-section-key={key}
+              data-section-layout={getSectionLayout(element) ?? undefined}
+            >
+              {deepCloneWithProps(element, { isPreview, onEditSection })}
             </div>
           ))}
         </div>
@@ -1,12 +1,12 @@
 
 import { Button } from "@/components/atoms/ui/button";
 import { MessageSquare, ArrowRight } from "lucide-react";
+import { postToHost } from "@/lib/editor-bridge";
 
 export const WelcomeScreen = () => {
     const handleFocusChat = () => {
         // Post message to parent to focus chat
-        // We try multiple known message types to ensure compatibility
-        window.parent.postMessage({ type: 'focus-chat' }, '*');
+        postToHost({ type: 'focus-chat' });
     };
 
     return (
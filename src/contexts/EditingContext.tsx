@@ -1,44 +1,171 @@
 import { createContext, useContext, useState, useCallback, useMemo, useRef, useEffect, type ReactNode } from 'react';
 import { useAppMode } from './AppModeContext';
+import { onHostMessage, postToHost, replyToHost } from '@/lib/editor-bridge';
+import type { SourceLocation } from '@/lib/element-identity';
+import type { SectionElementNode } from '@/lib/section-document';
+import { createSectionId, type SectionTemplate } from '@/lib/section-templates';
+import { getDefaultLessonId, journalEdits, loadJournaledEdits, reconcileEdits } from '@/lib/edit-journal';
 
 // Edit types
 export interface TextEdit {
     id: string;
     type: 'text';
     sectionId: string;
+    /** Identity key of the edited element (see lib/element-identity.ts) */
     elementPath: string;
+    /** Where the element is written, when known */
+    source?: SourceLocation;
     originalText: string;
     newText: string;
     timestamp: number;
+    /** Restored from an earlier session, but the element no longer holds `originalText` (not shown on the page) */
+    stale?: boolean;
 }
 
+/** Components that open the equation editor */
+export type EquationComponentType = 'Equation' | 'InteractiveEquation' | 'ColoredEquation' | 'MathBlock' | 'HighlightedTerm';
+
 export interface EquationEdit {
     id: string;
     type: 'equation';
     sectionId: string;
-    componentType: 'Equation' | 'InteractiveEquation' | 'ColoredEquation';
+    /** The component the equation was edited in */
+    componentType: EquationComponentType;
+    /** Props of that component that affect how the equation shows (mode, color...) */
+    componentProps?: Record<string, unknown>;
+    /** Identity key of the edited equation (see lib/element-identity.ts) */
+    elementPath: string;
+    /** Where the equation is written, when known */
+    source?: SourceLocation;
     originalLatex: string;
     newLatex: string;
     colorMap?: Record<string, string>;
     timestamp: number;
+    /** Restored from an earlier session, but the equation no longer has `originalLatex` (not shown on the page) */
+    stale?: boolean;
+}
+
+/** Layouts a section can be switched between */
+export type SectionLayoutType = 'FullWidthLayout' | 'SplitLayout' | 'GridLayout';
+
+// Structural edits change the list of top-level sections (the entries of
+// src/data/sections.tsx, or of a section document). Their `sectionId` is the
+// section's key in that list. They are replayed in order.
+export interface InsertSectionEdit {
+    id: string;
+    type: 'insert-section';
+    /** Key of the new section */
+    sectionId: string;
+    /** Key of the section it goes after (null: first) */
+    afterSectionId: string | null;
+    templateId: string;
+    /** The new section (see lib/section-document.ts) */
+    node: SectionElementNode;
+    timestamp: number;
+    /** Restored from an earlier session, but `afterSectionId` is gone (not shown on the page) */
+    stale?: boolean;
+}
+
+export interface MoveSectionEdit {
+    id: string;
+    type: 'move-section';
+    sectionId: string;
+    /** Key of the section it goes after (null: first) */
+    afterSectionId: string | null;
+    timestamp: number;
+    /** Restored from an earlier session, but the section is gone (not shown on the page) */
+    stale?: boolean;
+}
+
+export interface DeleteSectionEdit {
+    id: string;
+    type: 'delete-section';
+    sectionId: string;
+    timestamp: number;
+    /** Restored from an earlier session, but the section is gone already */
+    stale?: boolean;
+}
+
+export interface ChangeLayoutEdit {
+    id: string;
+    type: 'change-layout';
+    sectionId: string;
+    originalLayout: SectionLayoutType;
+    layout: SectionLayoutType;
+    /** Props of the new layout (e.g. GridLayout `columns`) */
+    layoutProps?: Record<string, unknown>;
+    timestamp: number;
+    /** Restored from an earlier session, but the section no longer has `originalLayout` (not shown on the page) */
+    stale?: boolean;
+}
+
+export type StructuralEdit = InsertSectionEdit | MoveSectionEdit | DeleteSectionEdit | ChangeLayoutEdit;
+
+export type PendingEdit = TextEdit | EquationEdit | StructuralEdit;
+
+export const isStructuralEdit = (edit: PendingEdit): edit is StructuralEdit =>
+    edit.type !== 'text' && edit.type !== 'equation';
+
+/** The equation open in the equation editor, and where it came from */
+export interface EditingEquation {
+    latex: string;
+    colorMap?: Record<string, string>;
+    sectionId: string;
+    elementPath: string;
+    source?: SourceLocation;
+    componentType: EquationComponentType;
+    componentProps?: Record<string, unknown>;
+}
+
+// Snapshots of the pending edits for undo / redo
+interface EditHistory {
+    past: PendingEdit[][];
+    present: PendingEdit[];
+    future: PendingEdit[][];
 }
 
-export type PendingEdit = TextEdit | EquationEdit;
+const MAX_HISTORY = 100;
+
+const EMPTY_HISTORY: EditHistory = { past: [], present: [], future: [] };
+
+const isTextInput = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement &&
+    (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement);
 
 interface EditingContextType {
     // State
     isEditing: boolean;
     pendingEdits: PendingEdit[];
-    editingEquation: { latex: string; colorMap?: Record<string, string>; sectionId: string; elementPath: string } | null;
+    editingEquation: EditingEquation | null;
+    canUndo: boolean;
+    canRedo: boolean;
+    /** Unsaved edits from an earlier session, waiting to be restored or discarded */
+    recoveredEdits: PendingEdit[];
 
     // Actions
     enableEditing: () => void;
     disableEditing: () => void;
     addTextEdit: (edit: Omit<TextEdit, 'id' | 'type' | 'timestamp'>) => void;
     addEquationEdit: (edit: Omit<EquationEdit, 'id' | 'type' | 'timestamp'>) => void;
+    /** Revert one edit (undoable) */
     removeEdit: (id: string) => void;
     clearAllEdits: () => void;
-    openEquationEditor: (latex: string, colorMap: Record<string, string> | undefined, sectionId: string, elementPath: string) => void;
+    undo: () => void;
+    redo: () => void;
+    /** Add the recovered edits back (flagging the ones that no longer match the page as stale) */
+    restoreRecoveredEdits: () => void;
+    discardRecoveredEdits: () => void;
+    /** Add a section from a template after `afterSectionId` (null: first); returns the new section's key */
+    insertSection: (afterSectionId: string | null, template: SectionTemplate) => string;
+    moveSection: (sectionId: string, afterSectionId: string | null) => void;
+    deleteSection: (sectionId: string) => void;
+    changeSectionLayout: (
+        sectionId: string,
+        originalLayout: SectionLayoutType,
+        layout: SectionLayoutType,
+        layoutProps?: Record<string, unknown>
+    ) => void;
+    openEquationEditor: (equation: EditingEquation) => void;
     closeEquationEditor: () => void;
     saveEquationEdit: (newLatex: string, newColorMap?: Record<string, string>) => void;
 }
@@ -47,19 +174,21 @@ const EditingContext = createContext<EditingContextType | undefined>(undefined);
 
 interface EditingProviderProps {
     children: ReactNode;
+    /** Namespace of the edit journal, e.g. "eigenvalues" (default: the page path) */
+    lessonId?: string;
 }
 
-export const EditingProvider = ({ children }: EditingProviderProps) => {
+export const EditingProvider = ({ children, lessonId = getDefaultLessonId() }: EditingProviderProps) => {
     const { isEditor } = useAppMode();
 
     const [isEditing, setIsEditing] = useState(false);
-    const [pendingEdits, setPendingEdits] = useState<PendingEdit[]>([]);
-    const [editingEquation, setEditingEquation] = useState<{
-        latex: string;
-        colorMap?: Record<string, string>;
-        sectionId: string;
-        elementPath: string;
-    } | null>(null);
+    const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+    const pendingEdits = history.present;
+    const [editingEquation, setEditingEquation] = useState<EditingEquation | null>(null);
+
+    // Edits journaled by an earlier session (see lib/edit-journal.ts)
+    const [recoveredEdits, setRecoveredEdits] = useState<PendingEdit[]>([]);
+    const [isJournalLoaded, setIsJournalLoaded] = useState(false);
 
     // Keep a ref of pending edits for event listeners to avoid stale closures
     const pendingEditsRef = useRef(pendingEdits);
@@ -68,6 +197,31 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
         pendingEditsRef.current = pendingEdits;
     }, [pendingEdits]);
 
+    // Every change to the pending edits goes through here, so it can be undone
+    const updateEdits = useCallback((update: (edits: PendingEdit[]) => PendingEdit[]) => {
+        setHistory(prev => {
+            const present = update(prev.present);
+            if (present === prev.present) return prev;
+            return { past: [...prev.past, prev.present].slice(-MAX_HISTORY), present, future: [] };
+        });
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory(prev => prev.past.length === 0 ? prev : {
+            past: prev.past.slice(0, -1),
+            present: prev.past[prev.past.length - 1],
+            future: [prev.present, ...prev.future],
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(prev => prev.future.length === 0 ? prev : {
+            past: [...prev.past, prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1),
+        });
+    }, []);
+
     // Generate unique ID for edits
     const generateId = useCallback(() => {
         return `edit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -77,14 +231,14 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
         if (isEditor) {
             setIsEditing(true);
             // Notify parent that editing mode is enabled
-            window.parent.postMessage({ type: 'editing-mode-changed', isEditing: true }, '*');
+            postToHost({ type: 'editing-mode-changed', isEditing: true });
         }
     }, [isEditor]);
 
     const disableEditing = useCallback(() => {
         setIsEditing(false);
         // Notify parent that editing mode is disabled
-        window.parent.postMessage({ type: 'editing-mode-changed', isEditing: false }, '*');
+        postToHost({ type: 'editing-mode-changed', isEditing: false });
     }, []);
 
     const addTextEdit = useCallback((edit: Omit<TextEdit, 'id' | 'type' | 'timestamp'>) => {
@@ -95,7 +249,7 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             timestamp: Date.now(),
         };
 
-        setPendingEdits(prev => {
+        updateEdits(prev => {
             // Check if there's already an edit for the same element
             const existingIndex = prev.findIndex(
                 e => e.type === 'text' &&
@@ -103,6 +257,13 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
                     e.elementPath === edit.elementPath
             );
 
+            // A stale edit was never shown, so this one starts over from what's on the page
+            if (existingIndex !== -1 && prev[existingIndex].stale) {
+                const updated = [...prev];
+                updated[existingIndex] = newEdit;
+                return updated;
+            }
+
             if (existingIndex !== -1) {
                 // Update existing edit
                 const updated = [...prev];
@@ -126,7 +287,7 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             // Add new edit
             return [...prev, newEdit];
         });
-    }, [generateId]);
+    }, [generateId, updateEdits]);
 
     const addEquationEdit = useCallback((edit: Omit<EquationEdit, 'id' | 'type' | 'timestamp'>) => {
         const newEdit: EquationEdit = {
@@ -136,21 +297,29 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
             timestamp: Date.now(),
         };
 
-        setPendingEdits(prev => {
+        updateEdits(prev => {
             // Check if there's already an edit for the same equation
             const existingIndex = prev.findIndex(
                 e => e.type === 'equation' &&
                     e.sectionId === edit.sectionId &&
-                    (e as EquationEdit).originalLatex === edit.originalLatex
+                    e.elementPath === edit.elementPath
             );
 
+            // A stale edit was never shown, so this one starts over from what's on the page
+            if (existingIndex !== -1 && prev[existingIndex].stale) {
+                const updated = [...prev];
+                updated[existingIndex] = newEdit;
+                return updated;
+            }
+
             if (existingIndex !== -1) {
                 // Update existing edit
                 const updated = [...prev];
                 const existing = updated[existingIndex] as EquationEdit;
 
-                // If new latex matches original, remove the edit
-                if (edit.newLatex === existing.originalLatex) {
+                // If new latex matches original, remove the edit (term edits only
+                // change the color, so their latex always matches)
+                if (edit.newLatex === existing.originalLatex && existing.componentType !== 'HighlightedTerm') {
                     updated.splice(existingIndex, 1);
                     return updated;
                 }
@@ -167,23 +336,89 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
 
             return [...prev, newEdit];
         });
-    }, [generateId]);
+    }, [generateId, updateEdits]);
 
     const removeEdit = useCallback((id: string) => {
-        setPendingEdits(prev => prev.filter(e => e.id !== id));
-    }, []);
+        updateEdits(prev => prev.some(e => e.id === id) ? prev.filter(e => e.id !== id) : prev);
+    }, [updateEdits]);
 
     const clearAllEdits = useCallback(() => {
-        setPendingEdits([]);
-    }, []);
+        updateEdits(prev => prev.length > 0 ? [] : prev);
+    }, [updateEdits]);
+
+    // A repeated move or layout change of the same section replaces the last one
+    const addStructuralEdit = useCallback((edit: StructuralEdit) => {
+        updateEdits(prev => {
+            const last = prev[prev.length - 1];
+            const repeats = last && last.type === edit.type && last.sectionId === edit.sectionId && !last.stale;
+
+            if (repeats && edit.type === 'move-section') {
+                return [...prev.slice(0, -1), edit];
+            }
+            if (repeats && edit.type === 'change-layout') {
+                const { originalLayout } = last as ChangeLayoutEdit;
+                // Back to where it started
+                if (edit.layout === originalLayout) return prev.slice(0, -1);
+                return [...prev.slice(0, -1), { ...edit, originalLayout }];
+            }
+            return [...prev, edit];
+        });
+    }, [updateEdits]);
+
+    const insertSection = useCallback((afterSectionId: string | null, template: SectionTemplate) => {
+        const sectionId = createSectionId(template.id);
+        addStructuralEdit({
+            id: generateId(),
+            type: 'insert-section',
+            sectionId,
+            afterSectionId,
+            templateId: template.id,
+            node: template.create(sectionId),
+            timestamp: Date.now(),
+        });
+        return sectionId;
+    }, [addStructuralEdit, generateId]);
 
-    const openEquationEditor = useCallback((
-        latex: string,
-        colorMap: Record<string, string> | undefined,
+    const moveSection = useCallback((sectionId: string, afterSectionId: string | null) => {
+        if (sectionId === afterSectionId) return;
+        addStructuralEdit({
+            id: generateId(),
+            type: 'move-section',
+            sectionId,
+            afterSectionId,
+            timestamp: Date.now(),
+        });
+    }, [addStructuralEdit, generateId]);
+
+    const deleteSection = useCallback((sectionId: string) => {
+        addStructuralEdit({
+            id: generateId(),
+            type: 'delete-section',
+            sectionId,
+            timestamp: Date.now(),
+        });
+    }, [addStructuralEdit, generateId]);
+
+    const changeSectionLayout = useCallback((
         sectionId: string,
-        elementPath: string
+        originalLayout: SectionLayoutType,
+        layout: SectionLayoutType,
+        layoutProps?: Record<string, unknown>
     ) => {
-        setEditingEquation({ latex, colorMap, sectionId, elementPath });
+        if (layout === originalLayout) return;
+        addStructuralEdit({
+            id: generateId(),
+            type: 'change-layout',
+            sectionId,
+            originalLayout,
+            layout,
+            layoutProps,
+            timestamp: Date.now(),
+        });
+    }, [addStructuralEdit, generateId]);
+
+    const openEquationEditor = useCallback((equation: EditingEquation) => {
+        setEditingEquation(equation);
     }, []);
 
     const closeEquationEditor = useCallback(() => {
@@ -200,7 +435,10 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
         if (latexChanged || colorMapChanged) {
             addEquationEdit({
                 sectionId: editingEquation.sectionId,
-                componentType: 'Equation', // Will need to detect actual type
+                componentType: editingEquation.componentType,
+                componentProps: editingEquation.componentProps,
+                elementPath: editingEquation.elementPath,
+                source: editingEquation.source,
                 originalLatex: editingEquation.latex,
                 newLatex,
                 colorMap: newColorMap || editingEquation.colorMap,
@@ -210,58 +448,119 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
         setEditingEquation(null);
     }, [editingEquation, addEquationEdit]);
 
+    const restoreRecoveredEdits = useCallback(() => {
+        const restored = reconcileEdits(recoveredEdits);
+        updateEdits(prev => [...restored.filter(edit => !prev.some(e => e.id === edit.id)), ...prev]);
+        setRecoveredEdits([]);
+    }, [recoveredEdits, updateEdits]);
+
+    const discardRecoveredEdits = useCallback(() => {
+        setRecoveredEdits([]);
+    }, []);
+
+    // Load the journal once, before anything is written to it
+    useEffect(() => {
+        if (!isEditor) return;
+        let cancelled = false;
+        loadJournaledEdits(lessonId).then((edits) => {
+            if (cancelled) return;
+            setRecoveredEdits(edits);
+            setIsJournalLoaded(true);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [isEditor, lessonId]);
+
+    // Journal every change (recovered edits stay journaled until restored or discarded)
+    useEffect(() => {
+        if (!isJournalLoaded) return;
+        journalEdits(lessonId, [...recoveredEdits, ...pendingEdits]);
+    }, [isJournalLoaded, lessonId, recoveredEdits, pendingEdits]);
+
     // Notify parent whenever edits change
     useEffect(() => {
-        window.parent.postMessage({
+        postToHost({
             type: 'edits-changed',
             edits: pendingEdits,
             count: pendingEdits.length,
-        }, '*');
+        });
     }, [pendingEdits]);
 
     // Listen for messages from parent
     useEffect(() => {
-        const handleMessage = (event: MessageEvent) => {
-            if (!event.data) return;
-
+        const unsubscribers = [
             // Parent requesting to enable/disable editing
-            if (event.data.type === 'set-editing-mode') {
-                if (event.data.enabled) {
+            onHostMessage('set-editing-mode', ({ enabled }) => {
+                if (enabled) {
                     enableEditing();
                 } else {
                     disableEditing();
                 }
-            }
+            }),
 
-            // Parent requesting to clear edits (after save or discard)
-            if (event.data.type === 'clear-edits') {
-                clearAllEdits();
-            }
+            // Parent requesting to clear edits (after save or discard), so there's nothing to undo either
+            onHostMessage('clear-edits', () => setHistory(EMPTY_HISTORY)),
 
             // Parent requesting current edits
-            if (event.data.type === 'request-edits') {
-                window.parent.postMessage({
+            onHostMessage('request-edits', (message) => {
+                replyToHost(message, {
                     type: 'edits-response',
                     edits: pendingEditsRef.current,
                     count: pendingEditsRef.current.length,
-                }, '*');
+                });
+            }),
+        ];
+
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }, [enableEditing, disableEditing]);
+
+    // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z while editing. Runs before the variable
+    // history shortcuts, which skip events handled here.
+    useEffect(() => {
+        if (!isEditing) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            // Text being typed has its own undo
+            if (!(event.metaKey || event.ctrlKey) || event.altKey || isTextInput(event.target)) return;
+            if (event.key.toLowerCase() !== 'z') return;
+
+            event.preventDefault();
+            if (event.shiftKey) {
+                redo();
+            } else {
+                undo();
             }
         };
 
-        window.addEventListener('message', handleMessage);
-        return () => window.removeEventListener('message', handleMessage);
-    }, [enableEditing, disableEditing, clearAllEdits]);
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [isEditing, undo, redo]);
+
+    const canUndo = history.past.length > 0;
+    const canRedo = history.future.length > 0;
 
     const value = useMemo(() => ({
         isEditing,
         pendingEdits,
         editingEquation,
+        canUndo,
+        canRedo,
+        recoveredEdits,
         enableEditing,
         disableEditing,
         addTextEdit,
         addEquationEdit,
         removeEdit,
         clearAllEdits,
+        undo,
+        redo,
+        restoreRecoveredEdits,
+        discardRecoveredEdits,
+        insertSection,
+        moveSection,
+        deleteSection,
+        changeSectionLayout,
         openEquationEditor,
         closeEquationEditor,
         saveEquationEdit,
@@ -269,12 +568,23 @@ export const EditingProvider = ({ children }: EditingProviderProps) => {
         isEditing,
         pendingEdits,
         editingEquation,
+        canUndo,
+        canRedo,
+        recoveredEdits,
         enableEditing,
         disableEditing,
         addTextEdit,
         addEquationEdit,
         removeEdit,
         clearAllEdits,
+        undo,
+        redo,
+        restoreRecoveredEdits,
+        discardRecoveredEdits,
+        insertSection,
+        moveSection,
+        deleteSection,
+        changeSectionLayout,
         openEquationEditor,
         closeEquationEditor,
         saveEquationEdit,
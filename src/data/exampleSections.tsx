@@ -15,9 +15,12 @@ import {
 } from "@/examples/sections-examples";
 
 // Initialize variables from example variable definitions
-import { useVariableStore } from "@/stores";
-import { getExampleDefaultValues } from "./exampleVariables";
-useVariableStore.getState().initialize(getExampleDefaultValues());
+import { useVariableStore, enableVariablePersistence, enableAssessmentPersistence, syncVariablesWithUrl } from "@/stores";
+import { getExampleDefaultValues, exampleVariableDefinitions } from "./exampleVariables";
+useVariableStore.getState().initialize(getExampleDefaultValues(), exampleVariableDefinitions);
+enableVariablePersistence({ lessonId: "examples" });
+enableAssessmentPersistence({ lessonId: "examples" });
+syncVariablesWithUrl();
 
 
 // Import layout components
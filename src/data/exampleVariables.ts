@@ -22,6 +22,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 1,
         type: 'number',
         label: 'Amplitude',
+        group: 'Wave',
         description: 'The maximum displacement of the wave from its equilibrium position',
         min: 0.1,
         max: 5,
@@ -31,6 +32,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 1,
         type: 'number',
         label: 'Frequency',
+        group: 'Wave',
         description: 'The number of complete cycles per second',
         unit: 'Hz',
         min: 0.1,
@@ -41,6 +43,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 0,
         type: 'number',
         label: 'Phase',
+        group: 'Wave',
         description: 'The horizontal shift of the wave',
         unit: '°',
         min: 0,
@@ -51,6 +54,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 1,
         type: 'number',
         label: 'Wavelength',
+        group: 'Wave',
         description: 'The distance between successive crests of the wave',
         unit: 'm',
         min: 0.1,
@@ -61,6 +65,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 'sine',
         type: 'select',
         label: 'Wave Type',
+        group: 'Wave',
         description: 'The type of wave function to use',
         options: ['sine', 'cosine', 'square', 'sawtooth'],
     },
@@ -72,6 +77,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 'Interactive Lesson',
         type: 'text',
         label: 'Title',
+        group: 'Text',
         description: 'The title displayed in the header',
         placeholder: 'Enter a title...',
     },
@@ -79,6 +85,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: '',
         type: 'text',
         label: 'User Input',
+        group: 'Text',
         description: 'Free-form text input from the user',
         placeholder: 'Type something...',
     },
@@ -86,12 +93,14 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 'y = sin(x)',
         type: 'text',
         label: 'Equation Label',
+        group: 'Text',
         description: 'Label for the current equation being displayed',
     },
     selectedOption: {
         defaultValue: 'option1',
         type: 'select',
         label: 'Selected Option',
+        group: 'Text',
         description: 'Currently selected option from a dropdown',
         options: ['option1', 'option2', 'option3'],
     },
@@ -103,6 +112,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 0,
         type: 'number',
         label: 'x',
+        group: 'Math',
         description: 'General purpose x coordinate or value',
         min: -10,
         max: 10,
@@ -112,6 +122,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 0,
         type: 'number',
         label: 'y',
+        group: 'Math',
         description: 'General purpose y coordinate or value',
         min: -10,
         max: 10,
@@ -121,6 +132,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 0,
         type: 'number',
         label: 'Time (t)',
+        group: 'Math',
         description: 'Time parameter for animations',
         unit: 's',
         min: 0,
@@ -135,12 +147,14 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: true,
         type: 'boolean',
         label: 'Show Grid',
+        group: 'Display',
         description: 'Whether to display the grid lines',
     },
     isAnimating: {
         defaultValue: false,
         type: 'boolean',
         label: 'Animating',
+        group: 'Display',
         description: 'Whether an animation is currently running',
     },
 
@@ -151,6 +165,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 1,
         type: 'number',
         label: 'Mass',
+        group: 'Physics',
         description: 'Mass of an object',
         unit: 'kg',
         min: 0.1,
@@ -161,6 +176,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 0,
         type: 'number',
         label: 'Velocity',
+        group: 'Physics',
         description: 'Speed in a given direction',
         unit: 'm/s',
         min: -50,
@@ -171,6 +187,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: 9.8,
         type: 'number',
         label: 'Acceleration',
+        group: 'Physics',
         description: 'Rate of change of velocity',
         unit: 'm/s²',
         min: -20,
@@ -185,12 +202,14 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: [0, 1, 4, 9, 16, 25],
         type: 'array',
         label: 'Data Points',
+        group: 'Data',
         description: 'Array of Y values for plotting (x is index)',
     },
     coefficients: {
         defaultValue: [1, 0, 0],
         type: 'array',
         label: 'Polynomial Coefficients',
+        group: 'Data',
         description: 'Coefficients [a, b, c] for ax² + bx + c',
     },
 
@@ -201,6 +220,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         defaultValue: { x: 0, y: 0 },
         type: 'object',
         label: 'Point',
+        group: 'Objects',
         description: 'A 2D point coordinate',
         schema: '{ x: number, y: number }',
     },
@@ -214,6 +234,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         },
         type: 'object',
         label: 'Graph Settings',
+        group: 'Objects',
         description: 'Configuration for graph viewport and display',
         schema: '{ xMin: number, xMax: number, yMin: number, yMax: number, showAxes: boolean }',
     },
@@ -226,6 +247,7 @@ export const exampleVariableDefinitions: Record<string, VariableDefinition> = {
         },
         type: 'object',
         label: 'Current Annotation',
+        group: 'Objects',
         description: 'The currently selected/editing annotation',
         schema: '{ id: string, text: string, position: { x: number, y: number }, color: string }',
     },
@@ -4,9 +4,13 @@ import { FullWidthLayout, SplitLayout } from "@/components/layouts";
 import { Heading } from "@/components/molecules/Heading";
 
 // Initialize variables from this file's variable definitions
-import { useVariableStore } from "@/stores";
-import { getDefaultValues } from "./variables";
-useVariableStore.getState().initialize(getDefaultValues());
+import { useVariableStore, enableVariablePersistence, syncVariablesWithUrl } from "@/stores";
+import { getDefaultValues, variableDefinitions } from "./variables";
+useVariableStore.getState().initialize(getDefaultValues(), variableDefinitions);
+
+// Restore slider positions from the last visit, then let a shared link override them
+enableVariablePersistence({ lessonId: "eigenvalues" });
+syncVariablesWithUrl();
 
 // Import section components
 import { EigenvaluesIntroContent, EigenvaluesIntroViz } from "./sections/EigenvaluesIntro";
@@ -9,6 +9,8 @@ import { type ReactElement } from 'react';
 import { Section } from '@/components/templates';
 import { SplitLayout, FullWidthLayout } from '@/components/layouts';
 import { useVar, useSetVar } from '@/stores';
+import { VariableHistoryControls } from '@/components/molecules/VariableHistoryControls';
+import { VariablePanel } from '@/components/molecules/VariablePanel';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/atoms/ui/card';
 import { Slider } from '@/components/atoms/ui/slider';
 import { Label } from '@/components/atoms/ui/label';
@@ -133,6 +135,14 @@ const ControlPanel = () => {
                         onValueChange={([v]) => setVar('phase', v)}
                     />
                 </div>
+
+                <hr className="my-4" />
+
+                {/* History */}
+                <div className="space-y-2">
+                    <Label>History</Label>
+                    <VariableHistoryControls />
+                </div>
             </CardContent>
         </Card>
     );
@@ -306,12 +316,44 @@ const DemoMain = () => (
     </SplitLayout>
 );
 
+const DemoAutoPanel = () => (
+    <SplitLayout ratio="1:1" gap="lg">
+        <Section id="store-demo-auto-panel" padding="md">
+            <Card>
+                <CardHeader>
+                    <CardTitle>⚙️ Generated Panel</CardTitle>
+                    <CardDescription>
+                        {'<VariablePanel names={[...]} />'} builds the controls from variables.ts
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <VariablePanel names={['amplitude', 'frequency', 'phase', 'waveType', 'showGrid']} />
+                </CardContent>
+            </Card>
+        </Section>
+        <Section id="store-demo-auto-panel-data" padding="md">
+            <Card>
+                <CardHeader>
+                    <CardTitle>🧩 Arrays & Objects</CardTitle>
+                    <CardDescription>
+                        List and object editors follow each variable's schema
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <VariablePanel names={['coefficients', 'point', 'graphSettings']} />
+                </CardContent>
+            </Card>
+        </Section>
+    </SplitLayout>
+);
+
 /**
  * All demo sections
  */
 export const storeDemoSections: ReactElement[] = [
     <DemoHeader key="store-demo-header" />,
     <DemoMain key="store-demo-main" />,
+    <DemoAutoPanel key="store-demo-auto-panel" />,
 ];
 
 export default storeDemoSections;
@@ -1,17 +1,21 @@
-import { useState, useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { Section } from "@/components/templates";
 import { SplitLayout } from "@/components/layouts";
 import { Heading } from "@/components/molecules/Heading";
 import { Paragraph } from "@/components/molecules/Paragraph";
 import { Slider } from "@/components/atoms/ui/slider";
+import { VariableHistoryControls } from "@/components/molecules/VariableHistoryControls";
+import { useVar, useSetVar, useVariableStore } from "@/stores";
 
 /**
  * Interactive Matrix Transformation Visualization
  */
 const MatrixViz = ({
     matrix,
+    det,
 }: {
     matrix: { a: number; b: number; c: number; d: number };
+    det: number;
 }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -148,7 +152,6 @@ const MatrixViz = ({
         });
 
         // Determinant info
-        const det = matrix.a * matrix.d - matrix.b * matrix.c;
         ctx.fillStyle = "#6b7280";
         ctx.font = "13px system-ui";
         ctx.fillText(`det(A) = ${det.toFixed(2)}`, 10, height - 30);
@@ -160,7 +163,7 @@ const MatrixViz = ({
             ctx.fillStyle = "#f97316";
             ctx.fillText("Space is being squished!", 10, height - 10);
         }
-    }, [matrix]);
+    }, [matrix, det]);
 
     return (
         <canvas
@@ -176,10 +179,23 @@ const MatrixViz = ({
  * Full Transformation Explorer Section with shared state
  */
 export const TransformationExplorerFull = () => {
-    const [matrix, setMatrix] = useState({ a: 1, b: 0, c: 0, d: 1 });
+    // Matrix entries live in the shared store (see variables.ts) so they
+    // survive reloads and can be shared via the URL
+    const a = useVar("a", 1);
+    const b = useVar("b", 0);
+    const c = useVar("c", 0);
+    const d = useVar("d", 1);
+    const matrix = useMemo(() => ({ a, b, c, d }), [a, b, c, d]);
+
+    // Derived quantities are computed by the store (see variables.ts)
+    const det = useVar("det", 1);
+    const eigenvalues = useVar<number[]>("eigenvalues", [1, 1]);
+
+    const setVar = useSetVar();
+    const setVariables = useVariableStore((state) => state.setVariables);
 
     const handleMatrixChange = (key: "a" | "b" | "c" | "d", value: number) => {
-        setMatrix((prev) => ({ ...prev, [key]: value }));
+        setVar(key, value);
     };
 
     const presets = [
@@ -214,6 +230,12 @@ export const TransformationExplorerFull = () => {
                                 [ {matrix.c.toFixed(1)} , {matrix.d.toFixed(1)} ]
                             </span>
                         </div>
+                        <div className="mt-3 text-center text-sm text-muted-foreground">
+                            det(A) = {det.toFixed(2)} ·{" "}
+                            {eigenvalues.length > 0
+                                ? `λ = ${eigenvalues.map((v) => v.toFixed(2)).join(", ")}`
+                                : "complex eigenvalues (rotation)"}
+                        </div>
                     </div>
 
                     {/* Sliders */}
@@ -243,7 +265,7 @@ export const TransformationExplorerFull = () => {
                             {presets.map((preset) => (
                                 <button
                                     key={preset.name}
-                                    onClick={() => setMatrix(preset.values)}
+                                    onClick={() => setVariables(preset.values)}
                                     className="px-3 py-1.5 text-sm bg-muted hover:bg-muted/80 rounded-md transition-colors"
                                 >
                                     {preset.name}
@@ -251,13 +273,16 @@ export const TransformationExplorerFull = () => {
                             ))}
                         </div>
                     </div>
+
+                    {/* History */}
+                    <VariableHistoryControls />
                 </div>
             </Section>
 
             <Section id="transform-viz">
                 <div className="space-y-4">
                     <Heading level={3}>Live Transformation</Heading>
-                    <MatrixViz matrix={matrix} />
+                    <MatrixViz matrix={matrix} det={det} />
 
                     <div className="bg-muted/50 p-3 rounded-lg text-sm">
                         <p className="font-medium mb-1">What to observe:</p>
@@ -13,11 +13,22 @@ import {
     Whisper,
     Stepper,
     Toggle,
+    Scrubber,
     FillBlank,
     MultiChoice,
+    Sortable,
     Linked,
     Trigger,
+    Focus,
+    DragWord,
+    DropZone,
+    DragDropProvider,
+    Movable,
 } from '@/components/annotations';
+import { Paragraph } from '@/components/molecules/Paragraph';
+import { LessonProgress } from '@/components/molecules/LessonProgress';
+import { CoordinateSystem } from '@/components/atoms/CoordinateSystem';
+import { useVar } from '@/stores';
 
 // Demo visualization component for Linked annotations
 const LinkedVisualization = ({ activeId }: { activeId: string | null }) => (
@@ -124,6 +135,29 @@ export const annotationsDemoSections = [
                         with equal sides. Click to cycle through options!
                     </p>
                 </div>
+
+                {/* Scrubber */}
+                <div className="p-4 bg-fuchsia-50 rounded-lg">
+                    <h4 className="font-medium mb-2">Scrubber (Continuous values)</h4>
+                    <p className="text-lg leading-relaxed">
+                        A pendulum of length{' '}
+                        <Scrubber initialValue={1.5} min={0.1} max={5} step={0.05} />{' '}
+                        meters swings more slowly as it gets longer. Drag the number left or right
+                        (Shift for coarse, Alt for fine steps).
+                    </p>
+                </div>
+
+                {/* Bound to the variable store */}
+                <div className="p-4 bg-fuchsia-50 rounded-lg">
+                    <h4 className="font-medium mb-2">Bound to store variables (bind=&quot;...&quot;)</h4>
+                    <p className="text-lg leading-relaxed">
+                        A <Toggle bind="waveType" /> wave with amplitude{' '}
+                        <Stepper bind="amplitude" formatValue={(v) => v.toFixed(1)} /> and frequency{' '}
+                        <Stepper bind="frequency" formatValue={(v) => `${v.toFixed(1)} Hz`} />, grid{' '}
+                        <Toggle bind="showGrid" options={['hidden', 'shown']} />. These stay in sync with
+                        the variable store demo.
+                    </p>
+                </div>
             </div>
         </Section>
     </FullWidthLayout>,
@@ -142,6 +176,12 @@ export const annotationsDemoSections = [
                         <FillBlank correctAnswer="90" placeholder="???" />{' '}
                         degrees. Type your answer!
                     </p>
+                    <p className="text-lg leading-relaxed mt-2">
+                        In radians that is{' '}
+                        <FillBlank correctAnswer="π/2" math accept={{ value: 1.571, tolerance: 0.005 }} />
+                        , and expanding 2(x + 3) − 5 gives{' '}
+                        <FillBlank correctAnswer="2x + 1" math />. Try "pi/2" or "1 + 2x".
+                    </p>
                 </div>
 
                 {/* MultiChoice */}
@@ -157,6 +197,57 @@ export const annotationsDemoSections = [
                         – except in three dimensions!
                     </p>
                 </div>
+
+                {/* Hints and solutions */}
+                <div className="p-4 bg-blue-50 rounded-lg">
+                    <h4 className="font-medium mb-2">Hints, feedback and solutions</h4>
+                    <p className="text-lg leading-relaxed">
+                        For a 2×2 matrix with rows (a, b) and (c, d), the determinant is{' '}
+                        <MultiChoice
+                            correctAnswer="ad − bc"
+                            options={['a + d', 'ad − bc', 'ab − cd', 'ac − bd']}
+                            feedback={{
+                                'a + d': "That's the trace, not the determinant.",
+                                'ab − cd': 'Close – multiply along the diagonals instead of the rows.',
+                            }}
+                            hints={['Multiply along the diagonals.', 'The main diagonal comes first, then subtract.']}
+                            solutionLatex="\det\begin{pmatrix} a & b \\ c & d \end{pmatrix} = ad - bc"
+                            solutionAfter={3}
+                        />
+                        , and the determinant of rows (2, 1) and (4, 3) is{' '}
+                        <FillBlank
+                            correctAnswer="2"
+                            hints={['Use ad − bc.', { content: 'a = 2, b = 1, c = 4, d = 3', after: 2 }]}
+                            solution="2 · 3 − 1 · 4 = 6 − 4 = 2"
+                        />
+                        .
+                    </p>
+                </div>
+
+                {/* Sortable */}
+                <div className="p-4 bg-blue-50 rounded-lg">
+                    <h4 className="font-medium mb-2">Sortable (Ordering exercise)</h4>
+                    <p className="text-lg leading-relaxed">
+                        From smallest to largest:{' '}
+                        <Sortable items={['1/3', '0.5', '2/3', '0.9']} />
+                    </p>
+                    <p className="text-lg leading-relaxed mt-4">Order the steps of finding eigenvalues:</p>
+                    <Sortable
+                        layout="block"
+                        items={[
+                            'Write the equation det(A − λI) = 0',
+                            'Expand the determinant into the characteristic polynomial',
+                            'Solve the polynomial for λ',
+                            'Substitute each λ back to find its eigenvectors',
+                        ]}
+                    />
+                </div>
+
+                {/* Learner progress across every validatable component */}
+                <div className="p-4 bg-blue-50 rounded-lg">
+                    <h4 className="font-medium mb-2">LessonProgress (Scores from every quiz in the lesson)</h4>
+                    <LessonProgress />
+                </div>
             </div>
         </Section>
     </FullWidthLayout>,
@@ -180,11 +271,160 @@ export const annotationsDemoSections = [
                         and watch the magic happen!
                     </p>
                 </div>
+
+                {/* Focus */}
+                <FocusDemoSection />
+            </div>
+        </Section>
+    </FullWidthLayout>,
+
+    // Draggable Category
+    <FullWidthLayout key="draggable-demo">
+        <Section id="draggable-annotations">
+            <h3 className="text-xl font-semibold mb-4 text-indigo-600">✋ Draggable Annotations</h3>
+
+            <div className="space-y-6">
+                <DragWordDemoSection />
+                <DiagramLabelDemoSection />
+                <MovableDemoSection />
             </div>
         </Section>
     </FullWidthLayout>,
 ];
 
+// Drag words into the blanks of a sentence
+function DragWordDemoSection() {
+    const [isComplete, setIsComplete] = useState(false);
+
+    return (
+        <div className="p-4 bg-indigo-50 rounded-lg">
+            <h4 className="font-medium mb-2">DragWord + DropZone (Fill the blanks)</h4>
+            <DragDropProvider onChange={(_, isCorrect) => setIsComplete(isCorrect)}>
+                <Paragraph className="text-lg leading-relaxed" enableMath={false}>
+                    An eigenvector keeps its <DropZone zoneId="blank-direction" accepts="direction" />{' '}
+                    when the matrix is applied; it is only{' '}
+                    <DropZone zoneId="blank-scaled" accepts="scaled" /> by the{' '}
+                    <DropZone zoneId="blank-eigenvalue" accepts="eigenvalue" />.
+                </Paragraph>
+                <div className="flex flex-wrap gap-2 mt-3">
+                    <DragWord dragId="scaled">scaled</DragWord>
+                    <DragWord dragId="rotated">rotated</DragWord>
+                    <DragWord dragId="eigenvalue">eigenvalue</DragWord>
+                    <DragWord dragId="direction">direction</DragWord>
+                    <DragWord dragId="determinant">determinant</DragWord>
+                </div>
+            </DragDropProvider>
+            <p className="text-sm text-muted-foreground mt-3">
+                {isComplete ? '✓ All blanks are correct!' : 'Drag a word, or click it and then click a blank.'}
+            </p>
+        </div>
+    );
+}
+
+// Drag a point on a grid (bound to the `point` variable) and a free card
+function MovableDemoSection() {
+    const point = useVar('point', { x: 0, y: 0 });
+
+    return (
+        <div className="p-4 bg-indigo-50 rounded-lg">
+            <h4 className="font-medium mb-2">Movable (Constrained dragging)</h4>
+            <div className="flex flex-wrap gap-6">
+                <div>
+                    <div className="relative rounded-lg bg-white" style={{ width: 400, height: 300 }}>
+                        <CoordinateSystem width={400} height={300} gridSpacing={40} showLabels={false} />
+                        <Movable
+                            bind="point"
+                            anchor="center"
+                            coordinates={{ origin: { x: 200, y: 150 }, unit: 40 }}
+                            snap={0.5}
+                            constrain
+                        >
+                            P
+                        </Movable>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-2">
+                        P = ({point.x}, {point.y}) – snaps to half units and drives the <code>point</code> variable.
+                    </p>
+                </div>
+                <div>
+                    <div className="relative rounded-lg bg-white" style={{ width: 240, height: 300 }}>
+                        <Movable initialPosition={{ x: 16, y: 16 }} constrain>
+                            Drag me anywhere
+                        </Movable>
+                        <Movable initialPosition={{ x: 16, y: 240 }} axis="x" snap={20} constrain>
+                            ↔ Only sideways
+                        </Movable>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// Drag labels onto a diagram
+function DiagramLabelDemoSection() {
+    return (
+        <div className="p-4 bg-indigo-50 rounded-lg">
+            <h4 className="font-medium mb-2">DropZone on a diagram (Label the parts)</h4>
+            <DragDropProvider>
+                <div className="relative h-48 rounded-lg bg-white">
+                    <svg viewBox="0 0 300 180" className="absolute inset-0 h-full w-full">
+                        <circle cx="150" cy="90" r="60" fill="none" stroke="#6366F1" strokeWidth="2" />
+                        <line x1="150" y1="90" x2="210" y2="90" stroke="#6366F1" strokeWidth="2" />
+                        <circle cx="150" cy="90" r="3" fill="#6366F1" />
+                    </svg>
+                    <div className="absolute left-[52%] top-[38%]">
+                        <DropZone zoneId="label-radius" accepts="radius" />
+                    </div>
+                    <div className="absolute left-[38%] top-[52%]">
+                        <DropZone zoneId="label-center" accepts="center" />
+                    </div>
+                    <div className="absolute right-4 top-4">
+                        <DropZone zoneId="label-circumference" accepts="circumference" />
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-3">
+                    <DragWord dragId="circumference">circumference</DragWord>
+                    <DragWord dragId="center">center</DragWord>
+                    <DragWord dragId="radius">radius</DragWord>
+                </div>
+            </DragDropProvider>
+        </div>
+    );
+}
+
+// Damped wave used as the Focus target
+const dampedWavePath = Array.from({ length: 121 }, (_, i) => {
+    const x = i * 5;
+    const y = 100 - 80 * Math.exp(-i / 40) * Math.sin(i / 4);
+    return `${i === 0 ? 'M' : 'L'}${x},${y.toFixed(1)}`;
+}).join(' ');
+
+function FocusDemoSection() {
+    return (
+        <div className="p-4 bg-emerald-50 rounded-lg">
+            <h4 className="font-medium mb-2">Focus (Zoom into a visual)</h4>
+            <p className="text-lg leading-relaxed">
+                The wave starts with{' '}
+                <Focus target="#focus-demo-plot" zoomLevel={2.5} point={{ x: 0.1, y: 0.5 }}>
+                    large swings
+                </Focus>{' '}
+                but by{' '}
+                <Focus target="#focus-demo-plot" zoomLevel={3} point={{ x: 0.9, y: 0.5 }}>
+                    the right-hand end
+                </Focus>{' '}
+                it has almost died out.
+            </p>
+            <div className="mt-3 rounded-lg bg-white">
+                <svg id="focus-demo-plot" viewBox="0 0 600 200" className="block w-full h-48">
+                    <line x1="0" y1="100" x2="600" y2="100" stroke="#e5e7eb" />
+                    <path d={dampedWavePath} fill="none" stroke="#10B981" strokeWidth="2" />
+                </svg>
+            </div>
+        </div>
+    );
+}
+
 // Separate component for Linked demo to manage state
 function LinkedDemoSection() {
     const [activeId, setActiveId] = useState<string | null>(null);
@@ -33,14 +33,24 @@ export interface VariableDefinition {
     min?: number;
     /** Maximum value (for number sliders) */
     max?: number;
-    /** Step increment (for number sliders) */
+    /** Step increment (for number sliders) - writes are snapped to it */
     step?: number;
+    /** What to do with numbers outside min/max: clamp them (default) or reject the write */
+    outOfRange?: 'clamp' | 'reject';
     /** Options for 'select' type variables */
     options?: string[];
     /** Placeholder text for text inputs */
     placeholder?: string;
-    /** Schema hint for object types (for AI agents) */
+    /** Schema hint for object types (for AI agents) - also drives the VariablePanel object editor */
     schema?: string;
+    /** Group heading for this variable in VariablePanel */
+    group?: string;
+    /**
+     * Makes this a computed (read-only) variable derived from others.
+     * Every variable read inside is tracked as a dependency; `defaultValue`
+     * is only used if the computation fails.
+     */
+    compute?: (vars: Record<string, VarValue>) => VarValue;
 }
 
 /**
@@ -67,12 +77,94 @@ export interface VariableDefinition {
  * 
  * 6. OBJECT (complex data):
  *    { defaultValue: { x: 5, y: 10 }, type: 'object', schema: '{ x: number, y: number }' }
+ * 
+ * 7. COMPUTED (derived from other variables, read-only):
+ *    { defaultValue: 1, type: 'number', compute: ({ a, b, c, d }) => Number(a) * Number(d) - Number(b) * Number(c) }
+ * 
+ * Add `group: 'Wave'` to show related variables together in <VariablePanel />.
  */
 export const variableDefinitions: Record<string, VariableDefinition> = {
     // ========================================
     // ADD YOUR VARIABLES HERE
     // ========================================
 
+    // ─────────────────────────────────────────
+    // TRANSFORMATION MATRIX A = [[a, b], [c, d]]
+    // Shared by the Transformation Explorer sections
+    // ─────────────────────────────────────────
+    a: {
+        defaultValue: 1,
+        type: 'number',
+        label: 'a',
+        group: 'Matrix A',
+        description: 'Top-left entry of the 2×2 transformation matrix (x-component of î)',
+        min: -2,
+        max: 2,
+        step: 0.01,
+    },
+    b: {
+        defaultValue: 0,
+        type: 'number',
+        label: 'b',
+        group: 'Matrix A',
+        description: 'Top-right entry of the 2×2 transformation matrix (x-component of ĵ)',
+        min: -2,
+        max: 2,
+        step: 0.01,
+    },
+    c: {
+        defaultValue: 0,
+        type: 'number',
+        label: 'c',
+        group: 'Matrix A',
+        description: 'Bottom-left entry of the 2×2 transformation matrix (y-component of î)',
+        min: -2,
+        max: 2,
+        step: 0.01,
+    },
+    d: {
+        defaultValue: 1,
+        type: 'number',
+        label: 'd',
+        group: 'Matrix A',
+        description: 'Bottom-right entry of the 2×2 transformation matrix (y-component of ĵ)',
+        min: -2,
+        max: 2,
+        step: 0.01,
+    },
+
+    // Derived quantities of A - read with useVar('det', 1) etc., never set directly
+    det: {
+        defaultValue: 1,
+        type: 'number',
+        label: 'det(A)',
+        group: 'Derived',
+        description: 'Determinant of A: ad − bc (computed)',
+        compute: ({ a, b, c, d }) => Number(a) * Number(d) - Number(b) * Number(c),
+    },
+    trace: {
+        defaultValue: 2,
+        type: 'number',
+        label: 'tr(A)',
+        group: 'Derived',
+        description: 'Trace of A: a + d (computed)',
+        compute: ({ a, d }) => Number(a) + Number(d),
+    },
+    eigenvalues: {
+        defaultValue: [1, 1],
+        type: 'array',
+        label: 'Eigenvalues',
+        group: 'Derived',
+        description: 'Real eigenvalues of A, largest first; empty when they are complex (computed)',
+        compute: (vars) => {
+            const trace = Number(vars.trace);
+            const discriminant = trace * trace - 4 * Number(vars.det);
+            if (discriminant < 0) return [];
+            const root = Math.sqrt(discriminant);
+            return [(trace + root) / 2, (trace - root) / 2];
+        },
+    },
+
     // Uncomment and modify these examples for your lesson:
 
     /*
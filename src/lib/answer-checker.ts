@@ -0,0 +1,408 @@
+/**
+ * Answer Checker
+ * --------------
+ * Shared answer checking for the text-entry quizzes (FillBlank,
+ * InlineTextInput). An answer is correct when it matches any of the
+ * accepted rules:
+ *
+ * - text:       "circle"                      case-insensitive by default, whitespace-tolerant
+ * - number:     { value: 90, unit: "deg" }    "90", "90°", "90 degrees" and "π/2" all match
+ *               { value: 3.14, tolerance: 0.01 }
+ * - regex:      /^(x|y)-?axis$/i  or  { pattern: "^(x|y)-?axis$", flags: "i" }  (JSON-safe)
+ * - expression: { expression: "2x+1" }        "1+2x", "2*x + 1" and "x+x+1" all match
+ *
+ * Text rules match exactly (up to case and whitespace). With the `math`
+ * option, text rules that look numeric ("90°", "π/2", "0.5") are also
+ * compared as numbers, and ones that look algebraic ("2x+1") as
+ * expressions, so `correctAnswer="90°"` accepts "π/2".
+ *
+ * Numbers and expressions are read by a small parser: + - * / ^, implicit
+ * multiplication (2x, 3(x+1)), parentheses, scientific notation (1e3), π/pi,
+ * e, √ and common functions (sqrt, sin, cos, tan, ln, log, exp, abs).
+ * Variables are single Latin or Greek letters (x, λ); multi-letter names that
+ * are not functions are products of variables (xy = x·y).
+ */
+
+export type AnswerRule =
+    | string
+    | RegExp
+    | { pattern: string; flags?: string }
+    | { value: number; unit?: string; tolerance?: number }
+    | { expression: string };
+
+export interface AnswerCheckOptions {
+    /** Compare text case-sensitively (default: false) */
+    caseSensitive?: boolean;
+    /** Default absolute tolerance for numeric rules (default: 1e-9, relative to the value) */
+    tolerance?: number;
+    /** Also compare text rules as numbers and expressions (default: false) */
+    math?: boolean;
+}
+
+// ============================================================================
+// Expression parser
+// ============================================================================
+
+type Evaluate = (variables: Record<string, number>) => number;
+
+interface CompiledExpression {
+    evaluate: Evaluate;
+    /** Free variables (single Latin or Greek letters) */
+    variables: Set<string>;
+    /** Whether the expression mentions π (used to read unitless angles as radians) */
+    usesPi: boolean;
+}
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    ln: Math.log,
+    log: Math.log10,
+    exp: Math.exp,
+    abs: Math.abs,
+};
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    "π": Math.PI,
+    e: Math.E,
+};
+
+// Longest first, so "sqrt" isn't read as s·q·r·t and "exp" wins over "e"
+const KNOWN_NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].sort((a, b) => b.length - a.length);
+
+type Token =
+    | { type: "number"; value: number }
+    | { type: "name"; value: string }
+    | { type: "op"; value: string };
+
+const tokenize = (source: string): Token[] | null => {
+    const text = source
+        .replace(/[−–]/g, "-")
+        .replace(/[×·]/g, "*")
+        .replace(/÷/g, "/")
+        .replace(/\*\*/g, "^");
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(text.slice(i));
+        if (number) {
+            tokens.push({ type: "number", value: parseFloat(number[0]) });
+            i += number[0].length;
+            continue;
+        }
+
+        // Latin and Greek letters (the Greek block includes π)
+        const word = /^[a-zA-Zα-ωΑ-Ω]+/.exec(text.slice(i));
+        if (word) {
+            // Split a run of letters into known names and single-letter variables
+            let rest = word[0];
+            while (rest.length > 0) {
+                const name = KNOWN_NAMES.find((known) => rest.startsWith(known)) ?? rest[0];
+                tokens.push({ type: "name", value: name });
+                rest = rest.slice(name.length);
+            }
+            i += word[0].length;
+            continue;
+        }
+
+        if ("+-*/^()√".includes(char)) {
+            tokens.push({ type: "op", value: char });
+            i++;
+            continue;
+        }
+
+        return null;
+    }
+    return tokens;
+};
+
+/**
+ * Compile a math expression, or return null when it can't be parsed
+ */
+export const compileExpression = (source: string): CompiledExpression | null => {
+    const tokens = tokenize(source);
+    if (!tokens || tokens.length === 0) return null;
+
+    const variables = new Set<string>();
+    let usesPi = false;
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isOp = (value: string) => peek()?.type === "op" && peek().value === value;
+    // Tokens that can start a factor, for implicit multiplication (2x, x(x+1), 2√3)
+    const startsFactor = () => {
+        const token = peek();
+        return !!token && (token.type !== "op" || token.value === "(" || token.value === "√");
+    };
+
+    const parseExpr = (): Evaluate => {
+        let left = parseTerm();
+        while (isOp("+") || isOp("-")) {
+            const op = tokens[position++].value;
+            const right = parseTerm();
+            const l = left;
+            left = op === "+" ? (v) => l(v) + right(v) : (v) => l(v) - right(v);
+        }
+        return left;
+    };
+
+    const parseTerm = (): Evaluate => {
+        let left = parseUnary();
+        for (;;) {
+            if (isOp("*") || isOp("/")) {
+                const op = tokens[position++].value;
+                const right = parseUnary();
+                const l = left;
+                left = op === "*" ? (v) => l(v) * right(v) : (v) => l(v) / right(v);
+            } else if (startsFactor()) {
+                const right = parsePower();
+                const l = left;
+                left = (v) => l(v) * right(v);
+            } else {
+                return left;
+            }
+        }
+    };
+
+    const parseUnary = (): Evaluate => {
+        if (isOp("-")) {
+            position++;
+            const operand = parseUnary();
+            return (v) => -operand(v);
+        }
+        if (isOp("+")) {
+            position++;
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    const parsePower = (): Evaluate => {
+        const base = parsePrimary();
+        if (!isOp("^")) return base;
+        position++;
+        const exponent = parseUnary();
+        return (v) => Math.pow(base(v), exponent(v));
+    };
+
+    const parsePrimary = (): Evaluate => {
+        const token = tokens[position++];
+        if (!token) throw new Error("Unexpected end");
+
+        if (token.type === "number") {
+            return () => token.value;
+        }
+        if (token.type === "name") {
+            const fn = FUNCTIONS[token.value];
+            if (fn) {
+                // sin(x)^2 is (sin x)^2, while sin x^2 is sin(x^2)
+                const argument = isOp("(") ? parsePrimary() : parsePower();
+                return (v) => fn(argument(v));
+            }
+            if (token.value in CONSTANTS) {
+                if (token.value !== "e") usesPi = true;
+                const value = CONSTANTS[token.value];
+                return () => value;
+            }
+            const name = token.value;
+            variables.add(name);
+            return (v) => v[name] ?? NaN;
+        }
+        if (token.value === "(") {
+            const inner = parseExpr();
+            if (!isOp(")")) throw new Error("Missing )");
+            position++;
+            return inner;
+        }
+        if (token.value === "√") {
+            const argument = parsePower();
+            return (v) => Math.sqrt(argument(v));
+        }
+        throw new Error(`Unexpected ${token.value}`);
+    };
+
+    try {
+        const evaluate = parseExpr();
+        if (position !== tokens.length) return null;
+        return { evaluate, variables, usesPi };
+    } catch {
+        return null;
+    }
+};
+
+// ============================================================================
+// Quantities (number + unit)
+// ============================================================================
+
+interface UnitInfo {
+    dimension: string;
+    /** Multiply by this to convert to the dimension's base unit */
+    factor: number;
+}
+
+const UNITS: Record<string, UnitInfo> = {};
+const defineUnit = (names: string[], dimension: string, factor: number) => {
+    for (const name of names) UNITS[name] = { dimension, factor };
+};
+defineUnit(["°", "deg", "degree", "degrees"], "angle", Math.PI / 180);
+defineUnit(["rad", "rads", "radian", "radians"], "angle", 1);
+defineUnit(["%", "percent"], "ratio", 0.01);
+defineUnit(["mm"], "length", 0.001);
+defineUnit(["cm"], "length", 0.01);
+defineUnit(["m", "meter", "meters", "metre", "metres"], "length", 1);
+defineUnit(["km"], "length", 1000);
+defineUnit(["ms"], "time", 0.001);
+defineUnit(["s", "sec", "second", "seconds"], "time", 1);
+defineUnit(["min", "minute", "minutes"], "time", 60);
+defineUnit(["h", "hr", "hour", "hours"], "time", 3600);
+
+interface Quantity {
+    value: number;
+    unit?: UnitInfo;
+    usesPi: boolean;
+}
+
+/**
+ * Read "90°", "90 degrees", "π/2" or "2.5 km" as a number with an optional unit.
+ * Returns null for anything with free variables or that doesn't parse.
+ */
+export const parseQuantity = (input: string): Quantity | null => {
+    const text = input.trim();
+    const withUnit = /^(.*?)\s*([a-zA-Z°%]+)$/.exec(text);
+    const unit = withUnit ? UNITS[withUnit[2].toLowerCase()] ?? UNITS[withUnit[2]] : undefined;
+    const numberPart = unit && withUnit ? withUnit[1] : text;
+
+    const compiled = compileExpression(numberPart);
+    if (!compiled || compiled.variables.size > 0) return null;
+    const value = compiled.evaluate({});
+    if (!Number.isFinite(value)) return null;
+    return { value, unit, usesPi: compiled.usesPi };
+};
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+const normalizeText = (text: string, caseSensitive: boolean) => {
+    const collapsed = text.trim().replace(/\s+/g, " ");
+    return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+// Only text that contains digits, operators or π is treated as math (so "circle" stays a word)
+const looksMathematical = (text: string) => /[\d+\-*/^()=√π−×·÷]/.test(text);
+
+const checkNumber = (
+    input: string,
+    rule: { value: number; unit?: string; tolerance?: number },
+    defaultTolerance: number | undefined
+): boolean => {
+    const answer = parseQuantity(input);
+    if (!answer) return false;
+
+    const ruleUnit = rule.unit ? UNITS[rule.unit] ?? UNITS[rule.unit.toLowerCase()] : undefined;
+    if (rule.unit && !ruleUnit) {
+        console.warn(`Answer checker: unknown unit "${rule.unit}"`);
+    }
+    const tolerance = rule.tolerance ?? defaultTolerance ?? 1e-9 * Math.max(1, Math.abs(rule.value));
+    const close = (a: number, b: number, tol: number) => Math.abs(a - b) <= tol;
+
+    if (!ruleUnit || !answer.unit) {
+        if (close(answer.value, rule.value, tolerance)) return true;
+        // "50%" for 0.5
+        if (!ruleUnit && answer.unit?.dimension === "ratio") {
+            return close(answer.value * answer.unit.factor, rule.value, tolerance);
+        }
+        // "π/2" for an angle in degrees: read a unitless answer with π as radians
+        return !answer.unit && ruleUnit?.dimension === "angle" && answer.usesPi
+            ? close(answer.value, rule.value * ruleUnit.factor, tolerance * ruleUnit.factor)
+            : false;
+    }
+    if (answer.unit.dimension !== ruleUnit.dimension) return false;
+    return close(answer.value * answer.unit.factor, rule.value * ruleUnit.factor, tolerance * ruleUnit.factor);
+};
+
+// Sample points for comparing expressions - positive and away from 0/1 so sqrt, ln and x^0 behave
+const SAMPLE_POINTS = [0.37, 1.61, 2.23, 0.71, 3.07, 1.29, 2.83, 0.53];
+
+const checkExpression = (input: string, expected: string): boolean => {
+    const a = compileExpression(input);
+    const b = compileExpression(expected);
+    if (!a || !b) return false;
+
+    const names = Array.from(new Set([...a.variables, ...b.variables])).sort();
+    let comparisons = 0;
+    for (let sample = 0; sample < SAMPLE_POINTS.length; sample++) {
+        // Give every variable a different value at every sample
+        const values: Record<string, number> = {};
+        names.forEach((name, i) => {
+            values[name] = SAMPLE_POINTS[(sample + i * 3) % SAMPLE_POINTS.length] * (i + 1);
+        });
+        const x = a.evaluate(values);
+        const y = b.evaluate(values);
+        if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+        if (Math.abs(x - y) > 1e-8 * Math.max(1, Math.abs(x), Math.abs(y))) return false;
+        comparisons++;
+    }
+    return comparisons >= 3;
+};
+
+const checkRule = (input: string, rule: AnswerRule, options: AnswerCheckOptions): boolean => {
+    const caseSensitive = options.caseSensitive ?? false;
+
+    if (rule instanceof RegExp) return rule.test(input.trim());
+    if (typeof rule === "string") {
+        if (normalizeText(input, caseSensitive) === normalizeText(rule, caseSensitive)) return true;
+        if (!options.math || !looksMathematical(rule)) return false;
+        const quantity = parseQuantity(rule);
+        if (quantity) {
+            const unitName = /([a-zA-Z°%]+)$/.exec(rule.trim())?.[1];
+            const numberRule = { value: quantity.value, unit: quantity.unit ? unitName : undefined };
+            // An expression can still simplify to a plain number ("sin(x)^2 + cos(x)^2" for "1")
+            return (
+                checkNumber(input, numberRule, options.tolerance) ||
+                (!quantity.unit && checkExpression(input, rule))
+            );
+        }
+        return checkExpression(input, rule);
+    }
+    if ("pattern" in rule) {
+        try {
+            return new RegExp(rule.pattern, rule.flags).test(input.trim());
+        } catch {
+            console.warn(`Answer checker: invalid pattern "${rule.pattern}"`);
+            return false;
+        }
+    }
+    if ("value" in rule) return checkNumber(input, rule, options.tolerance);
+    return checkExpression(input, rule.expression);
+};
+
+/**
+ * Check an answer against one or more accepted rules
+ *
+ * @example
+ * checkAnswer('π/2', '90°', { math: true });               // true
+ * checkAnswer('π/2', '90°');                               // false (text only)
+ * checkAnswer('1+2x', { expression: '2x+1' });             // true
+ * checkAnswer('3.1', { value: Math.PI, tolerance: 0.05 }); // true
+ * checkAnswer('Circle', ['circle', 'disc']);               // true
+ */
+export const checkAnswer = (
+    input: string,
+    accepted: AnswerRule | AnswerRule[],
+    options: AnswerCheckOptions = {}
+): boolean => {
+    if (input.trim() === "") return false;
+    const rules = Array.isArray(accepted) ? accepted : [accepted];
+    return rules.some((rule) => checkRule(input, rule, options));
+};
@@ -0,0 +1,223 @@
+import { Fragment, type ComponentType } from "react";
+
+// Templates & layouts
+import { Section } from "@/components/templates/Section";
+import { FullWidthLayout, SplitLayout, GridLayout, SidebarLayout, Sidebar, Main } from "@/components/layouts";
+
+// Molecules
+import {
+    Heading,
+    Paragraph,
+    MathBlock,
+    InteractiveTerm,
+    InteractiveEquation,
+    InteractiveParagraph,
+    VariableHistoryControls,
+    VariablePanel,
+    LessonProgress,
+} from "@/components/molecules";
+
+// Atoms
+import { Spacer } from "@/components/atoms/Spacer";
+import { InfoTooltip } from "@/components/atoms/InfoTooltip";
+import { InlineDropdown } from "@/components/atoms/InlineDropdown";
+import { InlineTextInput } from "@/components/atoms/InlineTextInput";
+import { InlineStepper } from "@/components/atoms/InlineStepper";
+import { AnimatedBackground } from "@/components/atoms/AnimatedBackground";
+import { MorphingShapes } from "@/components/atoms/MorphingShapes";
+import { ParticleSystem } from "@/components/atoms/ParticleSystem";
+import { AnimatedGraph } from "@/components/atoms/AnimatedGraph";
+import { CoordinateSystem } from "@/components/atoms/CoordinateSystem";
+import { ThreeCanvas } from "@/components/atoms/ThreeCanvas";
+import { ThreeCoordinateSystem } from "@/components/atoms/ThreeCoordinateSystem";
+import { RotatingCube, PulsingSphere, GeometricCollection, AtomicStructure } from "@/components/atoms/ThreeVisuals";
+import { Equation } from "@/components/atoms/Equation";
+import { ColoredEquationProvider, ColoredEquation, HighlightedTerm, TermReveal } from "@/components/atoms/ColoredEquation";
+import { D3BarChart } from "@/components/atoms/D3BarChart";
+import { MafsBasic } from "@/components/atoms/MafsBasic";
+import { MafsAnimated } from "@/components/atoms/MafsAnimated";
+import { MafsInteractive } from "@/components/atoms/MafsInteractive";
+import { MafsInteractiveDemo } from "@/components/atoms/MafsInteractiveDemo";
+import { FlowDiagram } from "@/components/atoms/FlowDiagram";
+import { ExpandableFlowDiagram } from "@/components/atoms/ExpandableFlowDiagram";
+import { InteractiveHighlightProvider, InteractiveText } from "@/components/atoms/InteractiveHighlight";
+
+// Organisms
+import {
+    DesmosGraph,
+    GeoGebraGraph,
+    InteractiveAnimation,
+    DesmosRenderer,
+    GeogebraRenderer,
+    ExcalidrawRenderer,
+    MermaidRenderer,
+} from "@/components/organisms";
+
+// Annotations
+import {
+    Hoverable,
+    Glossary,
+    Whisper,
+    Stepper,
+    Toggle,
+    Scrubber,
+    FillBlank,
+    MultiChoice,
+    Sortable,
+    Linked,
+    LinkedProvider,
+    Trigger,
+    Focus,
+    DragWord,
+    DropZone,
+    DragDropProvider,
+    Movable,
+} from "@/components/annotations";
+
+/**
+ * Component Registry
+ * ------------------
+ * Maps the component names used in JSON section documents to the actual
+ * React components. Anything that should be usable from a lesson document
+ * (see `src/lib/section-document.ts`) must be registered here.
+ *
+ * New components can be added at runtime with `registerComponent`.
+ */
+
+export type RegisteredComponent = ComponentType<object> | typeof Fragment;
+
+const registry = new Map<string, RegisteredComponent>(Object.entries<RegisteredComponent>({
+    // Structure
+    Fragment,
+    Section,
+
+    // Layouts
+    FullWidthLayout,
+    SplitLayout,
+    GridLayout,
+    SidebarLayout,
+    Sidebar,
+    Main,
+
+    // Molecules
+    Heading,
+    Paragraph,
+    MathBlock,
+    InteractiveTerm,
+    InteractiveEquation,
+    InteractiveParagraph,
+    VariableHistoryControls,
+    VariablePanel,
+    LessonProgress,
+
+    // Atoms
+    Spacer,
+    InfoTooltip,
+    InlineDropdown,
+    InlineTextInput,
+    InlineStepper,
+    AnimatedBackground,
+    MorphingShapes,
+    ParticleSystem,
+    AnimatedGraph,
+    CoordinateSystem,
+    ThreeCanvas,
+    ThreeCoordinateSystem,
+    RotatingCube,
+    PulsingSphere,
+    GeometricCollection,
+    AtomicStructure,
+    Equation,
+    ColoredEquationProvider,
+    ColoredEquation,
+    HighlightedTerm,
+    TermReveal,
+    D3BarChart,
+    MafsBasic,
+    MafsAnimated,
+    MafsInteractive,
+    MafsInteractiveDemo,
+    FlowDiagram,
+    ExpandableFlowDiagram,
+    InteractiveHighlightProvider,
+    InteractiveText,
+
+    // Organisms
+    DesmosGraph,
+    GeoGebraGraph,
+    InteractiveAnimation,
+    DesmosRenderer,
+    GeogebraRenderer,
+    ExcalidrawRenderer,
+    MermaidRenderer,
+
+    // Annotations
+    Hoverable,
+    Glossary,
+    Whisper,
+    Stepper,
+    Toggle,
+    Scrubber,
+    FillBlank,
+    MultiChoice,
+    Sortable,
+    Linked,
+    LinkedProvider,
+    Trigger,
+    Focus,
+    DragWord,
+    DropZone,
+    DragDropProvider,
+    Movable,
+}));
+
+/**
+ * Plain HTML elements that documents may use directly (e.g. "div", "p").
+ * Anything not listed here has to go through a registered component.
+ */
+const INTRINSIC_ELEMENTS = new Set([
+    "div", "span", "p", "br", "hr",
+    "h1", "h2", "h3", "h4", "h5", "h6",
+    "strong", "em", "b", "i", "u", "s", "small", "sub", "sup", "code", "pre", "mark",
+    "ul", "ol", "li", "dl", "dt", "dd",
+    "blockquote", "figure", "figcaption", "a", "img",
+    "table", "thead", "tbody", "tr", "th", "td",
+]);
+
+/**
+ * Register (or override) a component so it can be referenced by name
+ * from a section document.
+ */
+export function registerComponent(name: string, component: RegisteredComponent): void {
+    registry.set(name, component);
+}
+
+/**
+ * Resolve a component name to a renderable element type.
+ * Returns the tag name for allowed HTML elements, or undefined if unknown.
+ */
+export function resolveComponent(name: string): RegisteredComponent | string | undefined {
+    if (INTRINSIC_ELEMENTS.has(name)) return name;
+    return registry.get(name);
+}
+
+/**
+ * Reverse lookup: find the registered name for a component.
+ * Returns the tag name for allowed HTML elements, or undefined if unknown.
+ */
+export function getComponentName(type: unknown): string | undefined {
+    if (typeof type === "string") {
+        return INTRINSIC_ELEMENTS.has(type) ? type : undefined;
+    }
+    for (const [name, component] of registry) {
+        if (component === type) return name;
+    }
+    return undefined;
+}
+
+/**
+ * List all registered component names (for AI agents to discover)
+ */
+export function getRegisteredComponentNames(): string[] {
+    return Array.from(registry.keys());
+}
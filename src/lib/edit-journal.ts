@@ -0,0 +1,150 @@
+/**
+ * Edit Journal
+ * ------------
+ * Keeps the editor's pending edits in IndexedDB, so an editing session
+ * survives a reload of the lesson (HMR, navigation, a crash) before the
+ * host has saved it. Entries are keyed by lesson, section and edit id.
+ *
+ * On load, EditingProvider offers to restore the journaled edits. Restored
+ * edits are checked against the page first: an edit whose element no longer
+ * holds its `originalText` / `originalLatex`, or a structural edit whose
+ * sections are gone, is flagged `stale` instead of being applied.
+ */
+
+import type { PendingEdit } from '@/contexts/EditingContext';
+import { findElementByIdentity } from './element-identity';
+
+const DB_NAME = 'mathvibe-editing';
+const DB_VERSION = 1;
+const STORE_NAME = 'pendingEdits';
+
+interface JournalEntry {
+    lessonId: string;
+    sectionId: string;
+    id: string;
+    edit: PendingEdit;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['lessonId', 'sectionId', 'id'] });
+                store.createIndex('lessonId', 'lessonId');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Fallback journal namespace when the provider gets no lesson id: the page
+ * the lesson is served from. Under HashRouter this is "/" for every lesson on
+ * an origin, so pass an explicit id where the lesson is known.
+ */
+export const getDefaultLessonId = (): string =>
+    typeof window !== 'undefined' ? window.location.pathname : 'default';
+
+/**
+ * Read a lesson's journaled edits (oldest first). Resolves to [] when
+ * IndexedDB can't be used.
+ */
+export const loadJournaledEdits = async (lessonId: string): Promise<PendingEdit[]> => {
+    try {
+        const db = await openDatabase();
+        const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('lessonId');
+        const entries = await requestToPromise(index.getAll(lessonId) as IDBRequest<JournalEntry[]>);
+        return entries.map((entry) => entry.edit).sort((a, b) => a.timestamp - b.timestamp);
+    } catch (err) {
+        console.warn(`Failed to read journaled edits for "${lessonId}":`, err);
+        return [];
+    }
+};
+
+/**
+ * Replace a lesson's journal with `edits` (an empty list clears it)
+ */
+export const journalEdits = async (lessonId: string, edits: PendingEdit[]): Promise<void> => {
+    try {
+        const db = await openDatabase();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const keys = await requestToPromise(store.index('lessonId').getAllKeys(lessonId));
+        keys.forEach((key) => store.delete(key));
+        edits.forEach((edit) => {
+            const entry: JournalEntry = { lessonId, sectionId: edit.sectionId, id: edit.id, edit };
+            store.put(entry);
+        });
+        await new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (err) {
+        console.warn(`Failed to journal edits for "${lessonId}":`, err);
+    }
+};
+
+export const clearJournaledEdits = (lessonId: string): Promise<void> => journalEdits(lessonId, []);
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const findSection = (key: string) =>
+    document.querySelector<HTMLElement>(`[data-section-key="${CSS.escape(key)}"]`);
+
+/**
+ * Whether the page still shows what an edit was made against. Edits whose
+ * element can't be found count as stale too. `insertedSections` are the keys
+ * of sections added by earlier edits (not on the page yet).
+ */
+export const isEditCurrent = (edit: PendingEdit, insertedSections: ReadonlySet<string> = new Set()): boolean => {
+    const hasSection = (key: string) => insertedSections.has(key) || findSection(key) !== null;
+    switch (edit.type) {
+        case 'insert-section':
+            return edit.afterSectionId === null || hasSection(edit.afterSectionId);
+        case 'move-section':
+            return hasSection(edit.sectionId) && (edit.afterSectionId === null || hasSection(edit.afterSectionId));
+        case 'delete-section':
+            return hasSection(edit.sectionId);
+        case 'change-layout':
+            return insertedSections.has(edit.sectionId) ||
+                findSection(edit.sectionId)?.getAttribute('data-section-layout') === edit.originalLayout;
+    }
+
+    const element = findElementByIdentity(edit.elementPath);
+    if (!element) return false;
+    if (edit.type === 'text') {
+        return normalizeText(element.innerText) === normalizeText(edit.originalText);
+    }
+    return element.getAttribute('data-latex') === edit.originalLatex;
+};
+
+/**
+ * Flag the edits that no longer match the page as `stale`
+ */
+export const reconcileEdits = (edits: PendingEdit[]): PendingEdit[] => {
+    const insertedSections = new Set<string>();
+    return edits.map((edit) => {
+        const stale = !isEditCurrent(edit, insertedSections);
+        if (!stale && edit.type === 'insert-section') insertedSections.add(edit.sectionId);
+        return { ...edit, stale };
+    });
+};
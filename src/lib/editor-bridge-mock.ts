@@ -0,0 +1,127 @@
+/**
+ * Mock Editor Host
+ * ----------------
+ * Stands in for the editor app when the lesson runs standalone (not in an
+ * iframe): the lesson then posts to its own window, and the mock host picks
+ * those messages up and can send host messages back.
+ *
+ * In development, open the lesson with `?mockHost` and use
+ * `window.mathvibeHost` from the console:
+ *
+ * await mathvibeHost.request({ type: 'request-edits' });
+ * mathvibeHost.send({ type: 'set-editing-mode', enabled: true });
+ * mathvibeHost.received; // everything the lesson sent
+ */
+
+import {
+    BRIDGE_PROTOCOL_VERSION,
+    HOST_SOURCE,
+    LESSON_SOURCE,
+    createMessageId,
+    type Envelope,
+    type HostMessage,
+    type LessonMessage,
+    type LessonMessageType,
+} from './editor-bridge';
+
+export interface MockHostOptions {
+    /** Protocol version to claim (default: the lesson's own, set higher to test rejection) */
+    protocolVersion?: number;
+    /** Log every message from the lesson to the console (default: false) */
+    log?: boolean;
+}
+
+export interface MockHost {
+    /** Messages received from the lesson, oldest first */
+    received: Envelope<LessonMessage>[];
+    /** Send a message to the lesson; returns its id */
+    send: (message: HostMessage) => string;
+    /** Send a message and wait for the lesson's reply */
+    request: (message: HostMessage, timeoutMs?: number) => Promise<Envelope<LessonMessage>>;
+    /** Listen for one lesson message type; returns an unsubscribe function */
+    on: <K extends LessonMessageType>(
+        type: K,
+        handler: (message: Envelope<Extract<LessonMessage, { type: K }>>) => void
+    ) => () => void;
+    /** Stop listening */
+    dispose: () => void;
+}
+
+export const createMockHost = ({ protocolVersion = BRIDGE_PROTOCOL_VERSION, log = false }: MockHostOptions = {}): MockHost => {
+    const received: Envelope<LessonMessage>[] = [];
+    const listeners = new Set<(message: Envelope<LessonMessage>) => void>();
+
+    const handleMessage = (event: MessageEvent) => {
+        if (event.origin !== window.location.origin) return;
+        const message = event.data as Envelope<LessonMessage> | null;
+        if (!message || message.source !== LESSON_SOURCE) return;
+        received.push(message);
+        if (log) console.log('[mock host] ←', message);
+        listeners.forEach((listener) => listener(message));
+    };
+    window.addEventListener('message', handleMessage);
+
+    const send = (message: HostMessage) => {
+        const id = createMessageId('host');
+        const envelope: Envelope<HostMessage> = { ...message, source: HOST_SOURCE, protocolVersion, id };
+        if (log) console.log('[mock host] →', envelope);
+        window.postMessage(envelope, window.location.origin);
+        return id;
+    };
+
+    const request = (message: HostMessage, timeoutMs = 2000) =>
+        new Promise<Envelope<LessonMessage>>((resolve, reject) => {
+            let id = '';
+            const listener = (reply: Envelope<LessonMessage>) => {
+                if (reply.replyTo !== id) return;
+                listeners.delete(listener);
+                clearTimeout(timer);
+                resolve(reply);
+            };
+            const timer = setTimeout(() => {
+                listeners.delete(listener);
+                reject(new Error(`Mock host: no reply to "${message.type}" within ${timeoutMs}ms`));
+            }, timeoutMs);
+            listeners.add(listener);
+            id = send(message);
+        });
+
+    const on: MockHost['on'] = (type, handler) => {
+        const listener = (message: Envelope<LessonMessage>) => {
+            if (message.type === type) handler(message as Parameters<typeof handler>[0]);
+        };
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    return {
+        received,
+        send,
+        request,
+        on,
+        dispose: () => {
+            window.removeEventListener('message', handleMessage);
+            listeners.clear();
+        },
+    };
+};
+
+declare global {
+    interface Window {
+        mathvibeHost?: MockHost;
+    }
+}
+
+/**
+ * Create a logging mock host on `window.mathvibeHost` when the lesson runs
+ * standalone with `?mockHost` in the URL
+ */
+export const installMockHostFromUrl = () => {
+    if (window.parent !== window) return;
+    if (!new URLSearchParams(window.location.search).has('mockHost')) return;
+    window.mathvibeHost?.dispose();
+    window.mathvibeHost = createMockHost({ log: true });
+    console.info('Mock editor host installed as window.mathvibeHost');
+};
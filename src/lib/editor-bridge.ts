@@ -0,0 +1,342 @@
+/**
+ * Editor Bridge
+ * -------------
+ * The lesson runs in an iframe inside the editor app ("host"). All messages
+ * between the two go through this module:
+ *
+ * - every message type is part of a discriminated union (LessonMessage for
+ *   lesson → host, HostMessage for host → lesson)
+ * - incoming messages are only accepted from allowed origins
+ * - messages carry the protocol version; newer major versions are rejected
+ *   with a `bridge-error` reply, as are messages with invalid fields
+ * - requests carry an `id`, and replies point back to it with `replyTo`
+ *
+ * Usage:
+ *
+ * postToHost({ type: 'section-selected', sectionId: 'intro' });
+ *
+ * useHostMessage('request-edits', (message) => {
+ *     replyToHost(message, { type: 'edits-response', edits, count: edits.length });
+ * });
+ *
+ * Allowed origins default to the embedding page and this page's own origin;
+ * set VITE_BRIDGE_ALLOWED_ORIGINS (comma-separated, `*` for any) or call
+ * configureBridge() to change them. For testing without the editor app, see
+ * editor-bridge-mock.ts.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { PendingEdit } from '@/contexts/EditingContext';
+import type { VariableDefinition } from '@/data/variables';
+import type { SectionProgress, VarValue, VariableViolation } from '@/stores';
+
+/** Bumped when a message changes incompatibly; hosts on another major version are rejected */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+/** Marks who sent a message, so a lesson running standalone ignores its own posts */
+export const LESSON_SOURCE = 'mathvibe-lesson';
+export const HOST_SOURCE = 'mathvibe-host';
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+export interface HierarchyNode {
+    id: string;
+    type: 'section' | 'layout';
+    sectionId?: string;
+    label: string;
+    children: HierarchyNode[];
+    depth: number;
+    /** Validatable items in this section and the ones nested under it (omitted when there are none) */
+    progress?: SectionProgress;
+}
+
+/** A variable definition as sent to the host (`compute` functions can't be posted) */
+export type BridgeVariableDefinition = Omit<VariableDefinition, 'compute'> & {
+    /** Read-only, derived from other variables */
+    computed: boolean;
+};
+
+/** Lesson → host */
+export type LessonMessage =
+    | { type: 'bridge-ready'; supportedVersions: number[] }
+    | { type: 'bridge-error'; error: string }
+    | { type: 'hierarchy-update'; hierarchy: HierarchyNode[] }
+    | { type: 'section-selected'; sectionId: string }
+    | { type: 'selection-cleared' }
+    | { type: 'add-to-chat'; sectionId: string }
+    | { type: 'add-annotation-to-chat'; sectionId: string; imageDataUrl: string }
+    | { type: 'focus-chat' }
+    | { type: 'editing-mode-changed'; isEditing: boolean }
+    | { type: 'edits-changed'; edits: PendingEdit[]; count: number }
+    | { type: 'edits-response'; edits: PendingEdit[]; count: number }
+    | { type: 'variable-definitions'; definitions: Record<string, BridgeVariableDefinition> }
+    | { type: 'variables'; values: Record<string, VarValue> }
+    /** Reply to set-variables: the stored values and any writes that were adjusted or rejected */
+    | { type: 'variables-set'; values: Record<string, VarValue>; violations: VariableViolation[] }
+    /** Sent for a subscribe-variables request (its id is the subscription id) */
+    | { type: 'variables-changed'; subscriptionId: string; values: Record<string, VarValue> };
+
+/** Host → lesson */
+export type HostMessage =
+    | { type: 'request-hierarchy' }
+    | { type: 'scroll-to-section'; sectionId: string | null }
+    | { type: 'highlight-section'; sectionId: string | null; isHovering: boolean }
+    | { type: 'set-editing-mode'; enabled: boolean }
+    | { type: 'clear-edits' }
+    | { type: 'request-edits' }
+    | { type: 'request-variable-definitions' }
+    /** `names` limits the request to some variables (default: all) */
+    | { type: 'request-variables'; names?: string[] }
+    | { type: 'set-variables'; values: Record<string, VarValue> }
+    | { type: 'reset-variables'; names?: string[] }
+    | { type: 'subscribe-variables'; names?: string[] }
+    | { type: 'unsubscribe-variables'; subscriptionId: string };
+
+export type LessonMessageType = LessonMessage['type'];
+export type HostMessageType = HostMessage['type'];
+
+/** Fields added to every message on the wire */
+export interface BridgeEnvelope {
+    source: typeof LESSON_SOURCE | typeof HOST_SOURCE;
+    protocolVersion: number;
+    /** Unique per message; replies refer to it */
+    id: string;
+    /** Id of the request this message answers */
+    replyTo?: string;
+}
+
+export type Envelope<T> = T & BridgeEnvelope;
+
+/** Expected field type; a trailing `?` makes the field optional */
+type FieldType = 'boolean' | 'string' | 'record' | 'string[]';
+
+// Validates the fields of incoming messages (the host is another app, so don't trust the shape)
+const HOST_MESSAGE_FIELDS: Record<HostMessageType, Record<string, FieldType | `${FieldType}?`>> = {
+    'request-hierarchy': {},
+    'scroll-to-section': {},
+    'highlight-section': { isHovering: 'boolean' },
+    'set-editing-mode': { enabled: 'boolean' },
+    'clear-edits': {},
+    'request-edits': {},
+    'request-variable-definitions': {},
+    'request-variables': { names: 'string[]?' },
+    'set-variables': { values: 'record' },
+    'reset-variables': { names: 'string[]?' },
+    'subscribe-variables': { names: 'string[]?' },
+    'unsubscribe-variables': { subscriptionId: 'string' },
+};
+
+const isFieldType = (value: unknown, type: string): boolean => {
+    if (type.endsWith('?')) return value === undefined || isFieldType(value, type.slice(0, -1));
+    if (type === 'record') return typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (type === 'string[]') return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    return typeof value === type;
+};
+
+// ============================================================================
+// Origins
+// ============================================================================
+
+export interface BridgeOptions {
+    /** Origins allowed to send messages (`*` for any) */
+    allowedOrigins?: string[];
+    /** Origin to post to (default: the embedding page, when allowed) */
+    targetOrigin?: string;
+}
+
+let options: BridgeOptions = {};
+
+/**
+ * Change the allowed origins or the target origin (merged with earlier options)
+ */
+export const configureBridge = (next: BridgeOptions) => {
+    options = { ...options, ...next };
+};
+
+const originOf = (url: string): string | null => {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return null;
+    }
+};
+
+/** Origin of the page embedding the lesson, when it can be known */
+export const getHostOrigin = (): string | null => {
+    if (typeof window === 'undefined' || window.parent === window) return null;
+    const ancestors = window.location.ancestorOrigins;
+    if (ancestors && ancestors.length > 0) return ancestors[0];
+    return document.referrer ? originOf(document.referrer) : null;
+};
+
+export const getAllowedOrigins = (): string[] => {
+    if (options.allowedOrigins) return options.allowedOrigins;
+    const fromEnv = import.meta.env.VITE_BRIDGE_ALLOWED_ORIGINS as string | undefined;
+    if (fromEnv) return fromEnv.split(',').map((origin) => origin.trim()).filter(Boolean);
+    return [getHostOrigin(), window.location.origin].filter((origin): origin is string => !!origin);
+};
+
+export const isAllowedOrigin = (origin: string): boolean => {
+    const allowed = getAllowedOrigins();
+    return allowed.includes('*') || allowed.includes(origin);
+};
+
+const getTargetOrigin = (): string | null => {
+    if (options.targetOrigin) return options.targetOrigin;
+    if (window.parent === window) return window.location.origin;
+    const hostOrigin = getHostOrigin();
+    if (hostOrigin && isAllowedOrigin(hostOrigin)) return hostOrigin;
+    // The host's origin is unknown (no referrer): only post when any origin is allowed
+    return getAllowedOrigins().includes('*') ? '*' : null;
+};
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+let messageCount = 0;
+export const createMessageId = (prefix = 'msg') =>
+    `${prefix}-${Date.now().toString(36)}-${(messageCount++).toString(36)}`;
+
+let warnedNoTarget = false;
+
+/**
+ * Send a message to the host. Returns the message id (for correlating a reply).
+ */
+export const postToHost = (message: LessonMessage, replyTo?: string): string => {
+    const id = createMessageId('lesson');
+    if (typeof window === 'undefined') return id;
+
+    const targetOrigin = getTargetOrigin();
+    if (!targetOrigin) {
+        if (!warnedNoTarget) {
+            console.warn('Editor bridge: host origin unknown and not allowed, messages are not sent');
+            warnedNoTarget = true;
+        }
+        return id;
+    }
+
+    const envelope: Envelope<LessonMessage> = {
+        ...message,
+        source: LESSON_SOURCE,
+        protocolVersion: BRIDGE_PROTOCOL_VERSION,
+        id,
+        ...(replyTo ? { replyTo } : {}),
+    };
+    window.parent.postMessage(envelope, targetOrigin);
+    return id;
+};
+
+/**
+ * Answer a host request (the reply's `replyTo` is the request's id)
+ */
+export const replyToHost = (request: Partial<BridgeEnvelope>, message: LessonMessage): string =>
+    postToHost(message, request.id);
+
+// ============================================================================
+// Receiving
+// ============================================================================
+
+type HostHandler<K extends HostMessageType> = (
+    message: Envelope<Extract<HostMessage, { type: K }>>,
+    event: MessageEvent
+) => void;
+
+type AnyHostHandler = (message: Envelope<HostMessage>, event: MessageEvent) => void;
+
+const handlers = new Map<HostMessageType, Set<AnyHostHandler>>();
+let isListening = false;
+
+/**
+ * Read the envelope of an incoming host message (its fields are checked by
+ * getInvalidField). Messages from older hosts without an envelope are
+ * accepted as version 1.
+ */
+export const parseHostMessage = (data: unknown): Envelope<HostMessage> | null => {
+    if (!data || typeof data !== 'object') return null;
+    const message = data as Record<string, unknown>;
+    if (message.source === LESSON_SOURCE) return null;
+    if (typeof message.type !== 'string' || !(message.type in HOST_MESSAGE_FIELDS)) return null;
+
+    return {
+        ...message,
+        source: HOST_SOURCE,
+        protocolVersion: typeof message.protocolVersion === 'number' ? message.protocolVersion : 1,
+        id: typeof message.id === 'string' ? message.id : createMessageId('host'),
+    } as Envelope<HostMessage>;
+};
+
+/**
+ * Name of the first field that doesn't have the expected type, if any
+ */
+export const getInvalidField = (message: Envelope<HostMessage>): string | null => {
+    const fields = HOST_MESSAGE_FIELDS[message.type];
+    const values = message as unknown as Record<string, unknown>;
+    return Object.keys(fields).find((field) => !isFieldType(values[field], fields[field])) ?? null;
+};
+
+const handleMessageEvent = (event: MessageEvent) => {
+    if (!isAllowedOrigin(event.origin)) return;
+    const message = parseHostMessage(event.data);
+    if (!message) return;
+
+    if (Math.floor(message.protocolVersion) !== BRIDGE_PROTOCOL_VERSION) {
+        replyToHost(message, {
+            type: 'bridge-error',
+            error: `Unsupported protocol version ${message.protocolVersion} (supported: ${BRIDGE_PROTOCOL_VERSION})`,
+        });
+        return;
+    }
+
+    const invalidField = getInvalidField(message);
+    if (invalidField) {
+        replyToHost(message, { type: 'bridge-error', error: `"${message.type}" without a valid "${invalidField}"` });
+        return;
+    }
+
+    handlers.get(message.type)?.forEach((handler) => {
+        try {
+            handler(message, event);
+        } catch (err) {
+            console.error(`Editor bridge: "${message.type}" handler failed:`, err);
+            replyToHost(message, { type: 'bridge-error', error: `"${message.type}" failed: ${String(err)}` });
+        }
+    });
+};
+
+/**
+ * Subscribe to a host message type. Returns an unsubscribe function.
+ */
+export const onHostMessage = <K extends HostMessageType>(type: K, handler: HostHandler<K>): (() => void) => {
+    if (!isListening && typeof window !== 'undefined') {
+        window.addEventListener('message', handleMessageEvent);
+        isListening = true;
+        postToHost({ type: 'bridge-ready', supportedVersions: [BRIDGE_PROTOCOL_VERSION] });
+    }
+    let set = handlers.get(type);
+    if (!set) {
+        set = new Set();
+        handlers.set(type, set);
+    }
+    // Only messages of this type are dispatched to it
+    const entry = handler as unknown as AnyHostHandler;
+    set.add(entry);
+    return () => {
+        set.delete(entry);
+    };
+};
+
+/**
+ * Hook version of onHostMessage (the latest handler is always called)
+ *
+ * @example
+ * useHostMessage('scroll-to-section', ({ sectionId }) => scrollTo(sectionId));
+ */
+export const useHostMessage = <K extends HostMessageType>(type: K, handler: HostHandler<K>) => {
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useEffect(() => onHostMessage(type, (message, event) => handlerRef.current(message, event)), [type]);
+};
@@ -0,0 +1,112 @@
+/**
+ * Element Identity
+ * ----------------
+ * Stable keys for editable elements (EditableText, Equation,
+ * HighlightedTerm...), so a pending edit can be matched to the element it
+ * came from and mapped back to the file and line that renders it.
+ *
+ * In order of preference:
+ *
+ * 1. `editId` - an explicit id written in the section file
+ *      <EditableText editId="intro-title">...</EditableText>
+ * 2. `sourceLocation` - "src/data/sections/Intro.tsx:42:9", added to every
+ *    editable component in src/data at build time by the source-locations
+ *    Vite plugin (vite-plugins/source-locations.ts). Elements rendered in a
+ *    loop share one location, so give those an `editId`.
+ * 3. a component-specific fallback (e.g. the DOM path), which breaks when
+ *    content is reordered
+ *
+ * The key is prefixed with the kind ("id:", "src:", "path:"), so the host can
+ * tell how reliable it is.
+ */
+
+/** Props every editable component accepts */
+export interface EditableIdentityProps {
+    /** Explicit, stable id for edits to this element */
+    editId?: string;
+    /** "file:line:column" of the element in its source file (added by the source-locations plugin) */
+    sourceLocation?: string;
+}
+
+export interface SourceLocation {
+    /** Path relative to the project root, e.g. "src/data/sections/Intro.tsx" */
+    file: string;
+    /** 1-based */
+    line: number;
+    /** 1-based */
+    column: number;
+}
+
+export interface ElementIdentity {
+    /** Key used to match edits to elements */
+    key: string;
+    /** How the key was derived */
+    kind: 'id' | 'source' | 'fallback';
+    /** Where the element is written, when known */
+    source?: SourceLocation;
+}
+
+export const formatSourceLocation = ({ file, line, column }: SourceLocation): string => `${file}:${line}:${column}`;
+
+/**
+ * Parse "file:line:column" (returns undefined for anything else)
+ */
+export const parseSourceLocation = (value: string | undefined): SourceLocation | undefined => {
+    if (!value) return undefined;
+    const match = /^(.+):(\d+):(\d+)$/.exec(value);
+    if (!match) return undefined;
+    return { file: match[1], line: Number(match[2]), column: Number(match[3]) };
+};
+
+/**
+ * Resolve an element's identity from its props, falling back to
+ * `fallback()` when it has neither an `editId` nor a source location
+ */
+export const getElementIdentity = (
+    { editId, sourceLocation }: EditableIdentityProps,
+    fallback: () => string
+): ElementIdentity => {
+    const source = parseSourceLocation(sourceLocation);
+    if (editId) return { key: `id:${editId}`, kind: 'id', source };
+    if (source) return { key: `src:${formatSourceLocation(source)}`, kind: 'source', source };
+    return { key: `path:${fallback()}`, kind: 'fallback' };
+};
+
+/**
+ * `tag[index] > ...` path of an element from the body down (the
+ * least stable fallback: changes when siblings are added or reordered)
+ */
+export const getDomPath = (element: HTMLElement | null): string => {
+    const path: string[] = [];
+    let el = element;
+
+    while (el && el !== document.body) {
+        const parent: HTMLElement | null = el.parentElement;
+        if (parent) {
+            const index = Array.from(parent.children).indexOf(el);
+            path.unshift(`${el.tagName.toLowerCase()}[${index}]`);
+        }
+        el = parent;
+    }
+
+    return path.join(' > ');
+};
+
+/**
+ * Find the element an edit was made to, by the `data-edit-key` editable
+ * elements carry in the editor, or by following its DOM path. Returns null
+ * when it isn't on the page.
+ */
+export const findElementByIdentity = (key: string): HTMLElement | null => {
+    const marked = document.querySelector<HTMLElement>(`[data-edit-key="${CSS.escape(key)}"]`);
+    if (marked || !key.startsWith('path:')) return marked;
+
+    let el: Element | null = document.body;
+    for (const segment of key.slice('path:'.length).split(' > ')) {
+        const match = /^([\w-]+)\[(\d+)\]$/.exec(segment);
+        const child: Element | undefined = match ? el?.children[Number(match[2])] : undefined;
+        if (!match || !child || child.tagName.toLowerCase() !== match[1]) return null;
+        el = child;
+    }
+    return el instanceof HTMLElement ? el : null;
+};
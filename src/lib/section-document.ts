@@ -0,0 +1,222 @@
+import { createElement, type ReactElement, type ReactNode } from "react";
+import type { VarValue } from "@/stores";
+import { resolveComponent } from "./component-registry";
+
+/**
+ * Section Document
+ * ----------------
+ * A serializable (JSON) description of a lesson. Each entry in `sections`
+ * is a tree of component nodes that mirrors what would otherwise be written
+ * by hand in `src/data/sections.tsx`:
+ *
+ * {
+ *   "version": 1,
+ *   "sections": [
+ *     {
+ *       "type": "SplitLayout",
+ *       "key": "intro",
+ *       "props": { "ratio": "1:1", "gap": "lg" },
+ *       "children": [
+ *         { "type": "Section", "props": { "id": "intro-text" }, "children": [
+ *           { "type": "Heading", "props": { "level": 2 }, "children": ["Hello"] }
+ *         ] },
+ *         { "type": "Section", "props": { "id": "intro-eq" }, "children": [
+ *           { "type": "Equation", "props": { "latex": "Av = \\lambda v" } }
+ *         ] }
+ *       ]
+ *     }
+ *   ]
+ * }
+ *
+ * Component names are resolved through `src/lib/component-registry.ts`.
+ * Props that hold content (e.g. a Hoverable `tooltip`) can embed nodes
+ * with `{ "$node": <node or array of nodes> }`.
+ */
+
+export const SECTION_DOCUMENT_VERSION = 1;
+
+export interface SectionElementNode {
+    /** Registered component name or allowed HTML tag */
+    type: string;
+    /** Optional React key (used for top-level sections) */
+    key?: string;
+    /** JSON-serializable props */
+    props?: Record<string, unknown>;
+    /** Child nodes */
+    children?: SectionNode[];
+}
+
+export type SectionNode = SectionElementNode | string | number;
+
+/** A prop value that holds renderable content rather than plain data */
+export interface SectionNodeProp {
+    $node: SectionNode | SectionNode[];
+}
+
+export interface SectionDocument {
+    /** Format version (currently 1) */
+    version: number;
+    /** Optional lesson title */
+    title?: string;
+    /** Optional default values for shared variables */
+    variables?: Record<string, VarValue>;
+    /** Top-level sections, rendered in order */
+    sections: SectionElementNode[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isNodeProp = (value: unknown): value is SectionNodeProp =>
+    isPlainObject(value) && "$node" in value;
+
+/**
+ * Validate a single node, throwing a descriptive error on the first problem.
+ */
+function validateNode(node: unknown, path: string): void {
+    if (typeof node === "string" || typeof node === "number") return;
+
+    if (!isPlainObject(node)) {
+        throw new Error(`${path}: expected a node object, string or number`);
+    }
+    if (typeof node.type !== "string" || node.type.length === 0) {
+        throw new Error(`${path}: missing "type"`);
+    }
+    if (node.key !== undefined && typeof node.key !== "string") {
+        throw new Error(`${path}.key: expected a string`);
+    }
+    if (node.props !== undefined) {
+        if (!isPlainObject(node.props)) {
+            throw new Error(`${path}.props: expected an object`);
+        }
+        for (const [name, value] of Object.entries(node.props)) {
+            if (isNodeProp(value)) {
+                const nested = Array.isArray(value.$node) ? value.$node : [value.$node];
+                nested.forEach((child, i) => validateNode(child, `${path}.props.${name}[${i}]`));
+            }
+        }
+    }
+    if (node.children !== undefined) {
+        if (!Array.isArray(node.children)) {
+            throw new Error(`${path}.children: expected an array`);
+        }
+        node.children.forEach((child, i) => validateNode(child, `${path}.children[${i}]`));
+    }
+}
+
+/**
+ * Parse and validate raw JSON into a SectionDocument.
+ * Accepts either a full document or a bare array of sections.
+ */
+export function parseSectionDocument(raw: unknown): SectionDocument {
+    const doc = Array.isArray(raw)
+        ? { version: SECTION_DOCUMENT_VERSION, sections: raw }
+        : raw;
+
+    if (!isPlainObject(doc)) {
+        throw new Error("Section document must be an object or an array of sections");
+    }
+    if (doc.version !== undefined && doc.version !== SECTION_DOCUMENT_VERSION) {
+        throw new Error(`Unsupported section document version: ${String(doc.version)}`);
+    }
+    if (!Array.isArray(doc.sections)) {
+        throw new Error('Section document is missing a "sections" array');
+    }
+    if (doc.variables !== undefined && !isPlainObject(doc.variables)) {
+        throw new Error('"variables" must be an object');
+    }
+
+    doc.sections.forEach((section, i) => {
+        validateNode(section, `sections[${i}]`);
+        if (typeof section !== "object") {
+            throw new Error(`sections[${i}]: top-level sections must be component nodes`);
+        }
+    });
+
+    return {
+        version: SECTION_DOCUMENT_VERSION,
+        title: typeof doc.title === "string" ? doc.title : undefined,
+        variables: doc.variables as Record<string, VarValue> | undefined,
+        sections: doc.sections as SectionElementNode[],
+    };
+}
+
+/** Props that take a URL; only http(s) and relative URLs are passed through */
+const URL_PROPS = new Set(["href", "src", "srcSet", "action", "formAction", "poster", "xlinkHref"]);
+
+/** A URL without a scheme (relative) or with http(s) */
+const isSafeUrl = (value: unknown): boolean => {
+    if (typeof value !== "string") return false;
+    // Browsers ignore whitespace and control characters in the scheme ("java\tscript:")
+    const url = Array.from(value).filter((c) => c.charCodeAt(0) > 0x20).join("");
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+    return !scheme || /^https?$/i.test(scheme[1]);
+};
+
+/** Component props that can turn script back on (Mermaid's `securityLevel: "loose"`) */
+const UNSAFE_COMPONENT_PROPS: Record<string, string[]> = {
+    MermaidRenderer: ["config"],
+};
+
+/**
+ * Documents may come from a remote source, so props that could run script
+ * (raw HTML, event handlers, javascript: URLs, unsafe component options) are dropped.
+ */
+const isUnsafeProp = (type: string, name: string, value: unknown): boolean =>
+    name === "dangerouslySetInnerHTML" ||
+    /^on[A-Z]/.test(name) ||
+    (URL_PROPS.has(name) && !isSafeUrl(value)) ||
+    (UNSAFE_COMPONENT_PROPS[type]?.includes(name) ?? false);
+
+const renderProps = (type: string, props: Record<string, unknown> = {}): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(props)) {
+        if (name === "children") continue;
+        if (isUnsafeProp(type, name, value)) {
+            console.warn(`Dropping unsafe prop "${name}" of "${type}" from section document`);
+            continue;
+        }
+        result[name] = isNodeProp(value) ? renderNodeProp(value) : value;
+    }
+    return result;
+};
+
+const renderNodeProp = ({ $node }: SectionNodeProp): ReactNode => {
+    if (Array.isArray($node)) {
+        return $node.map((child, i) => renderNode(child, `${i}`));
+    }
+    return renderNode($node);
+};
+
+/**
+ * Render a single node to a React element.
+ * Unknown components are skipped with a warning.
+ */
+export function renderNode(node: SectionNode, key?: string): ReactNode {
+    if (typeof node === "string" || typeof node === "number") {
+        return node;
+    }
+
+    const component = resolveComponent(node.type);
+    if (!component) {
+        console.warn(`Unknown component "${node.type}" in section document, skipping`);
+        return null;
+    }
+
+    const children = (node.children ?? []).map((child) => renderNode(child));
+    return createElement(
+        component,
+        { ...renderProps(node.type, node.props), key: node.key ?? key },
+        ...children
+    );
+}
+
+/**
+ * Render every top-level section of a document to React elements,
+ * ready to be passed to SectionRenderer.
+ */
+export function renderSectionDocument(doc: SectionDocument): ReactElement[] {
+    return doc.sections
+        .map((section, index) => renderNode(section, section.key ?? `section-${index}`))
+        .filter((element): element is ReactElement => element !== null);
+}
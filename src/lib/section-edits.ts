@@ -0,0 +1,90 @@
+import { Children, createElement, isValidElement, type ComponentType, type ReactElement, type ReactNode } from "react";
+import { FullWidthLayout, SplitLayout, GridLayout } from "@/components/layouts";
+import type { PendingEdit, SectionLayoutType } from "@/contexts/EditingContext";
+import { renderNode } from "./section-document";
+
+/**
+ * Section Edits
+ * -------------
+ * Replays the editor's structural edits (insert, move, delete, change
+ * layout; see EditingContext) on the top-level sections, so
+ * SectionRenderer can preview them before the host saves the lesson.
+ */
+
+export interface KeyedSection {
+    /** The section's key in the list (its React key) */
+    key: string;
+    element: ReactElement;
+}
+
+const LAYOUTS: Record<SectionLayoutType, ComponentType<{ children: ReactNode }>> = {
+    FullWidthLayout,
+    SplitLayout,
+    GridLayout,
+};
+
+export const SECTION_LAYOUTS = Object.keys(LAYOUTS) as SectionLayoutType[];
+
+export const getSectionKey = (element: ReactElement, index: number): string =>
+    element.key !== null ? String(element.key) : `section-${index}`;
+
+/**
+ * The layout a top-level section is written with, when it can be switched
+ */
+export const getSectionLayout = (element: ReactElement): SectionLayoutType | null =>
+    SECTION_LAYOUTS.find((name) => element.type === LAYOUTS[name]) ?? null;
+
+const insertAfter = (sections: KeyedSection[], section: KeyedSection, afterKey: string | null): KeyedSection[] => {
+    const index = afterKey === null ? 0 : sections.findIndex((s) => s.key === afterKey) + 1;
+    if (afterKey !== null && index === 0) {
+        console.warn(`Section edit: section "${afterKey}" not found, adding "${section.key}" at the end`);
+        return [...sections, section];
+    }
+    return [...sections.slice(0, index), section, ...sections.slice(index)];
+};
+
+/**
+ * Apply the structural edits, in order, to a list of top-level sections.
+ * Text and equation edits and stale edits are skipped.
+ */
+export function applySectionEdits(sections: ReactElement[], edits: PendingEdit[]): KeyedSection[] {
+    let result: KeyedSection[] = sections.map((element, index) => ({ key: getSectionKey(element, index), element }));
+
+    for (const edit of edits) {
+        if (edit.stale) continue;
+
+        switch (edit.type) {
+            case "insert-section": {
+                const element = renderNode(edit.node, edit.sectionId);
+                if (!isValidElement(element)) {
+                    console.warn(`Section edit: template "${edit.templateId}" rendered nothing`);
+                    break;
+                }
+                result = insertAfter(result, { key: edit.sectionId, element }, edit.afterSectionId);
+                break;
+            }
+            case "move-section": {
+                const section = result.find((s) => s.key === edit.sectionId);
+                if (!section) break;
+                result = insertAfter(result.filter((s) => s !== section), section, edit.afterSectionId);
+                break;
+            }
+            case "delete-section":
+                result = result.filter((s) => s.key !== edit.sectionId);
+                break;
+            case "change-layout":
+                result = result.map((s) => {
+                    if (s.key !== edit.sectionId || !getSectionLayout(s.element)) return s;
+                    // toArray keys the children, so they can be passed as an array
+                    const children = Children.toArray(s.element.props.children);
+                    return {
+                        key: s.key,
+                        element: createElement(LAYOUTS[edit.layout], { key: s.key, ...edit.layoutProps, children }),
+                    };
+                });
+                break;
+        }
+    }
+
+    return result;
+}
@@ -7,8 +7,8 @@ export type SectionLoaderConfig = {
   /**
    * Strategy to use for loading sections.
    * - 'module': Import from TypeScript module (supports hot-reload in dev mode)
-   * - 'json-public': Fetch from public folder JSON file (requires restart)
-   * - 'json-api': Fetch from API endpoint (dynamic)
+   * - 'json-public': Fetch a section document from the public folder (see src/lib/section-document.ts)
+   * - 'json-api': Fetch a section document from an API endpoint (dynamic)
    */
   strategy?: 'module' | 'json-public' | 'json-api';
 
@@ -18,7 +18,7 @@ export type SectionLoaderConfig = {
   url?: string;
 
   /**
-   * Enable polling in development mode for file changes
+   * Enable polling in development mode for file changes (JSON strategies only)
    */
   enableDevPolling?: boolean;
 
@@ -28,11 +28,19 @@ export type SectionLoaderConfig = {
   pollingInterval?: number;
 };
 
+/**
+ * Id of the lesson the module strategy loads, the same id its module passes
+ * to the persistence helpers (e.g. `enableVariablePersistence`)
+ */
+export function getModuleLessonId(): string {
+  return import.meta.env.VITE_SHOW_EXAMPLES === 'true' ? 'examples' : 'eigenvalues';
+}
+
 /**
  * Load sections from TypeScript module (supports hot-reload)
  * Returns array of React elements
  */
-async function loadSectionsFromModule(): Promise<ReactElement[]> {
+export async function loadSectionsFromModule(): Promise<ReactElement[]> {
   try {
     // If VITE_SHOW_EXAMPLES is true, load from exampleSections
     if (import.meta.env.VITE_SHOW_EXAMPLES === 'true') {
@@ -51,6 +59,75 @@ async function loadSectionsFromModule(): Promise<ReactElement[]> {
   }
 }
 
+/**
+ * Default URLs for the JSON strategies when none is configured
+ */
+const DEFAULT_JSON_URLS = {
+  'json-public': '/sections.json',
+  'json-api': '/api/sections',
+} as const;
+
+/**
+ * Last raw JSON loaded per URL, so the dev watcher only hot-swaps on real changes
+ */
+const lastLoadedJson = new Map<string, string>();
+
+const resolveJsonUrl = (config: SectionLoaderConfig): string => {
+  const strategy = config.strategy === 'json-api' ? 'json-api' : 'json-public';
+  return config.url || DEFAULT_JSON_URLS[strategy];
+};
+
+const fetchSectionsJson = async (url: string): Promise<string> => {
+  const response = await fetch(url, {
+    cache: 'no-store',
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sections from ${url}: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+};
+
+/**
+ * Turn raw JSON text into React elements via the section document format.
+ * The document module is imported lazily so the module strategy does not
+ * pull the whole component registry into its bundle.
+ */
+const renderSectionsJson = async (text: string): Promise<ReactElement[]> => {
+  const { parseSectionDocument, renderSectionDocument } = await import("./section-document");
+  const doc = parseSectionDocument(JSON.parse(text));
+
+  if (doc.variables) {
+    const { useVariableStore } = await import("@/stores");
+    const store = useVariableStore.getState();
+    // A reloaded document (dev polling) adds its new and changed variables
+    if (store.initialized) {
+      store.setDefaults(doc.variables);
+    } else {
+      store.initialize(doc.variables);
+    }
+  }
+
+  return renderSectionDocument(doc);
+};
+
+/**
+ * Load sections from a JSON section document (public file or API endpoint)
+ * Returns array of React elements
+ */
+async function loadSectionsFromJson(config: SectionLoaderConfig): Promise<ReactElement[]> {
+  const url = resolveJsonUrl(config);
+  try {
+    const text = await fetchSectionsJson(url);
+    const sections = await renderSectionsJson(text);
+    lastLoadedJson.set(url, text);
+    return sections;
+  } catch (err) {
+    console.warn("loadSectionsFromJson error:", err);
+    return [];
+  }
+}
+
 /**
  * Main loader function with configurable strategy
  */
@@ -65,8 +142,7 @@ export async function loadSections(config: SectionLoaderConfig = {}): Promise<Re
 
     case 'json-public':
     case 'json-api':
-      console.warn('JSON strategies are not supported in component-based architecture');
-      return [];
+      return loadSectionsFromJson(config);
 
     default:
       console.warn(`Unknown strategy: ${strategy}, falling back to module`);
@@ -84,8 +160,37 @@ export function createSectionsWatcher(
 ): () => void {
   const {
     strategy = 'module',
+    enableDevPolling = false,
+    pollingInterval = 1000,
   } = config;
 
+  // For JSON strategies, poll the source and hot-swap when its content changes
+  if ((strategy === 'json-public' || strategy === 'json-api') && enableDevPolling) {
+    const url = resolveJsonUrl(config);
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const text = await fetchSectionsJson(url);
+        if (text !== lastLoadedJson.get(url)) {
+          const sections = await renderSectionsJson(text);
+          lastLoadedJson.set(url, text);
+          onUpdate(sections);
+        }
+      } catch (err) {
+        // Keep the current sections on a bad save; try again on the next tick
+        console.warn("Sections polling error:", err);
+      } finally {
+        polling = false;
+      }
+    };
+
+    const timer = setInterval(poll, pollingInterval);
+    return () => clearInterval(timer);
+  }
+
   // For module strategy, Vite HMR handles updates automatically
   // We set up HMR accept for the sections module
   if (strategy === 'module' && import.meta.hot) {
@@ -0,0 +1,267 @@
+import { Fragment, isValidElement, type ReactElement, type ReactNode } from "react";
+import type { VarValue } from "@/stores";
+import { getComponentName } from "./component-registry";
+import {
+    SECTION_DOCUMENT_VERSION,
+    type SectionDocument,
+    type SectionElementNode,
+    type SectionNode,
+} from "./section-document";
+
+/**
+ * Section Serializer
+ * ------------------
+ * The inverse of `renderSectionDocument`: walks rendered section elements
+ * (e.g. the array exported from `src/data/sections.tsx`) and emits a JSON
+ * section document. Anything that cannot survive the round trip — custom
+ * components that are not in the registry, function props, class instances —
+ * is dropped and reported in `issues` so it can be migrated by hand.
+ *
+ * Unregistered function components without hooks (wrappers such as
+ * `SummarySection`) are expanded in place: the serializer calls them and
+ * serializes what they return. Components with hooks or state cannot run
+ * outside React; they are reported and have to be registered (and are then
+ * serialized by name) before the content can move to JSON.
+ */
+
+export interface SerializationIssue {
+    /** Location in the document, e.g. "sections[1].children[0].props.onChange" */
+    path: string;
+    /** Component involved, if known */
+    component?: string;
+    /** Why the value could not be serialized */
+    reason: string;
+}
+
+export interface SerializationResult {
+    document: SectionDocument;
+    issues: SerializationIssue[];
+}
+
+export interface SerializeOptions {
+    /** Optional lesson title */
+    title?: string;
+    /** Optional default values for shared variables */
+    variables?: Record<string, VarValue>;
+}
+
+/**
+ * Props injected by SectionRenderer or by the build (`sourceLocation`, see
+ * vite-plugins/source-locations.ts), never part of authored content
+ */
+const RUNTIME_PROPS = new Set(["children", "isPreview", "onEditSection", "sourceLocation"]);
+
+const describeType = (type: unknown): string => {
+    if (typeof type === "string") return type;
+    if (type === Fragment) return "Fragment";
+    if (typeof type === "function" || (typeof type === "object" && type !== null)) {
+        const named = type as { displayName?: string; name?: string };
+        return named.displayName || named.name || "Anonymous";
+    }
+    return String(type);
+};
+
+/** Plain function components; classes, memo and forwardRef are never expanded */
+const isFunctionComponent = (type: unknown): type is (props: unknown) => ReactNode =>
+    typeof type === "function" &&
+    !(type as { prototype?: { isReactComponent?: unknown } }).prototype?.isReactComponent;
+
+/**
+ * Render a function component by calling it directly. Hooks throw outside
+ * React, which is how stateful components are told apart.
+ */
+const expandComponent = (render: (props: unknown) => ReactNode, props: unknown): { expanded: ReactNode } | null => {
+    // React logs "Invalid hook call" before throwing; the failure is reported as an issue instead
+    const consoleError = console.error;
+    console.error = () => {};
+    try {
+        return { expanded: render(props) };
+    } catch {
+        return null;
+    } finally {
+        console.error = consoleError;
+    }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (typeof value !== "object" || value === null) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Create a serializer that collects issues while walking an element tree
+ */
+const createSerializer = () => {
+    const issues: SerializationIssue[] = [];
+
+    const report = (path: string, reason: string, component?: string) => {
+        issues.push({ path, reason, component });
+    };
+
+    /**
+     * Serialize children, flattening nested arrays, fragments and expanded
+     * components, and dropping empty values
+     */
+    const serializeChildren = (children: ReactNode, path: string): SectionNode[] => {
+        const result: SectionNode[] = [];
+        const visit = (child: ReactNode) => {
+            if (Array.isArray(child)) {
+                child.forEach(visit);
+                return;
+            }
+            if (isValidElement(child) && child.type === Fragment) {
+                visit((child.props as { children?: ReactNode }).children);
+                return;
+            }
+            if (isValidElement(child) && !getComponentName(child.type)) {
+                const expanded = expandElement(child, `${path}[${result.length}]`);
+                if (expanded) visit(expanded.expanded);
+                return;
+            }
+            const node = serializeNode(child, `${path}[${result.length}]`);
+            if (node !== null) result.push(node);
+        };
+        visit(children);
+        return result;
+    };
+
+    const serializeNode = (node: ReactNode, path: string): SectionNode | null => {
+        if (node === null || node === undefined || typeof node === "boolean") return null;
+        if (typeof node === "string" || typeof node === "number") return node;
+        if (isValidElement(node)) return serializeElement(node, path);
+
+        report(path, `Unsupported child of type ${typeof node}`);
+        return null;
+    };
+
+    /** Expand an unregistered component, reporting it when that isn't possible */
+    const expandElement = (element: ReactElement, path: string): { expanded: ReactNode } | null => {
+        const result = isFunctionComponent(element.type) ? expandComponent(element.type, element.props) : null;
+        if (!result) {
+            report(
+                path,
+                "Component is not registered in the component registry and could not be expanded (it uses hooks or state); register it to serialize it by name",
+                describeType(element.type)
+            );
+        }
+        return result;
+    };
+
+    const serializeElement = (element: ReactElement, path: string): SectionElementNode | null => {
+        const name = getComponentName(element.type);
+        if (!name) {
+            report(
+                path,
+                "Component is not registered in the component registry and cannot be round-tripped",
+                describeType(element.type)
+            );
+            return null;
+        }
+
+        const result: SectionElementNode = { type: name };
+        if (typeof element.key === "string") result.key = element.key;
+
+        const props: Record<string, unknown> = {};
+        for (const [prop, value] of Object.entries(element.props as Record<string, unknown>)) {
+            if (RUNTIME_PROPS.has(prop)) continue;
+            const serialized = serializeProp(value, `${path}.props.${prop}`, name);
+            if (serialized !== undefined) props[prop] = serialized;
+        }
+        if (Object.keys(props).length > 0) result.props = props;
+
+        const children = serializeChildren((element.props as { children?: ReactNode }).children, `${path}.children`);
+        if (children.length > 0) result.children = children;
+
+        return result;
+    };
+
+    /** Serialize a prop value; returns undefined when it must be dropped */
+    const serializeProp = (value: unknown, path: string, component: string): unknown => {
+        if (value === undefined) return undefined;
+        if (value === null || typeof value === "string" || typeof value === "boolean") return value;
+        if (typeof value === "number") {
+            if (Number.isFinite(value)) return value;
+            report(path, `Non-finite number ${value} is not valid JSON`, component);
+            return undefined;
+        }
+        if (typeof value === "function") {
+            report(path, "Function props cannot be serialized", component);
+            return undefined;
+        }
+        if (isValidElement(value)) {
+            const nodes = serializeChildren(value, path);
+            if (nodes.length === 0) return undefined;
+            return { $node: nodes.length === 1 ? nodes[0] : nodes };
+        }
+        if (Array.isArray(value)) {
+            if (value.some(isValidElement)) {
+                return { $node: serializeChildren(value as ReactNode, path) };
+            }
+            return value
+                .map((item, i) => serializeProp(item, `${path}[${i}]`, component))
+                .filter((item) => item !== undefined);
+        }
+        if (isPlainObject(value)) {
+            const result: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) {
+                const serialized = serializeProp(item, `${path}.${key}`, component);
+                if (serialized !== undefined) result[key] = serialized;
+            }
+            return result;
+        }
+
+        report(path, `Values of type ${describeType((value as object).constructor ?? typeof value)} cannot be serialized`, component);
+        return undefined;
+    };
+
+    return { issues, serializeChildren, serializeElement };
+};
+
+/**
+ * Serialize rendered section elements into a section document.
+ *
+ * @example
+ * const { document, issues } = serializeSections(sections);
+ * if (issues.length) console.table(issues);
+ * console.log(JSON.stringify(document, null, 2));
+ */
+export function serializeSections(elements: ReactElement[], options: SerializeOptions = {}): SerializationResult {
+    const { issues, serializeChildren } = createSerializer();
+    const sections: SectionElementNode[] = [];
+
+    elements.forEach((element, index) => {
+        const path = `sections[${index}]`;
+        const nodes = serializeChildren(element, path);
+        nodes.forEach((node, i) => {
+            if (typeof node !== "object") {
+                issues.push({ path, reason: "Top-level sections must be component nodes, dropping text" });
+                return;
+            }
+            // An expanded wrapper passes its key on to what it rendered
+            if (node.key === undefined && typeof element.key === "string") {
+                node.key = nodes.length === 1 ? element.key : `${element.key}-${i}`;
+            }
+            sections.push(node);
+        });
+    });
+
+    const document: SectionDocument = {
+        version: SECTION_DOCUMENT_VERSION,
+        ...(options.title ? { title: options.title } : {}),
+        ...(options.variables ? { variables: options.variables } : {}),
+        sections,
+    };
+
+    return { document, issues };
+}
+
+/**
+ * Serialize the lesson currently defined in TSX (src/data/sections.tsx,
+ * or the examples when VITE_SHOW_EXAMPLES is true).
+ */
+export async function exportModuleSections(options: SerializeOptions = {}): Promise<SerializationResult> {
+    const { loadSectionsFromModule } = await import("./section-loader");
+    const sections = await loadSectionsFromModule();
+    return serializeSections(sections, options);
+}
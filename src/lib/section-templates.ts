@@ -0,0 +1,170 @@
+import type { SectionElementNode, SectionNode } from "./section-document";
+
+/**
+ * Section Templates
+ * -----------------
+ * Starter content for sections added from the editor. A template builds the
+ * top-level node of the new section (see `src/lib/section-document.ts`), so
+ * the section can be previewed with `renderNode` and sent to the host as
+ * part of an insert-section edit.
+ *
+ * Templates live in a registry that the section gallery lists. Components
+ * can offer their own starter blocks with `registerSectionTemplate`.
+ */
+
+export interface SectionTemplate {
+    /** Unique template id, recorded with the edit */
+    id: string;
+    /** Name shown to authors */
+    name: string;
+    description?: string;
+    /** Gallery group, e.g. "Text" or "Interactive" */
+    category: string;
+    /** Extra search terms for the gallery */
+    keywords?: string[];
+    /** Top-level node of a new section; `sectionId` is a fresh unique id */
+    create: (sectionId: string) => SectionElementNode;
+}
+
+const templates = new Map<string, SectionTemplate>();
+
+/**
+ * A fresh section id, e.g. "section-lq3k2x9a", not used by any element on the page
+ */
+export const createSectionId = (prefix = "section"): string => {
+    let id: string;
+    do {
+        id = `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    } while (typeof document !== "undefined" && document.getElementById(id));
+    return id;
+};
+
+/**
+ * Register (or override) a template so it shows up in the section gallery.
+ */
+export function registerSectionTemplate(template: SectionTemplate): void {
+    templates.set(template.id, template);
+}
+
+/**
+ * Look up a template by id.
+ */
+export function getSectionTemplate(id: string): SectionTemplate | undefined {
+    return templates.get(id);
+}
+
+/**
+ * All registered templates, in registration order.
+ */
+export function getSectionTemplates(): SectionTemplate[] {
+    return Array.from(templates.values());
+}
+
+/** A full-width row holding a single section */
+const fullWidthSection = (sectionId: string, children: SectionNode[]): SectionElementNode => ({
+    type: "FullWidthLayout",
+    key: sectionId,
+    props: { maxWidth: "xl" },
+    children: [{ type: "Section", props: { id: sectionId }, children }],
+});
+
+/** Heading and paragraph, full width */
+export const blankSectionTemplate: SectionTemplate = {
+    id: "blank",
+    name: "Heading and paragraph",
+    description: "A heading and a paragraph of text",
+    category: "Text",
+    keywords: ["blank", "text", "title"],
+    create: (sectionId) => fullWidthSection(sectionId, [
+        { type: "Heading", props: { level: 2 }, children: ["New section"] },
+        { type: "Paragraph", children: ["Start writing here."] },
+    ]),
+};
+
+const builtInTemplates: SectionTemplate[] = [
+    blankSectionTemplate,
+    {
+        id: "equation-graph",
+        name: "Equation and graph",
+        description: "Split layout with an equation beside an interactive Mafs plot",
+        category: "Interactive",
+        keywords: ["split", "math", "latex", "mafs", "plot", "sine"],
+        create: (sectionId) => ({
+            type: "SplitLayout",
+            key: sectionId,
+            props: { ratio: "1:1", gap: "lg" },
+            children: [
+                {
+                    type: "Section",
+                    props: { id: sectionId },
+                    children: [
+                        { type: "Heading", props: { level: 2 }, children: ["Sine waves"] },
+                        { type: "Paragraph", children: ["Drag the points on the graph to change the wave."] },
+                        { type: "Equation", props: { latex: "y = A \\sin(\\omega x)" } },
+                    ],
+                },
+                {
+                    type: "Section",
+                    props: { id: `${sectionId}-graph` },
+                    children: [{ type: "MafsInteractive" }],
+                },
+            ],
+        }),
+    },
+    {
+        id: "quiz",
+        name: "Quiz question",
+        description: "A paragraph with a fill-in-the-blank answer",
+        category: "Quiz",
+        keywords: ["question", "fill", "blank", "answer", "check"],
+        create: (sectionId) => fullWidthSection(sectionId, [
+            { type: "Heading", props: { level: 3 }, children: ["Check your understanding"] },
+            {
+                type: "Paragraph",
+                children: [
+                    "A right angle has exactly ",
+                    { type: "FillBlank", props: { correctAnswer: "90", placeholder: "???" } },
+                    " degrees.",
+                ],
+            },
+        ]),
+    },
+    {
+        id: "flow-diagram",
+        name: "Flow diagram",
+        description: "Three connected steps",
+        category: "Diagrams",
+        keywords: ["flow", "chart", "process", "steps", "nodes"],
+        create: (sectionId) => fullWidthSection(sectionId, [
+            { type: "Heading", props: { level: 2 }, children: ["How it works"] },
+            {
+                type: "FlowDiagram",
+                props: {
+                    height: 300,
+                    nodes: [
+                        { id: "input", label: "Input", position: { x: 0, y: 100 }, type: "input" },
+                        { id: "process", label: "Process", position: { x: 250, y: 100 } },
+                        { id: "output", label: "Output", position: { x: 500, y: 100 }, type: "output" },
+                    ],
+                    edges: [
+                        { id: "input-process", source: "input", target: "process", animated: true },
+                        { id: "process-output", source: "process", target: "output", animated: true },
+                    ],
+                },
+            },
+        ]),
+    },
+    {
+        id: "desmos-graph",
+        name: "Desmos graph",
+        description: "An interactive graph of a function",
+        category: "Diagrams",
+        keywords: ["desmos", "graph", "plot", "function", "calculator"],
+        create: (sectionId) => fullWidthSection(sectionId, [
+            { type: "Heading", props: { level: 2 }, children: ["Graph"] },
+            { type: "DesmosGraph", props: { latex: "y = x^2", height: 400 } },
+        ]),
+    },
+];
+
+builtInTemplates.forEach(registerSectionTemplate);
@@ -3,11 +3,21 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 import { initializeTheme, setupThemeListener } from "./lib/theme.ts";
+import { installMockHostFromUrl } from "./lib/editor-bridge-mock.ts";
+import { exposeVariablesToHost } from "./stores";
 
 // Initialize theme before rendering
 initializeTheme();
 setupThemeListener();
 
+// Let the editor app read and set lesson variables
+exposeVariablesToHost();
+
+// Standalone testing of the editor integration: open with ?mockHost
+if (import.meta.env.DEV) {
+  installMockHostFromUrl();
+}
+
 const Root = import.meta.env.PROD ? (
   <StrictMode>
     <App />
@@ -0,0 +1,127 @@
+/**
+ * Assessment Persistence
+ * ----------------------
+ * Opt-in: keeps learner progress (answers, attempts, timing) in
+ * localStorage so a learner resumes where they left off. Storage is
+ * namespaced by lesson, like the variable persistence.
+ *
+ * Usage (next to enableVariablePersistence in your sections file):
+ *
+ * enableAssessmentPersistence({ lessonId: 'eigenvalues' });
+ */
+
+import { useAssessmentStore, type AssessmentItem } from './assessmentStore';
+import { getStorage, persistChanges, stopPersisting } from './storagePersistence';
+
+export interface AssessmentPersistenceOptions {
+    /** Namespace for this lesson's saved progress */
+    lessonId: string;
+    /** Storage backend (default: localStorage) */
+    storage?: Storage;
+    /** Delay before writing after a change, in ms (default: 300) */
+    debounceMs?: number;
+}
+
+const STORAGE_PREFIX = 'mathvibe:assessment:';
+
+/**
+ * Storage key used for a lesson's progress
+ */
+export const getAssessmentPersistenceKey = (lessonId: string): string => `${STORAGE_PREFIX}${lessonId}`;
+
+const isAssessmentItem = (value: unknown): value is AssessmentItem => {
+    if (typeof value !== 'object' || value === null) return false;
+    const item = value as AssessmentItem;
+    return (
+        typeof item.id === 'string' &&
+        typeof item.kind === 'string' &&
+        typeof item.sectionId === 'string' &&
+        typeof item.attempts === 'number' &&
+        (item.answer === null || typeof item.answer === 'string') &&
+        typeof item.isCorrect === 'boolean' &&
+        (item.firstTryCorrect === null || typeof item.firstTryCorrect === 'boolean') &&
+        typeof item.firstSeenAt === 'number' &&
+        (item.timeToAnswerMs === null || typeof item.timeToAnswerMs === 'number')
+    );
+};
+
+/**
+ * Read the saved progress for a lesson (malformed entries are dropped)
+ */
+export const loadPersistedAssessment = (lessonId: string, storage?: Storage): Record<string, AssessmentItem> => {
+    const store = getStorage(storage);
+    if (!store) return {};
+
+    try {
+        const raw = store.getItem(getAssessmentPersistenceKey(lessonId));
+        if (!raw) return {};
+
+        const saved = JSON.parse(raw);
+        if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return {};
+
+        const items: Record<string, AssessmentItem> = {};
+        const rejected: string[] = [];
+        for (const [id, item] of Object.entries(saved)) {
+            if (isAssessmentItem(item) && item.id === id) items[id] = item;
+            else rejected.push(id);
+        }
+        if (rejected.length > 0) {
+            console.warn(`Ignoring invalid saved progress for "${lessonId}":`, rejected);
+        }
+        return items;
+    } catch (err) {
+        console.warn(`Failed to read saved progress for "${lessonId}":`, err);
+        return {};
+    }
+};
+
+/**
+ * Remove the saved progress for a lesson
+ */
+export const clearPersistedAssessment = (lessonId: string, storage?: Storage): void => {
+    try {
+        getStorage(storage)?.removeItem(getAssessmentPersistenceKey(lessonId));
+    } catch {
+        // Storage unavailable (private mode, quota...) - nothing to clear
+    }
+};
+
+/**
+ * Restore saved progress into the store and keep saving on every change.
+ * Returns a cleanup function that stops saving.
+ */
+export const enableAssessmentPersistence = ({
+    lessonId,
+    storage,
+    debounceMs = 300,
+}: AssessmentPersistenceOptions): (() => void) => {
+    stopPersisting(getAssessmentPersistenceKey(lessonId));
+
+    const restored = loadPersistedAssessment(lessonId, storage);
+    if (Object.keys(restored).length > 0) {
+        // Saved progress wins over items registered before persistence was enabled
+        useAssessmentStore.getState().setItems({ ...useAssessmentStore.getState().items, ...restored });
+    }
+
+    return persistChanges({
+        key: getAssessmentPersistenceKey(lessonId),
+        storage,
+        debounceMs,
+        subscribe: (onChange) =>
+            useAssessmentStore.subscribe((state, prev) => {
+                if (state.items !== prev.items) onChange();
+            }),
+        save: (store) => {
+            const { items } = useAssessmentStore.getState();
+            try {
+                if (Object.keys(items).length === 0) {
+                    store.removeItem(getAssessmentPersistenceKey(lessonId));
+                } else {
+                    store.setItem(getAssessmentPersistenceKey(lessonId), JSON.stringify(items));
+                }
+            } catch (err) {
+                console.warn(`Failed to save progress for "${lessonId}":`, err);
+            }
+        },
+    });
+};
@@ -0,0 +1,292 @@
+/**
+ * Assessment Store
+ * ----------------
+ * Lesson-level record of every validatable component (FillBlank,
+ * MultiChoice, Sortable, DragDropProvider, InlineDropdown,
+ * InlineTextInput): how often the
+ * learner tried, whether the first try was right and how long it took.
+ * Answers outlive the component, so scrolling away or a re-render doesn't
+ * lose them, and with enableAssessmentPersistence() they survive a reload.
+ *
+ * Usage (inside a validatable component):
+ *
+ * const assessment = useAssessment({ id, kind: 'FillBlank', answerKey: correctAnswer });
+ * <span ref={assessment.ref}>...</span>
+ * assessment.record(value, isCorrect);   // on every submitted answer
+ * assessment.clear();                    // when the learner clears it
+ *
+ * Reading progress:
+ *
+ * const summary = useAssessmentSummary();
+ * summary.correct / summary.total;
+ * summary.sections['eigen-intro'].complete;
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { create } from 'zustand';
+
+export type AssessmentKind =
+    | 'FillBlank'
+    | 'MultiChoice'
+    | 'Sortable'
+    | 'DragDrop'
+    | 'InlineDropdown'
+    | 'InlineTextInput';
+
+export interface AssessmentItem {
+    /** Item id (the component's `id`, or derived from its section, kind and answer) */
+    id: string;
+    /** Component that reported it */
+    kind: AssessmentKind;
+    /** `data-section-id` of the enclosing section ('' outside any section) */
+    sectionId: string;
+    /** Submitted answers so far */
+    attempts: number;
+    /** Latest answer (null while unanswered or after clearing) */
+    answer: string | null;
+    /** Whether the latest answer is correct */
+    isCorrect: boolean;
+    /** Whether the first answer was correct (null until answered) */
+    firstTryCorrect: boolean | null;
+    /** When the learner first saw it (ms since epoch) */
+    firstSeenAt: number;
+    /** Time from first seen to the first correct answer, in ms (null until solved) */
+    timeToAnswerMs: number | null;
+}
+
+export interface SectionProgress {
+    /** Items in the section */
+    total: number;
+    /** Items currently answered correctly */
+    correct: number;
+    /** Every item answered correctly */
+    complete: boolean;
+}
+
+export interface AssessmentSummary extends SectionProgress {
+    /** Items with an answer (right or wrong) */
+    answered: number;
+    /** Items whose first answer was right */
+    firstTryCorrect: number;
+    /** Submitted answers across all items */
+    attempts: number;
+    /** Mean time to the first correct answer, in ms (null when nothing is solved) */
+    averageTimeToAnswerMs: number | null;
+    /** Progress per section id */
+    sections: Record<string, SectionProgress>;
+}
+
+interface AssessmentState {
+    /** All items seen in this lesson, by id */
+    items: Record<string, AssessmentItem>;
+
+    /** Ids registered by a mounted component this session (restored items may be orphaned) */
+    registered: Record<string, true>;
+
+    /** Add an item the first time it is shown (no-op when it already exists) */
+    register: (id: string, info: { kind: AssessmentKind; sectionId: string }) => void;
+
+    /** Record a submitted answer */
+    recordAttempt: (id: string, answer: string, isCorrect: boolean) => void;
+
+    /** Forget the latest answer (attempts and timing are kept) */
+    clearAnswer: (id: string) => void;
+
+    /** Replace all items (e.g. when restoring saved progress) */
+    setItems: (items: Record<string, AssessmentItem>) => void;
+
+    /** Start over: clear answers, attempts and timing of every item */
+    reset: () => void;
+}
+
+export const useAssessmentStore = create<AssessmentState>()((set) => ({
+    items: {},
+    registered: {},
+
+    register: (id, { kind, sectionId }) => {
+        set((state) => {
+            const existing = state.items[id];
+            const registered = state.registered[id] ? state.registered : { ...state.registered, [id]: true as const };
+            if (existing && existing.kind === kind && existing.sectionId === sectionId) {
+                return registered === state.registered ? state : { registered };
+            }
+            return {
+                registered,
+                items: {
+                    ...state.items,
+                    [id]: existing
+                        // Restored items keep their history; the section may have been renamed
+                        ? { ...existing, kind, sectionId }
+                        : {
+                            id,
+                            kind,
+                            sectionId,
+                            attempts: 0,
+                            answer: null,
+                            isCorrect: false,
+                            firstTryCorrect: null,
+                            firstSeenAt: Date.now(),
+                            timeToAnswerMs: null,
+                        },
+                },
+            };
+        });
+    },
+
+    recordAttempt: (id, answer, isCorrect) => {
+        set((state) => {
+            const item = state.items[id];
+            if (!item) {
+                console.warn(`Assessment: answer recorded for unregistered item "${id}"`);
+                return state;
+            }
+            return {
+                items: {
+                    ...state.items,
+                    [id]: {
+                        ...item,
+                        attempts: item.attempts + 1,
+                        answer,
+                        isCorrect,
+                        firstTryCorrect: item.firstTryCorrect ?? isCorrect,
+                        timeToAnswerMs:
+                            item.timeToAnswerMs ?? (isCorrect ? Date.now() - item.firstSeenAt : null),
+                    },
+                },
+            };
+        });
+    },
+
+    clearAnswer: (id) => {
+        set((state) => {
+            const item = state.items[id];
+            if (!item || item.answer === null) return state;
+            return { items: { ...state.items, [id]: { ...item, answer: null, isCorrect: false } } };
+        });
+    },
+
+    setItems: (items) => set({ items }),
+
+    reset: () => {
+        set((state) => {
+            const now = Date.now();
+            const items: Record<string, AssessmentItem> = {};
+            for (const [id, item] of Object.entries(state.items)) {
+                items[id] = {
+                    ...item,
+                    attempts: 0,
+                    answer: null,
+                    isCorrect: false,
+                    firstTryCorrect: null,
+                    firstSeenAt: now,
+                    timeToAnswerMs: null,
+                };
+            }
+            return { items };
+        });
+    },
+}));
+
+/**
+ * Summarize items into lesson and per-section progress. Only `registered`
+ * items count: saved progress of a quiz that was removed or whose answer
+ * changed would otherwise keep its section from ever being complete.
+ */
+export const getAssessmentSummary = (
+    items: Record<string, AssessmentItem>,
+    registered: Record<string, true>
+): AssessmentSummary => {
+    const all = Object.values(items).filter((item) => registered[item.id]);
+    const sections: Record<string, SectionProgress> = {};
+    for (const item of all) {
+        const section = sections[item.sectionId] ?? { total: 0, correct: 0, complete: false };
+        sections[item.sectionId] = section;
+        section.total++;
+        if (item.isCorrect) section.correct++;
+    }
+    for (const section of Object.values(sections)) {
+        section.complete = section.correct === section.total;
+    }
+
+    const solveTimes = all.map((item) => item.timeToAnswerMs).filter((ms): ms is number => ms !== null);
+    const correct = all.filter((item) => item.isCorrect).length;
+
+    return {
+        total: all.length,
+        correct,
+        complete: all.length > 0 && correct === all.length,
+        answered: all.filter((item) => item.answer !== null).length,
+        firstTryCorrect: all.filter((item) => item.firstTryCorrect).length,
+        attempts: all.reduce((sum, item) => sum + item.attempts, 0),
+        averageTimeToAnswerMs:
+            solveTimes.length > 0 ? solveTimes.reduce((sum, ms) => sum + ms, 0) / solveTimes.length : null,
+        sections,
+    };
+};
+
+/**
+ * Hook for lesson progress (re-renders when any answer changes)
+ *
+ * @example
+ * const { correct, total } = useAssessmentSummary();
+ */
+export const useAssessmentSummary = (): AssessmentSummary => {
+    const items = useAssessmentStore((state) => state.items);
+    const registered = useAssessmentStore((state) => state.registered);
+    return useMemo(() => getAssessmentSummary(items, registered), [items, registered]);
+};
+
+/**
+ * Hook that connects a validatable component to the store. Attach `ref` to
+ * the component's root element: the item is registered once it is mounted,
+ * under the section it sits in. Give the component an `id` to tell apart two
+ * items with the same answer in one section.
+ *
+ * @example
+ * const assessment = useAssessment({ id, kind: 'MultiChoice', answerKey: correctAnswer });
+ * const saved = assessment.item?.answer; // restore after a reload
+ * const showHint = assessment.wrongAttempts >= 2;
+ */
+export const useAssessment = ({
+    id,
+    kind,
+    answerKey,
+}: {
+    id?: string;
+    kind: AssessmentKind;
+    answerKey: string;
+}) => {
+    const [sectionId, setSectionId] = useState<string | null>(null);
+    const itemId = sectionId === null ? null : id ?? `${sectionId || 'lesson'}:${kind}:${answerKey}`;
+
+    const register = useAssessmentStore((state) => state.register);
+    const item = useAssessmentStore((state) => (itemId ? state.items[itemId] : undefined));
+
+    // Components swap their root element between states; the first one mounted decides the section
+    const ref = useCallback(
+        (element: HTMLElement | null) => {
+            if (!element || itemId) return;
+            const section = element.closest('[data-section-id]')?.getAttribute('data-section-id') ?? '';
+            const nextId = id ?? `${section || 'lesson'}:${kind}:${answerKey}`;
+            register(nextId, { kind, sectionId: section });
+            setSectionId(section);
+        },
+        [itemId, id, kind, answerKey, register]
+    );
+
+    const record = useCallback(
+        (answer: string, isCorrect: boolean) => {
+            if (itemId) useAssessmentStore.getState().recordAttempt(itemId, answer, isCorrect);
+        },
+        [itemId]
+    );
+
+    const clear = useCallback(() => {
+        if (itemId) useAssessmentStore.getState().clearAnswer(itemId);
+    }, [itemId]);
+
+    // The correct answer counts as an attempt too
+    const wrongAttempts = item ? item.attempts - (item.isCorrect ? 1 : 0) : 0;
+
+    return { ref, item, record, clear, wrongAttempts };
+};
@@ -0,0 +1,132 @@
+/**
+ * Computed Variables
+ * ------------------
+ * Variables whose value is a function of other variables, declared in
+ * variables.ts with `compute`:
+ *
+ * det: {
+ *     defaultValue: 1,
+ *     type: 'number',
+ *     compute: ({ a, b, c, d }) => Number(a) * Number(d) - Number(b) * Number(c),
+ * },
+ *
+ * Dependencies are tracked automatically: every variable read inside
+ * `compute` is recorded, and the value is recomputed whenever one of them
+ * changes. Computed variables may depend on other computed variables;
+ * a cycle (det → trace → det) throws a ComputedCycleError.
+ */
+
+import type { VariableDefinition } from '@/data/variables';
+import type { VarValue } from './variableStore';
+
+/**
+ * Thrown when computed variables depend on each other in a loop
+ */
+export class ComputedCycleError extends Error {
+    /** The variables forming the cycle, first name repeated at the end */
+    readonly cycle: string[];
+
+    constructor(cycle: string[]) {
+        super(`Cycle detected in computed variables: ${cycle.join(' → ')}`);
+        this.name = 'ComputedCycleError';
+        this.cycle = cycle;
+    }
+}
+
+/**
+ * Whether a definition describes a computed variable
+ */
+export const isComputed = (definition?: VariableDefinition): boolean =>
+    typeof definition?.compute === 'function';
+
+/**
+ * Names of all computed variables in a set of definitions
+ */
+export const getComputedNames = (definitions: Record<string, VariableDefinition>): string[] =>
+    Object.keys(definitions).filter((name) => isComputed(definitions[name]));
+
+/**
+ * Find every computed variable affected by a change to `changed`,
+ * following dependencies transitively.
+ */
+export const getAffectedComputed = (
+    changed: string[],
+    dependencies: Record<string, string[]>
+): string[] => {
+    const affected = new Set<string>();
+    const queue = [...changed];
+
+    while (queue.length > 0) {
+        const name = queue.shift()!;
+        for (const [computed, deps] of Object.entries(dependencies)) {
+            if (!affected.has(computed) && deps.includes(name)) {
+                affected.add(computed);
+                queue.push(computed);
+            }
+        }
+    }
+
+    return Array.from(affected);
+};
+
+/**
+ * Evaluate computed variables.
+ *
+ * @param variables - Current values (inputs)
+ * @param definitions - Variable definitions
+ * @param targets - Computed variables to (re)evaluate
+ * @returns New values and the dependencies recorded for each target
+ * @throws ComputedCycleError if the targets depend on each other in a loop
+ */
+export const evaluateComputed = (
+    variables: Record<string, VarValue>,
+    definitions: Record<string, VariableDefinition>,
+    targets: string[]
+): { values: Record<string, VarValue>; dependencies: Record<string, string[]> } => {
+    const pending = new Set(targets.filter((name) => isComputed(definitions[name])));
+    const values: Record<string, VarValue> = {};
+    const dependencies: Record<string, string[]> = {};
+    const stack: string[] = [];
+
+    const read = (name: string): VarValue => {
+        if (name in values) return values[name];
+        if (pending.has(name)) return evaluate(name);
+        return variables[name];
+    };
+
+    const evaluate = (name: string): VarValue => {
+        const index = stack.indexOf(name);
+        if (index !== -1) {
+            throw new ComputedCycleError([...stack.slice(index), name]);
+        }
+
+        const definition = definitions[name];
+        const deps = new Set<string>();
+        const scope = new Proxy({} as Record<string, VarValue>, {
+            get: (_, key) => {
+                if (typeof key !== 'string') return undefined;
+                deps.add(key);
+                return read(key);
+            },
+        });
+
+        stack.push(name);
+        let value: VarValue;
+        try {
+            value = definition.compute!(scope);
+        } catch (err) {
+            if (err instanceof ComputedCycleError) throw err;
+            console.warn(`Computed variable "${name}" failed, keeping previous value:`, err);
+            value = variables[name] ?? definition.defaultValue;
+        } finally {
+            stack.pop();
+        }
+
+        values[name] = value;
+        dependencies[name] = Array.from(deps);
+        return value;
+    };
+
+    pending.forEach((name) => read(name));
+    return { values, dependencies };
+};
@@ -23,11 +23,100 @@
  * // Or using the full store:
  * import { useVariableStore } from '@/stores';
  * const { setVariable, getVariable } = useVariableStore();
+ * 
+ * // Components with a `bind` prop read and write a variable directly:
+ * <Stepper bind="amplitude" />
+ * 
+ * // Undo/redo and saved configurations:
+ * import { useVariableHistory, useVariableSnapshots } from '@/stores';
+ * const { undo, redo, canUndo, canRedo } = useVariableHistory();
+ * 
+ * // Derived values: declare `compute` in variables.ts, then read as usual:
+ * const det = useVar('det', 1);
+ * 
+ * // Opt-in persistence and shareable links (call after initialize):
+ * import { enableVariablePersistence, syncVariablesWithUrl } from '@/stores';
+ * enableVariablePersistence({ lessonId: 'my-lesson' });
+ * syncVariablesWithUrl();
+ * 
+ * // Learner progress from every validatable component:
+ * import { useAssessmentSummary, enableAssessmentPersistence } from '@/stores';
+ * const { correct, total } = useAssessmentSummary();
+ * enableAssessmentPersistence({ lessonId: 'my-lesson' });
+ * 
+ * // Let the editor app read and set variables (see lib/editor-bridge.ts):
+ * import { exposeVariablesToHost } from '@/stores';
+ * exposeVariablesToHost();
  */
 
 export {
     useVariableStore,
     useVar,
     useSetVar,
-    type VarValue
+    useVarBinding,
+    useVariableHistory,
+    useVariableSnapshots,
+    useVariableHistoryShortcuts,
+    type VarValue,
+    type VariableViolation,
+    type VariableSnapshot
 } from './variableStore';
+
+export {
+    enableVariablePersistence,
+    loadPersistedVariables,
+    clearPersistedVariables,
+    getPersistenceKey,
+    getChangedVariables,
+    type VariablePersistenceOptions
+} from './variablePersistence';
+
+export {
+    exposeVariablesToHost,
+    type VariableBridgeOptions
+} from './variableBridge';
+
+export {
+    syncVariablesWithUrl,
+    getShareableUrl,
+    encodeVariablesToQuery,
+    decodeVariablesFromQuery,
+    encodeVariableValue,
+    decodeVariableValue
+} from './urlState';
+
+export {
+    validateVariableValue,
+    validateVariables,
+    coerceVariableValue,
+    snapToStep,
+    getVariableType,
+    parseSchemaHint,
+    type ValidationResult,
+    type CoercionResult
+} from './variableValidation';
+
+export {
+    ComputedCycleError,
+    isComputed,
+    getComputedNames
+} from './computedVariables';
+
+export {
+    useAssessmentStore,
+    useAssessment,
+    useAssessmentSummary,
+    getAssessmentSummary,
+    type AssessmentKind,
+    type AssessmentItem,
+    type AssessmentSummary,
+    type SectionProgress
+} from './assessmentStore';
+
+export {
+    enableAssessmentPersistence,
+    loadPersistedAssessment,
+    clearPersistedAssessment,
+    getAssessmentPersistenceKey,
+    type AssessmentPersistenceOptions
+} from './assessmentPersistence';
@@ -0,0 +1,78 @@
+/**
+ * Storage Persistence
+ * -------------------
+ * Shared plumbing for the opt-in persistence modules
+ * (variablePersistence, assessmentPersistence): storage lookup and
+ * debounced saving on store changes.
+ */
+
+export interface PersistChangesOptions {
+    /** Storage key being written; re-persisting the same key replaces the old subscription */
+    key: string;
+    /** Storage backend (default: localStorage) */
+    storage?: Storage;
+    /** Delay before writing after a change, in ms */
+    debounceMs: number;
+    /** Subscribe to changes worth saving; returns the unsubscribe function */
+    subscribe: (onChange: () => void) => () => void;
+    /** Write the current state to storage */
+    save: (store: Storage) => void;
+}
+
+// Active persistence subscriptions, keyed by storage key (re-enabling replaces the old one, e.g. on HMR)
+const activeSubscriptions = new Map<string, () => void>();
+
+/**
+ * Resolve the storage backend, or null when none is available
+ * (SSR, private mode...)
+ */
+export const getStorage = (storage?: Storage): Storage | null => {
+    if (storage) return storage;
+    try {
+        return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Stop the active subscription for a key, flushing any pending save
+ */
+export const stopPersisting = (key: string): void => {
+    activeSubscriptions.get(key)?.();
+};
+
+/**
+ * Save on every change (debounced) until the returned cleanup runs.
+ * Cleanup flushes a pending save.
+ */
+export const persistChanges = ({ key, storage, debounceMs, subscribe, save }: PersistChangesOptions): (() => void) => {
+    stopPersisting(key);
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+        timer = null;
+        const store = getStorage(storage);
+        if (store) save(store);
+    };
+
+    const unsubscribe = subscribe(() => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, debounceMs);
+    });
+
+    const cleanup = () => {
+        unsubscribe();
+        if (timer) {
+            clearTimeout(timer);
+            flush();
+        }
+        if (activeSubscriptions.get(key) === cleanup) {
+            activeSubscriptions.delete(key);
+        }
+    };
+
+    activeSubscriptions.set(key, cleanup);
+    return cleanup;
+};
@@ -0,0 +1,161 @@
+/**
+ * URL State
+ * ---------
+ * Encodes the variables that differ from their defaults into the query
+ * part of the hash route, so a lesson state can be shared as a link:
+ *
+ *   https://example.com/#/?a=2&b=1&waveType=cosine
+ *
+ * Only variables declared in variables.ts are read back, and every value
+ * is validated against its definition before it is applied.
+ *
+ * Usage (right after initializing the store in your sections file):
+ *
+ * syncVariablesWithUrl();
+ */
+
+import type { VariableDefinition } from '@/data/variables';
+import { useVariableStore, withoutHistory, type VarValue } from './variableStore';
+import { getVariableType, validateVariables } from './variableValidation';
+import { getChangedVariables } from './variablePersistence';
+import { isComputed } from './computedVariables';
+
+let activeSync: (() => void) | null = null;
+
+/**
+ * Encode a single value as a URL parameter string
+ */
+export const encodeVariableValue = (value: VarValue): string => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return JSON.stringify(value);
+};
+
+/**
+ * Decode a URL parameter string using the variable's definition.
+ * Returns undefined if the string cannot be parsed for that type.
+ */
+export const decodeVariableValue = (raw: string, definition: VariableDefinition): unknown => {
+    switch (getVariableType(definition)) {
+        case 'number':
+            return raw.trim() === '' ? undefined : Number(raw);
+        case 'boolean':
+            return raw === 'true' ? true : raw === 'false' ? false : undefined;
+        case 'text':
+        case 'select':
+            return raw;
+        case 'array':
+        case 'object':
+            try {
+                return JSON.parse(raw);
+            } catch {
+                return undefined;
+            }
+    }
+};
+
+/**
+ * Build the query string for the variables that differ from their defaults
+ */
+export const encodeVariablesToQuery = (
+    variables: Record<string, VarValue>,
+    defaults: Record<string, VarValue>,
+    definitions: Record<string, VariableDefinition> = {}
+): string => {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(getChangedVariables(variables, defaults, definitions))) {
+        params.set(name, encodeVariableValue(value));
+    }
+    return params.toString();
+};
+
+/**
+ * Parse a query string into validated variable values.
+ * Parameters that are not declared variables are ignored.
+ */
+export const decodeVariablesFromQuery = (
+    query: string,
+    definitions: Record<string, VariableDefinition>
+): { accepted: Record<string, VarValue>; rejected: Record<string, string> } => {
+    const decoded: Record<string, unknown> = {};
+    new URLSearchParams(query).forEach((raw, name) => {
+        if (definitions[name] && !isComputed(definitions[name])) {
+            decoded[name] = decodeVariableValue(raw, definitions[name]);
+        }
+    });
+    return validateVariables(decoded, definitions);
+};
+
+/**
+ * Split the current hash route ("#/path?query") into its path and query
+ */
+const splitHash = (hash: string): { path: string; query: string } => {
+    const route = hash.replace(/^#/, '');
+    const index = route.indexOf('?');
+    return index === -1
+        ? { path: route || '/', query: '' }
+        : { path: route.slice(0, index) || '/', query: route.slice(index + 1) };
+};
+
+/**
+ * Build a shareable link for the current variable values
+ */
+export const getShareableUrl = (): string => {
+    const { variables, defaults, definitions } = useVariableStore.getState();
+    const { path } = splitHash(window.location.hash);
+    const query = encodeVariablesToQuery(variables, defaults, definitions);
+    return `${window.location.origin}${window.location.pathname}${window.location.search}#${path}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Apply variables from the current URL, then keep the URL updated as they change.
+ * Returns a cleanup function that stops updating the URL.
+ */
+export const syncVariablesWithUrl = ({ debounceMs = 300 }: { debounceMs?: number } = {}): (() => void) => {
+    activeSync?.();
+
+    const { definitions, setVariables } = useVariableStore.getState();
+    const { accepted, rejected } = decodeVariablesFromQuery(splitHash(window.location.hash).query, definitions);
+    if (Object.keys(rejected).length > 0) {
+        console.warn('Ignoring invalid variables in URL:', rejected);
+    }
+    if (Object.keys(accepted).length > 0) {
+        withoutHistory(() => setVariables(accepted));
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const writeUrl = () => {
+        timer = null;
+        const { variables, defaults } = useVariableStore.getState();
+        const { path, query: currentQuery } = splitHash(window.location.hash);
+
+        // Keep any non-variable parameters that other code put in the route
+        const params = new URLSearchParams(currentQuery);
+        Object.keys(definitions).forEach((name) => params.delete(name));
+        new URLSearchParams(encodeVariablesToQuery(variables, defaults, definitions)).forEach((value, name) => {
+            params.set(name, value);
+        });
+
+        const query = params.toString();
+        const hash = `#${path}${query ? `?${query}` : ''}`;
+        if (hash !== window.location.hash) {
+            window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${hash}`);
+        }
+    };
+
+    const unsubscribe = useVariableStore.subscribe((state, prev) => {
+        if (state.variables === prev.variables) return;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(writeUrl, debounceMs);
+    });
+
+    const cleanup = () => {
+        unsubscribe();
+        if (timer) clearTimeout(timer);
+        if (activeSync === cleanup) activeSync = null;
+    };
+
+    activeSync = cleanup;
+    return cleanup;
+};
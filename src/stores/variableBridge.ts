@@ -0,0 +1,142 @@
+/**
+ * Variable Bridge
+ * ---------------
+ * Lets the editor app read and change lesson variables over the editor
+ * bridge (src/lib/editor-bridge.ts), e.g. for its AI agent ("set amplitude
+ * to 3") or a live variable inspector:
+ *
+ * - request-variable-definitions → variable-definitions
+ * - request-variables            → variables
+ * - set-variables                → variables-set (stored values + violations)
+ * - reset-variables              → variables
+ * - subscribe-variables          → variables (current values), then
+ *                                  variables-changed after every change
+ * - unsubscribe-variables
+ *
+ * Writes from the host go through the same validation as writes from the
+ * lesson and are undoable.
+ *
+ * Usage (once, at startup):
+ *
+ * exposeVariablesToHost();
+ */
+
+import type { VariableDefinition } from '@/data/variables';
+import { onHostMessage, postToHost, replyToHost, type BridgeVariableDefinition } from '@/lib/editor-bridge';
+import { useVariableStore, type VarValue } from './variableStore';
+import { isComputed } from './computedVariables';
+
+export interface VariableBridgeOptions {
+    /** Collect changes for this long before notifying subscribers, in ms (default: 50) */
+    throttleMs?: number;
+}
+
+let activeBridge: (() => void) | null = null;
+
+const toBridgeDefinition = ({ compute, ...definition }: VariableDefinition): BridgeVariableDefinition => ({
+    ...definition,
+    computed: compute !== undefined,
+});
+
+const pickValues = (names?: string[]): Record<string, VarValue> => {
+    const { variables } = useVariableStore.getState();
+    if (!names) return { ...variables };
+    return Object.fromEntries(names.filter((name) => name in variables).map((name) => [name, variables[name]]));
+};
+
+/**
+ * Answer the host's variable messages. Returns a function that stops it
+ * (calling this again replaces the previous bridge, e.g. on HMR).
+ */
+export const exposeVariablesToHost = ({ throttleMs = 50 }: VariableBridgeOptions = {}): (() => void) => {
+    activeBridge?.();
+
+    // Subscription id (the host's request id) → watched names (all when undefined)
+    const subscriptions = new Map<string, string[] | undefined>();
+    let changedNames = new Set<string>();
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const flush = () => {
+        flushTimer = undefined;
+        const changed = Array.from(changedNames);
+        changedNames = new Set();
+        subscriptions.forEach((names, subscriptionId) => {
+            const watched = names ? changed.filter((name) => names.includes(name)) : changed;
+            if (watched.length === 0) return;
+            postToHost({ type: 'variables-changed', subscriptionId, values: pickValues(watched) });
+        });
+    };
+
+    const unsubscribeStore = useVariableStore.subscribe((state, prev) => {
+        if (state.variables === prev.variables || subscriptions.size === 0) return;
+        const names = new Set([...Object.keys(state.variables), ...Object.keys(prev.variables)]);
+        names.forEach((name) => {
+            if (state.variables[name] !== prev.variables[name]) changedNames.add(name);
+        });
+        if (changedNames.size > 0 && flushTimer === undefined) {
+            flushTimer = setTimeout(flush, throttleMs);
+        }
+    });
+
+    const unsubscribers = [
+        onHostMessage('request-variable-definitions', (message) => {
+            const { definitions } = useVariableStore.getState();
+            replyToHost(message, {
+                type: 'variable-definitions',
+                definitions: Object.fromEntries(
+                    Object.entries(definitions).map(([name, definition]) => [name, toBridgeDefinition(definition)])
+                ),
+            });
+        }),
+
+        onHostMessage('request-variables', (message) => {
+            replyToHost(message, { type: 'variables', values: pickValues(message.names) });
+        }),
+
+        onHostMessage('set-variables', (message) => {
+            const store = useVariableStore.getState();
+            const before = store.violations;
+            store.setVariables(message.values);
+            const { violations } = useVariableStore.getState();
+            replyToHost(message, {
+                type: 'variables-set',
+                values: pickValues(Object.keys(message.values)),
+                // The store keeps a rolling list; the new entries are the ones not there before
+                violations: violations.filter((violation) => !before.includes(violation)),
+            });
+        }),
+
+        onHostMessage('reset-variables', (message) => {
+            const store = useVariableStore.getState();
+            if (message.names) {
+                const defaults = Object.fromEntries(
+                    message.names
+                        .filter((name) => name in store.defaults && !isComputed(store.definitions[name]))
+                        .map((name) => [name, store.defaults[name]])
+                );
+                store.setVariables(defaults);
+            } else {
+                store.reset();
+            }
+            replyToHost(message, { type: 'variables', values: pickValues(message.names) });
+        }),
+
+        onHostMessage('subscribe-variables', (message) => {
+            subscriptions.set(message.id, message.names);
+            replyToHost(message, { type: 'variables', values: pickValues(message.names) });
+        }),
+
+        onHostMessage('unsubscribe-variables', ({ subscriptionId }) => {
+            subscriptions.delete(subscriptionId);
+        }),
+    ];
+
+    const stop = () => {
+        unsubscribeStore();
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+        clearTimeout(flushTimer);
+        if (activeBridge === stop) activeBridge = null;
+    };
+    activeBridge = stop;
+    return stop;
+};
@@ -0,0 +1,130 @@
+/**
+ * Variable Persistence
+ * --------------------
+ * Opt-in: keeps the variable store in localStorage so slider positions
+ * survive a reload. Storage is namespaced by lesson, and only values that
+ * differ from the defaults are saved.
+ *
+ * Usage (right after initializing the store in your sections file):
+ *
+ * useVariableStore.getState().initialize(getDefaultValues(), variableDefinitions);
+ * enableVariablePersistence({ lessonId: 'eigenvalues' });
+ */
+
+import type { VariableDefinition } from '@/data/variables';
+import { useVariableStore, withoutHistory, type VarValue } from './variableStore';
+import { validateVariables } from './variableValidation';
+import { getStorage, persistChanges, stopPersisting } from './storagePersistence';
+import { isComputed } from './computedVariables';
+
+export interface VariablePersistenceOptions {
+    /** Namespace for this lesson's saved values */
+    lessonId: string;
+    /** Storage backend (default: localStorage) */
+    storage?: Storage;
+    /** Delay before writing after a change, in ms (default: 300) */
+    debounceMs?: number;
+}
+
+const STORAGE_PREFIX = 'mathvibe:variables:';
+
+/**
+ * Storage key used for a lesson
+ */
+export const getPersistenceKey = (lessonId: string): string => `${STORAGE_PREFIX}${lessonId}`;
+
+/**
+ * Collect the variables whose value differs from its default.
+ * Computed variables are skipped - they are rebuilt from their inputs.
+ */
+export const getChangedVariables = (
+    variables: Record<string, VarValue>,
+    defaults: Record<string, VarValue>,
+    definitions: Record<string, VariableDefinition> = {}
+): Record<string, VarValue> => {
+    const changed: Record<string, VarValue> = {};
+    for (const [name, value] of Object.entries(variables)) {
+        if (isComputed(definitions[name])) continue;
+        if (JSON.stringify(value) !== JSON.stringify(defaults[name])) {
+            changed[name] = value;
+        }
+    }
+    return changed;
+};
+
+/**
+ * Read and validate the saved values for a lesson
+ */
+export const loadPersistedVariables = (lessonId: string, storage?: Storage): Record<string, VarValue> => {
+    const store = getStorage(storage);
+    if (!store) return {};
+
+    try {
+        const raw = store.getItem(getPersistenceKey(lessonId));
+        if (!raw) return {};
+
+        const saved = JSON.parse(raw);
+        if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) return {};
+
+        const { accepted, rejected } = validateVariables(saved, useVariableStore.getState().definitions);
+        if (Object.keys(rejected).length > 0) {
+            console.warn(`Ignoring invalid saved variables for "${lessonId}":`, rejected);
+        }
+        return accepted;
+    } catch (err) {
+        console.warn(`Failed to read saved variables for "${lessonId}":`, err);
+        return {};
+    }
+};
+
+/**
+ * Remove the saved values for a lesson
+ */
+export const clearPersistedVariables = (lessonId: string, storage?: Storage): void => {
+    try {
+        getStorage(storage)?.removeItem(getPersistenceKey(lessonId));
+    } catch {
+        // Storage unavailable (private mode, quota...) - nothing to clear
+    }
+};
+
+/**
+ * Restore saved values into the store and keep saving on every change.
+ * Returns a cleanup function that stops saving.
+ */
+export const enableVariablePersistence = ({
+    lessonId,
+    storage,
+    debounceMs = 300,
+}: VariablePersistenceOptions): (() => void) => {
+    stopPersisting(getPersistenceKey(lessonId));
+
+    const restored = loadPersistedVariables(lessonId, storage);
+    if (Object.keys(restored).length > 0) {
+        // Restored values are the starting point, not an undo step
+        withoutHistory(() => useVariableStore.getState().setVariables(restored));
+    }
+
+    return persistChanges({
+        key: getPersistenceKey(lessonId),
+        storage,
+        debounceMs,
+        subscribe: (onChange) =>
+            useVariableStore.subscribe((state, prev) => {
+                if (state.variables !== prev.variables) onChange();
+            }),
+        save: (store) => {
+            const { variables, defaults, definitions } = useVariableStore.getState();
+            const changed = getChangedVariables(variables, defaults, definitions);
+            try {
+                if (Object.keys(changed).length === 0) {
+                    store.removeItem(getPersistenceKey(lessonId));
+                } else {
+                    store.setItem(getPersistenceKey(lessonId), JSON.stringify(changed));
+                }
+            } catch (err) {
+                console.warn(`Failed to save variables for "${lessonId}":`, err);
+            }
+        },
+    });
+};
@@ -20,9 +20,35 @@
  * - boolean: true, false
  * - number[]: [1, 2, 3]
  * - object: { x: 5, y: 10, label: 'point' }
+ * 
+ * VALIDATION:
+ * Writes are checked against the definitions passed to initialize()
+ * (see variables.ts): numbers are clamped to min/max and snapped to step,
+ * wrong types and unknown select options are rejected, and writes to
+ * undeclared names log a warning. Problems are collected in `violations`.
+ * 
+ * COMPUTED VARIABLES:
+ * Definitions with `compute` are derived from other variables and
+ * recomputed automatically when their dependencies change (see
+ * computedVariables.ts). They are read-only: writes are rejected.
+ * 
+ * HISTORY:
+ * Every change is recorded in a bounded undo history (computed values are
+ * restored with their inputs). Rapid writes to the same variables, like a
+ * slider drag, are merged into one step. Configurations can also be saved
+ * as named snapshots:
+ * 
+ * const { undo, redo, canUndo, canRedo } = useVariableHistory();
+ * const { saveSnapshot, restoreSnapshot } = useVariableSnapshots();
+ * useVariableHistoryShortcuts(); // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z, Ctrl/Cmd+Y
  */
 
-import { create } from 'zustand';
+import { useCallback, useEffect } from 'react';
+import { create, useStore } from 'zustand';
+import { temporal } from 'zundo';
+import type { VariableDefinition } from '@/data/variables';
+import { coerceVariableValue } from './variableValidation';
+import { evaluateComputed, getAffectedComputed, getComputedNames, isComputed } from './computedVariables';
 
 // Type for variable values - supports primitives, arrays, and objects
 export type VarValue =
@@ -32,6 +58,28 @@ export type VarValue =
     | number[]
     | Record<string, unknown>;
 
+/** A write that did not go through as-is */
+export interface VariableViolation {
+    /** Variable name */
+    name: string;
+    /** What happened to the write */
+    kind: 'adjusted' | 'rejected' | 'undeclared';
+    /** The value that was written */
+    value: unknown;
+    /** The value that was stored (for adjusted/undeclared writes) */
+    appliedValue?: VarValue;
+    /** Human-readable explanation */
+    message: string;
+    timestamp: number;
+}
+
+/** A named, saved configuration of the (non-computed) variables */
+export interface VariableSnapshot {
+    name: string;
+    variables: Record<string, VarValue>;
+    timestamp: number;
+}
+
 interface VariableState {
     /** All shared variables */
     variables: Record<string, VarValue>;
@@ -39,6 +87,18 @@ interface VariableState {
     /** Whether the store has been initialized */
     initialized: boolean;
 
+    /** Default values captured at initialization (used by reset) */
+    defaults: Record<string, VarValue>;
+
+    /** Variable metadata (type, min, max, options...) from variables.ts */
+    definitions: Record<string, VariableDefinition>;
+
+    /** Recent writes that were adjusted, rejected or undeclared (newest last) */
+    violations: VariableViolation[];
+
+    /** Variables each computed variable read during its last evaluation */
+    computedDependencies: Record<string, string[]>;
+
     /** Set a single variable */
     setVariable: (name: string, value: VarValue) => void;
 
@@ -48,33 +108,197 @@ interface VariableState {
     /** Get a variable (with default) */
     getVariable: <T extends VarValue>(name: string, defaultValue: T) => T;
 
-    /** Initialize with default values */
-    initialize: (defaults: Record<string, VarValue>) => void;
+    /** Initialize with default values and, optionally, their definitions */
+    initialize: (defaults: Record<string, VarValue>, definitions?: Record<string, VariableDefinition>) => void;
+
+    /** Merge default values after initialization; new or changed defaults are also applied */
+    setDefaults: (defaults: Record<string, VarValue>) => void;
 
     /** Reset all variables to defaults */
     reset: () => void;
+
+    /** Clear the recorded violations */
+    clearViolations: () => void;
+
+    /** Saved configurations (oldest first) */
+    snapshots: VariableSnapshot[];
+
+    /** Step back to the previous configuration */
+    undo: () => void;
+
+    /** Re-apply a configuration that was undone */
+    redo: () => void;
+
+    /** Forget the undo/redo history */
+    clearHistory: () => void;
+
+    /** Save the current configuration under a name (replaces a snapshot with the same name) */
+    saveSnapshot: (name: string) => void;
+
+    /** Restore a saved configuration (undoable) */
+    restoreSnapshot: (name: string) => void;
+
+    /** Delete a saved configuration */
+    deleteSnapshot: (name: string) => void;
 }
 
-// Store the initial defaults for reset functionality
-let initialDefaults: Record<string, VarValue> = {};
+/** The part of the state recorded in the undo history */
+type HistoryEntry = Pick<VariableState, 'variables' | 'computedDependencies'>;
+
+// Keep only the most recent violations
+const MAX_VIOLATIONS = 100;
+
+// Undeclared names already warned about (warn once per name)
+const warnedUndeclared = new Set<string>();
+
+// Keep only the most recent undo steps
+const HISTORY_LIMIT = 100;
+
+// Writes to the same variables closer together than this are merged into one undo step
+const HISTORY_COALESCE_MS = 500;
+
+// The last recorded write, used to merge slider drags into one step
+let lastHistoryWrite = { names: '', time: 0 };
+
+/**
+ * Start a new undo step on the next write, even if it continues a drag
+ */
+const breakCoalescing = () => {
+    lastHistoryWrite = { names: '', time: 0 };
+};
+
+/**
+ * Names of the non-computed variables that differ between two history entries
+ */
+const getChangedInputs = (past: HistoryEntry, current: HistoryEntry): string[] => {
+    const { definitions } = useVariableStore.getState();
+    const names = new Set([...Object.keys(past.variables), ...Object.keys(current.variables)]);
+    return Array.from(names).filter(
+        (name) =>
+            !isComputed(definitions[name]) &&
+            JSON.stringify(past.variables[name]) !== JSON.stringify(current.variables[name])
+    );
+};
+
+/**
+ * Check writes against the definitions and return the values to store
+ * plus any violations to record.
+ */
+const checkWrites = (
+    vars: Record<string, VarValue>,
+    definitions: Record<string, VariableDefinition>
+): { values: Record<string, VarValue>; violations: VariableViolation[] } => {
+    const values: Record<string, VarValue> = {};
+    const violations: VariableViolation[] = [];
+    const hasDefinitions = Object.keys(definitions).length > 0;
+    const timestamp = Date.now();
+
+    for (const [name, value] of Object.entries(vars)) {
+        const definition = definitions[name];
+
+        if (!definition) {
+            values[name] = value;
+            // Only lessons that declare variables get undeclared-name warnings
+            if (hasDefinitions) {
+                const message = `"${name}" is not declared in variables.ts`;
+                violations.push({ name, kind: 'undeclared', value, appliedValue: value, message, timestamp });
+                if (!warnedUndeclared.has(name)) {
+                    warnedUndeclared.add(name);
+                    console.warn(`[variableStore] Write to undeclared variable ${message}`);
+                }
+            }
+            continue;
+        }
+
+        if (isComputed(definition)) {
+            const message = `Rejected write to "${name}": computed variables are read-only`;
+            violations.push({ name, kind: 'rejected', value, message, timestamp });
+            if (import.meta.env.DEV) console.warn(`[variableStore] ${message}`);
+            continue;
+        }
+
+        const result = coerceVariableValue(value, definition);
+        if (result.accepted === false) {
+            const message = `Rejected write to "${name}": ${result.reason}`;
+            violations.push({ name, kind: 'rejected', value, message, timestamp });
+            if (import.meta.env.DEV) console.warn(`[variableStore] ${message}`);
+            continue;
+        }
+
+        values[name] = result.value;
+        if (result.adjustments.length > 0) {
+            violations.push({
+                name,
+                kind: 'adjusted',
+                value,
+                appliedValue: result.value,
+                message: `Adjusted "${name}": ${result.adjustments.join(', ')}`,
+                timestamp,
+            });
+        }
+    }
+
+    return { values, violations };
+};
 
 /**
  * Main variable store
  */
-export const useVariableStore = create<VariableState>((set, get) => ({
+export const useVariableStore = create<VariableState>()(temporal((set, get) => ({
     variables: {},
     initialized: false,
+    defaults: {},
+    definitions: {},
+    violations: [],
+    computedDependencies: {},
+    snapshots: [],
 
     setVariable: (name, value) => {
-        set((state) => ({
-            variables: { ...state.variables, [name]: value },
-        }));
+        get().setVariables({ [name]: value });
     },
 
     setVariables: (vars) => {
-        set((state) => ({
-            variables: { ...state.variables, ...vars },
-        }));
+        set((state) => {
+            const { values, violations } = checkWrites(vars, state.definitions);
+            const changed = Object.keys(values);
+
+            // Keep the same object when every write was rejected so subscribers don't fire
+            if (changed.length === 0) {
+                return violations.length > 0
+                    ? { violations: [...state.violations, ...violations].slice(-MAX_VIOLATIONS) }
+                    : {};
+            }
+
+            let variables = { ...state.variables, ...values };
+            let computedDependencies = state.computedDependencies;
+
+            const affected = getAffectedComputed(changed, computedDependencies);
+            if (affected.length > 0) {
+                try {
+                    const computed = evaluateComputed(variables, state.definitions, affected);
+                    variables = { ...variables, ...computed.values };
+                    computedDependencies = { ...computedDependencies, ...computed.dependencies };
+                } catch (err) {
+                    // A conditional dependency closed a cycle: keep the previous computed values
+                    console.error('[variableStore]', err);
+                    violations.push({
+                        name: affected[0],
+                        kind: 'rejected',
+                        value: undefined,
+                        message: err instanceof Error ? err.message : String(err),
+                        timestamp: Date.now(),
+                    });
+                }
+            }
+
+            return {
+                variables,
+                computedDependencies,
+                ...(violations.length > 0 && {
+                    violations: [...state.violations, ...violations].slice(-MAX_VIOLATIONS),
+                }),
+            };
+        });
     },
 
     getVariable: <T extends VarValue>(name: string, defaultValue: T): T => {
@@ -82,21 +306,123 @@ export const useVariableStore = create<VariableState>((set, get) => ({
         return (value as T) ?? defaultValue;
     },
 
-    initialize: (defaults) => {
+    initialize: (defaults, definitions = {}) => {
         if (!get().initialized) {
-            initialDefaults = { ...defaults };
+            // Throws ComputedCycleError if computed variables depend on each other in a loop
+            const computed = evaluateComputed(defaults, definitions, getComputedNames(definitions));
             set({
-                variables: { ...defaults },
+                variables: { ...defaults, ...computed.values },
+                defaults: { ...defaults },
+                definitions: { ...definitions },
+                computedDependencies: computed.dependencies,
                 initialized: true,
             });
+            // Loading the defaults is not an undoable step
+            get().clearHistory();
         }
     },
 
+    setDefaults: (defaults) => {
+        const current = get().defaults;
+        const changed = Object.fromEntries(
+            Object.entries(defaults).filter(([name, value]) =>
+                !(name in current) || JSON.stringify(current[name]) !== JSON.stringify(value)
+            )
+        );
+        if (Object.keys(changed).length === 0) return;
+        // New defaults are not an undoable step
+        withoutHistory(() => {
+            set((state) => ({ defaults: { ...state.defaults, ...changed } }));
+            get().setVariables(changed);
+        });
+    },
+
     reset: () => {
-        set({ variables: { ...initialDefaults } });
+        set((state) => {
+            const computed = evaluateComputed(state.defaults, state.definitions, getComputedNames(state.definitions));
+            return {
+                variables: { ...state.defaults, ...computed.values },
+                computedDependencies: computed.dependencies,
+            };
+        });
+    },
+
+    clearViolations: () => {
+        set({ violations: [] });
+    },
+
+    undo: () => {
+        breakCoalescing();
+        useVariableStore.temporal.getState().undo();
+    },
+
+    redo: () => {
+        breakCoalescing();
+        useVariableStore.temporal.getState().redo();
+    },
+
+    clearHistory: () => {
+        breakCoalescing();
+        useVariableStore.temporal.getState().clear();
+    },
+
+    saveSnapshot: (name) => {
+        const { variables, definitions, snapshots } = get();
+        const inputs = Object.fromEntries(
+            Object.entries(variables).filter(([key]) => !isComputed(definitions[key]))
+        );
+        const snapshot: VariableSnapshot = { name, variables: inputs, timestamp: Date.now() };
+        set({ snapshots: [...snapshots.filter((s) => s.name !== name), snapshot] });
+    },
+
+    restoreSnapshot: (name) => {
+        const snapshot = get().snapshots.find((s) => s.name === name);
+        if (!snapshot) {
+            console.warn(`[variableStore] No snapshot named "${name}"`);
+            return;
+        }
+        breakCoalescing();
+        get().setVariables(snapshot.variables);
+        breakCoalescing();
+    },
+
+    deleteSnapshot: (name) => {
+        set((state) => ({ snapshots: state.snapshots.filter((s) => s.name !== name) }));
+    },
+}), {
+    partialize: (state): HistoryEntry => ({
+        variables: state.variables,
+        computedDependencies: state.computedDependencies,
+    }),
+    // Only changes to inputs are undo steps (violations, snapshots... are not)
+    equality: (past, current) => getChangedInputs(past, current).length === 0,
+    limit: HISTORY_LIMIT,
+    handleSet: (handleSet) => (pastState, _replace, currentState) => {
+        const names = getChangedInputs(pastState as HistoryEntry, currentState).sort().join(',');
+        const now = Date.now();
+        const continuesDrag = names === lastHistoryWrite.names && now - lastHistoryWrite.time < HISTORY_COALESCE_MS;
+        lastHistoryWrite = { names, time: now };
+        if (!continuesDrag) {
+            handleSet(pastState);
+        }
     },
 }));
 
+/**
+ * Apply writes without recording an undo step
+ * (used when restoring saved or shared values on load)
+ */
+export const withoutHistory = (apply: () => void): void => {
+    const history = useVariableStore.temporal.getState();
+    const wasTracking = history.isTracking;
+    history.pause();
+    try {
+        apply();
+    } finally {
+        if (wasTracking) history.resume();
+    }
+};
+
 /**
  * Hook to read a variable (reactive - auto-updates when value changes)
  * 
@@ -122,3 +448,101 @@ export const useVar = <T extends VarValue>(name: string, defaultValue: T): T =>
 export const useSetVar = () => {
     return useVariableStore((state) => state.setVariable);
 };
+
+/**
+ * Hook that binds a component to a store variable by name.
+ * Returns the variable's value, definition (for min/max/step/options)
+ * and default, plus a setter. With no name, nothing is bound and the
+ * component keeps using its own props.
+ * 
+ * @example
+ * const binding = useVarBinding<number>(bind);
+ * const min = minProp ?? binding.definition?.min ?? 0;
+ * const value = binding.isBound ? binding.value : valueProp;
+ */
+export const useVarBinding = <T extends VarValue>(name?: string) => {
+    const value = useVariableStore((state) => (name ? (state.variables[name] as T | undefined) : undefined));
+    const definition = useVariableStore((state) => (name ? state.definitions[name] : undefined));
+    const defaultValue = useVariableStore((state) => (name ? (state.defaults[name] as T | undefined) : undefined));
+    const setVariable = useVariableStore((state) => state.setVariable);
+
+    const setValue = useCallback(
+        (next: T) => {
+            if (name) setVariable(name, next);
+        },
+        [name, setVariable]
+    );
+
+    return { isBound: name !== undefined, value, definition, defaultValue, setValue };
+};
+
+/**
+ * Hook for undo/redo of variable changes
+ * 
+ * @example
+ * const { undo, redo, canUndo, canRedo } = useVariableHistory();
+ * <button onClick={undo} disabled={!canUndo}>Undo</button>
+ */
+export const useVariableHistory = () => {
+    const canUndo = useStore(useVariableStore.temporal, (state) => state.pastStates.length > 0);
+    const canRedo = useStore(useVariableStore.temporal, (state) => state.futureStates.length > 0);
+    const undo = useVariableStore((state) => state.undo);
+    const redo = useVariableStore((state) => state.redo);
+    const clearHistory = useVariableStore((state) => state.clearHistory);
+    return { undo, redo, canUndo, canRedo, clearHistory };
+};
+
+/**
+ * Hook for saving and restoring named configurations
+ * 
+ * @example
+ * const { snapshots, saveSnapshot, restoreSnapshot } = useVariableSnapshots();
+ * saveSnapshot('Shear');
+ * restoreSnapshot('Shear');
+ */
+export const useVariableSnapshots = () => {
+    const snapshots = useVariableStore((state) => state.snapshots);
+    const saveSnapshot = useVariableStore((state) => state.saveSnapshot);
+    const restoreSnapshot = useVariableStore((state) => state.restoreSnapshot);
+    const deleteSnapshot = useVariableStore((state) => state.deleteSnapshot);
+    return { snapshots, saveSnapshot, restoreSnapshot, deleteSnapshot };
+};
+
+// Text fields keep their own undo behaviour
+const isTextInput = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable) return true;
+    if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+    return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type);
+};
+
+/**
+ * Hook that binds Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y to redo.
+ * Ignored while typing in a text field. Mount once (App does).
+ */
+export const useVariableHistoryShortcuts = (enabled = true) => {
+    useEffect(() => {
+        if (!enabled) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.metaKey || event.ctrlKey) || event.altKey || isTextInput(event.target)) return;
+            // Already handled, e.g. as an undo of content edits
+            if (event.defaultPrevented) return;
+
+            const key = event.key.toLowerCase();
+            const { pastStates, futureStates } = useVariableStore.temporal.getState();
+            const { undo, redo } = useVariableStore.getState();
+
+            if (key === 'z' && !event.shiftKey && pastStates.length > 0) {
+                event.preventDefault();
+                undo();
+            } else if ((key === 'y' || (key === 'z' && event.shiftKey)) && futureStates.length > 0) {
+                event.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [enabled]);
+};
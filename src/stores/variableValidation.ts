@@ -0,0 +1,241 @@
+/**
+ * Variable Validation
+ * -------------------
+ * Checks values against the metadata declared in src/data/variables.ts
+ * (type, min, max, step, options, schema).
+ *
+ * - validateVariableValue: strict check, used for values coming from outside
+ *   the lesson code (localStorage, shared URLs, the host editor).
+ * - coerceVariableValue: used by the store on every write; clamps or rejects
+ *   out-of-range numbers and snaps them to `step`.
+ */
+
+import type { VariableDefinition } from '@/data/variables';
+import type { VarValue } from './variableStore';
+
+export type ValidationResult =
+    | { valid: true; value: VarValue }
+    | { valid: false; reason: string };
+
+type VariableType = NonNullable<VariableDefinition['type']>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Resolve the effective type of a variable: the declared `type`,
+ * or one inferred from its default value.
+ */
+export const getVariableType = (definition: VariableDefinition): VariableType => {
+    if (definition.type) return definition.type;
+
+    const value = definition.defaultValue;
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'string') return definition.options ? 'select' : 'text';
+    if (Array.isArray(value)) return 'array';
+    return 'object';
+};
+
+/**
+ * Validate a value against a variable definition.
+ *
+ * @example
+ * validateVariableValue(7, { defaultValue: 1, type: 'number', min: 0, max: 5 });
+ * // → { valid: false, reason: 'expected a number ≤ 5, got 7' }
+ */
+export const validateVariableValue = (value: unknown, definition: VariableDefinition): ValidationResult => {
+    switch (getVariableType(definition)) {
+        case 'number': {
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                return { valid: false, reason: `expected a number, got ${JSON.stringify(value)}` };
+            }
+            if (definition.min !== undefined && value < definition.min) {
+                return { valid: false, reason: `expected a number ≥ ${definition.min}, got ${value}` };
+            }
+            if (definition.max !== undefined && value > definition.max) {
+                return { valid: false, reason: `expected a number ≤ ${definition.max}, got ${value}` };
+            }
+            return { valid: true, value };
+        }
+
+        case 'boolean':
+            return typeof value === 'boolean'
+                ? { valid: true, value }
+                : { valid: false, reason: `expected a boolean, got ${JSON.stringify(value)}` };
+
+        case 'text':
+            return typeof value === 'string'
+                ? { valid: true, value }
+                : { valid: false, reason: `expected a string, got ${JSON.stringify(value)}` };
+
+        case 'select': {
+            if (typeof value !== 'string') {
+                return { valid: false, reason: `expected a string, got ${JSON.stringify(value)}` };
+            }
+            if (definition.options && !definition.options.includes(value)) {
+                return { valid: false, reason: `expected one of ${definition.options.join(', ')}, got "${value}"` };
+            }
+            return { valid: true, value };
+        }
+
+        case 'array':
+            return Array.isArray(value) && value.every((item) => typeof item === 'number' && Number.isFinite(item))
+                ? { valid: true, value: value as number[] }
+                : { valid: false, reason: `expected an array of numbers, got ${JSON.stringify(value)}` };
+
+        case 'object':
+            return isPlainObject(value)
+                ? { valid: true, value }
+                : { valid: false, reason: `expected an object, got ${JSON.stringify(value)}` };
+    }
+};
+
+/**
+ * Validate a batch of incoming values. Only variables that have a
+ * definition are accepted; everything else is reported as rejected.
+ */
+export const validateVariables = (
+    values: Record<string, unknown>,
+    definitions: Record<string, VariableDefinition>
+): { accepted: Record<string, VarValue>; rejected: Record<string, string> } => {
+    const accepted: Record<string, VarValue> = {};
+    const rejected: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(values)) {
+        const definition = definitions[name];
+        if (!definition) {
+            rejected[name] = 'unknown variable';
+            continue;
+        }
+        if (typeof definition.compute === 'function') {
+            rejected[name] = 'computed variables are read-only';
+            continue;
+        }
+        const result = validateVariableValue(value, definition);
+        if (result.valid === true) {
+            accepted[name] = result.value;
+        } else {
+            rejected[name] = result.reason;
+        }
+    }
+
+    return { accepted, rejected };
+};
+
+// ============================================================================
+// WRITE COERCION (used by the store)
+// ============================================================================
+
+export type CoercionResult =
+    | { accepted: true; value: VarValue; adjustments: string[] }
+    | { accepted: false; reason: string };
+
+const countDecimals = (n: number): number => {
+    const text = String(n);
+    if (text.includes('e-')) return Number(text.split('e-')[1]);
+    return text.includes('.') ? text.split('.')[1].length : 0;
+};
+
+/**
+ * Snap a number to the step grid anchored at `min` (or 0),
+ * rounding away floating point noise like 0.30000000000000004.
+ */
+export const snapToStep = (value: number, step: number, min = 0): number => {
+    if (!(step > 0)) return value;
+    const snapped = min + Math.round((value - min) / step) * step;
+    const decimals = Math.max(countDecimals(step), countDecimals(min));
+    return Number(snapped.toFixed(decimals));
+};
+
+const SCHEMA_TYPES = new Set(['number', 'string', 'boolean', 'number[]']);
+
+/**
+ * Parse a simple schema hint like "{ x: number, y: number, label?: string }"
+ * into field → type. Fields with types we cannot check are skipped.
+ */
+export const parseSchemaHint = (schema: string): Record<string, { type: string; optional: boolean }> => {
+    const fields: Record<string, { type: string; optional: boolean }> = {};
+    const body = schema.trim().replace(/^\{/, '').replace(/\}$/, '');
+
+    for (const part of body.split(/[,;]/)) {
+        const match = part.trim().match(/^(\w+)(\?)?\s*:\s*(.+)$/);
+        if (!match) continue;
+        const type = match[3].trim();
+        if (SCHEMA_TYPES.has(type)) {
+            fields[match[1]] = { type, optional: match[2] === '?' };
+        }
+    }
+    return fields;
+};
+
+const matchesSchemaType = (value: unknown, type: string): boolean => {
+    if (type === 'number[]') return Array.isArray(value) && value.every((item) => typeof item === 'number');
+    return typeof value === type;
+};
+
+/**
+ * Coerce a value written to the store so it satisfies its definition.
+ *
+ * Numbers outside [min, max] are clamped (or rejected when the definition
+ * sets `outOfRange: 'reject'`) and snapped to `step`. Wrong types, unknown
+ * select options and objects that do not match `schema` are rejected.
+ */
+export const coerceVariableValue = (value: unknown, definition: VariableDefinition): CoercionResult => {
+    const type = getVariableType(definition);
+
+    if (type === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            return { accepted: false, reason: `expected a number, got ${JSON.stringify(value)}` };
+        }
+
+        const adjustments: string[] = [];
+        let next = value;
+        const { min, max, step } = definition;
+        const outOfRange = (min !== undefined && next < min) || (max !== undefined && next > max);
+
+        if (outOfRange) {
+            if (definition.outOfRange === 'reject') {
+                return { accepted: false, reason: `${value} is outside [${min ?? '-∞'}, ${max ?? '∞'}]` };
+            }
+            next = Math.min(max ?? Infinity, Math.max(min ?? -Infinity, next));
+            adjustments.push(`clamped ${value} to ${next}`);
+        }
+
+        if (step !== undefined) {
+            const snapped = snapToStep(next, step, min);
+            // Snapping must not push the value back out of range
+            const bounded = Math.min(max ?? Infinity, Math.max(min ?? -Infinity, snapped));
+            if (bounded !== next) {
+                adjustments.push(`snapped ${next} to ${bounded} (step ${step})`);
+                next = bounded;
+            }
+        }
+
+        return { accepted: true, value: next, adjustments };
+    }
+
+    const result = validateVariableValue(value, definition);
+    if (result.valid === false) {
+        return { accepted: false, reason: result.reason };
+    }
+
+    if (type === 'object' && definition.schema) {
+        const fields = parseSchemaHint(definition.schema);
+        const object = result.value as Record<string, unknown>;
+        for (const [field, { type: fieldType, optional }] of Object.entries(fields)) {
+            if (object[field] === undefined) {
+                if (!optional) return { accepted: false, reason: `missing field "${field}" (schema ${definition.schema})` };
+                continue;
+            }
+            if (!matchesSchemaType(object[field], fieldType)) {
+                return {
+                    accepted: false,
+                    reason: `field "${field}" should be ${fieldType}, got ${JSON.stringify(object[field])}`,
+                };
+            }
+        }
+    }
+
+    return { accepted: true, value: result.value, adjustments: [] };
+};
@@ -0,0 +1,746 @@
+import fs from "fs";
+import path from "path";
+import type { IncomingMessage, ServerResponse } from "http";
+import ts from "typescript";
+import type { Plugin } from "vite";
+import { createUnifiedDiff } from "./unified-diff";
+
+/**
+ * Apply Edits
+ * -----------
+ * Dev-server endpoints that write the editor's pending edits (TextEdit and
+ * EquationEdit from src/contexts/EditingContext.tsx) back into the section
+ * files:
+ *
+ * - POST /__mathvibe/edits/preview  { edits }  → diff per file, nothing is written
+ * - POST /__mathvibe/edits/apply    { edits }  → same result, and the files are written
+ *
+ * An edit is matched to its element by `source` (added by the
+ * source-locations plugin), by `editId`, or else by its original content,
+ * and is only applied while the element still holds the original text or
+ * latex. Anything else is reported as a conflict and left untouched, so the
+ * host can keep it pending.
+ *
+ * Text edits replace an element's text children; equation edits replace its
+ * `latex` prop (`equation` for InteractiveEquation and MathBlock) and update
+ * the `colorMap` of the enclosing ColoredEquationProvider. Equation edits
+ * made on a HighlightedTerm only change its color in that colorMap.
+ */
+
+export interface SourceEditLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** The fields of a PendingEdit used here */
+export type SourceEdit =
+  | {
+      id: string;
+      type: "text";
+      elementPath: string;
+      source?: SourceEditLocation;
+      originalText: string;
+      newText: string;
+    }
+  | {
+      id: string;
+      type: "equation";
+      elementPath: string;
+      source?: SourceEditLocation;
+      /** The component the equation was edited in (EquationComponentType) */
+      componentType?: string;
+      originalLatex: string;
+      newLatex: string;
+      colorMap?: Record<string, string>;
+    };
+
+export type EditConflictReason =
+  /** Not a valid edit */
+  | "invalid"
+  /** No element matches the edit */
+  | "not-found"
+  /** The element's text or latex changed since the edit was made */
+  | "changed"
+  /** Several elements match and the edit has no source location or editId */
+  | "ambiguous"
+  /** The element can't be rewritten automatically (markup in the text, computed latex...) */
+  | "unsupported"
+  /** Another edit in the same request changes the same element */
+  | "overlap";
+
+export interface EditConflict {
+  editId: string;
+  reason: EditConflictReason;
+  message: string;
+}
+
+export interface FileChange {
+  /** Path relative to the project root */
+  file: string;
+  /** Unified diff of the change */
+  diff: string;
+  /** Edits applied to this file */
+  editIds: string[];
+}
+
+export interface ApplyEditsResult {
+  /** Whether the files were written (false for previews) */
+  written: boolean;
+  files: FileChange[];
+  /** Ids of the edits that were applied */
+  applied: string[];
+  conflicts: EditConflict[];
+  /** Edits applied only in part (e.g. a colorMap that couldn't be found) */
+  warnings: { editId: string; message: string }[];
+}
+
+/** Read access to the files edits may change */
+export interface SourceFiles {
+  /** Paths relative to the project root */
+  list: () => string[];
+  /** Contents of a file, or null when it doesn't exist or may not be edited */
+  read: (file: string) => string | null;
+}
+
+export interface ApplyEditsOptions {
+  /** Files edits may be written to (default: .tsx files under src/data) */
+  include?: RegExp;
+  /** URL prefix of the endpoints (default: /__mathvibe/edits) */
+  base?: string;
+}
+
+/** Components whose text children are editable */
+const TEXT_COMPONENTS = ["EditableText", "HighlightedTerm"];
+
+/** Components whose equation is in another prop than `latex` */
+const EQUATION_PROPS: Record<string, string> = { InteractiveEquation: "equation", MathBlock: "equation" };
+
+/** Edits that add, move, delete or re-lay out sections (the host applies those) */
+const STRUCTURAL_TYPES = ["insert-section", "move-section", "delete-section", "change-layout"];
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// ============================================================================
+// Reading elements
+// ============================================================================
+
+type JsxTag = ts.JsxOpeningElement | ts.JsxSelfClosingElement;
+
+interface ParsedFile {
+  file: string;
+  code: string;
+  sourceFile: ts.SourceFile;
+  tags: JsxTag[];
+}
+
+/** A part of the file that an edit replaces, with its current value */
+type EditTarget = { start: number; end: number; value: string } | { unsupported: string };
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+/** The text a JSX text child renders (same whitespace rules as the JSX transform) */
+const cleanJsxText = (text: string): string => {
+  const lines = text.split(/\r\n|\n|\r/);
+  let lastNonEmpty = -1;
+  lines.forEach((line, index) => {
+    if (/[^ \t]/.test(line)) lastNonEmpty = index;
+  });
+
+  let result = "";
+  lines.forEach((rawLine, index) => {
+    let line = rawLine.replace(/\t/g, " ");
+    if (index !== 0) line = line.replace(/^ +/, "");
+    if (index !== lines.length - 1) line = line.replace(/ +$/, "");
+    if (!line) return;
+    result += index === lastNonEmpty ? line : `${line} `;
+  });
+  return decodeEntities(result);
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const getTagName = (tag: JsxTag, sourceFile: ts.SourceFile) =>
+  tag.tagName.getText(sourceFile).split(".").pop() ?? "";
+
+const getAttribute = (tag: JsxTag, name: string, sourceFile: ts.SourceFile) =>
+  tag.attributes.properties.find(
+    (attribute): attribute is ts.JsxAttribute =>
+      ts.isJsxAttribute(attribute) && attribute.name.getText(sourceFile) === name
+  );
+
+const getEditId = (tag: JsxTag, sourceFile: ts.SourceFile): string | undefined => {
+  const initializer = getAttribute(tag, "editId", sourceFile)?.initializer;
+  if (!initializer) return undefined;
+  if (ts.isStringLiteral(initializer)) return initializer.text;
+  const expression = ts.isJsxExpression(initializer) ? initializer.expression : undefined;
+  return expression && ts.isStringLiteralLike(expression) ? expression.text : undefined;
+};
+
+/** The text children of an element (plain text and string literals only) */
+const getTextTarget = (tag: JsxTag): EditTarget => {
+  if (!ts.isJsxOpeningElement(tag)) return { unsupported: "the element has no text" };
+  const element = tag.parent;
+
+  let value = "";
+  for (const child of element.children) {
+    if (ts.isJsxText(child)) {
+      value += cleanJsxText(child.text);
+    } else if (ts.isJsxExpression(child) && (!child.expression || ts.isStringLiteralLike(child.expression))) {
+      value += child.expression ? child.expression.text : "";
+    } else {
+      return { unsupported: "the text contains markup or expressions, edit it by hand" };
+    }
+  }
+
+  return { start: tag.end, end: element.closingElement.getStart(), value };
+};
+
+type LatexForm = "attribute" | "string" | "template" | "raw";
+
+const getEquationProp = (tag: JsxTag, sourceFile: ts.SourceFile) => EQUATION_PROPS[getTagName(tag, sourceFile)] ?? "latex";
+
+/** Equation edits made on a HighlightedTerm, as \clr{name}{text}: only the term's color changes */
+const isTermEdit = (edit: SourceEdit) => edit.type === "equation" && edit.componentType === "HighlightedTerm";
+
+const getTermName = (latex: string) => /^\\clr\{([^}]+)\}/.exec(latex.trim())?.[1].trim();
+
+/** The `name` prop of a HighlightedTerm */
+const getTermTarget = (tag: JsxTag, { sourceFile }: ParsedFile): EditTarget | null => {
+  const initializer = getAttribute(tag, "name", sourceFile)?.initializer;
+  if (!initializer) return null;
+  const expression = ts.isJsxExpression(initializer) ? initializer.expression : initializer;
+  if (!expression || !ts.isStringLiteralLike(expression)) return { unsupported: "the term name is computed" };
+  return { start: initializer.getStart(sourceFile), end: initializer.end, value: expression.text };
+};
+
+/** The `latex` prop of an element (or the prop its component keeps the equation in) */
+const getLatexTarget = (tag: JsxTag, { sourceFile }: ParsedFile): (EditTarget & { form?: LatexForm }) | null => {
+  const initializer = getAttribute(tag, getEquationProp(tag, sourceFile), sourceFile)?.initializer;
+  if (!initializer) return null;
+
+  const start = initializer.getStart(sourceFile);
+  const end = initializer.end;
+  if (ts.isStringLiteral(initializer)) {
+    // JSX attribute strings have no escapes, only HTML entities
+    return { start, end, value: decodeEntities(initializer.text), form: "attribute" };
+  }
+
+  const expression = ts.isJsxExpression(initializer) ? initializer.expression : undefined;
+  if (expression && ts.isStringLiteral(expression)) return { start, end, value: expression.text, form: "string" };
+  if (expression && ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return { start, end, value: expression.text, form: "template" };
+  }
+  if (
+    expression &&
+    ts.isTaggedTemplateExpression(expression) &&
+    expression.tag.getText(sourceFile) === "String.raw" &&
+    ts.isNoSubstitutionTemplateLiteral(expression.template)
+  ) {
+    return { start, end, value: expression.template.rawText ?? expression.template.text, form: "raw" };
+  }
+  return { unsupported: "the latex is computed, edit it by hand" };
+};
+
+const getTarget = (edit: SourceEdit, tag: JsxTag, parsed: ParsedFile) => {
+  if (edit.type === "text") return getTextTarget(tag);
+  return isTermEdit(edit) ? getTermTarget(tag, parsed) : getLatexTarget(tag, parsed);
+};
+
+const isTargetFor = (edit: SourceEdit, tag: JsxTag, { sourceFile }: ParsedFile) => {
+  if (edit.type === "text") return TEXT_COMPONENTS.includes(getTagName(tag, sourceFile));
+  if (isTermEdit(edit)) return getTagName(tag, sourceFile) === "HighlightedTerm";
+  return getAttribute(tag, getEquationProp(tag, sourceFile), sourceFile) !== undefined;
+};
+
+const matchesOriginal = (edit: SourceEdit, target: EditTarget | null) => {
+  if (!target || "unsupported" in target) return false;
+  if (edit.type === "text") return normalizeText(target.value) === normalizeText(edit.originalText);
+  if (isTermEdit(edit)) return target.value === getTermName(edit.originalLatex);
+  return target.value.trim() === edit.originalLatex.trim();
+};
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+const getIndent = (code: string, position: number) => {
+  const lineStart = code.lastIndexOf("\n", position - 1) + 1;
+  return /^[ \t]*/.exec(code.slice(lineStart))?.[0] ?? "";
+};
+
+/** Wrap words at `width` columns (JSX collapses the line breaks back into spaces) */
+const wrapWords = (text: string, indent: string, width: number) => {
+  const lines: string[] = [];
+  let line = "";
+  text.split(" ").forEach((word) => {
+    if (line && indent.length + line.length + 1 + word.length > width) {
+      lines.push(indent + line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  });
+  lines.push(indent + line);
+  return lines.join("\n");
+};
+
+/** New text children, laid out like the old ones */
+const formatText = (newText: string, target: { start: number; end: number; value: string }, code: string) => {
+  const raw = code.slice(target.start, target.end);
+  const text = normalizeText(newText);
+  const needsExpression = /[{}<>]|&[#\w]+;/.test(text);
+
+  if (raw.includes("\n")) {
+    // Multi-line: text on its own lines at the old indentation, closing tag where it was
+    const indent = /\n([ \t]*)\S/.exec(raw)?.[1] ?? "";
+    const closingIndent = /\n([ \t]*)$/.exec(raw)?.[1] ?? "";
+    const width = Math.max(80, ...raw.split("\n").map((line) => line.length));
+    const body = needsExpression ? `${indent}{${JSON.stringify(text)}}` : wrapWords(text, indent, width);
+    return `\n${body}\n${closingIndent}`;
+  }
+
+  // Single line: keep significant leading / trailing spaces ("The ", " and ")
+  const padded = (/^\s/.test(target.value) ? " " : "") + text + (/\s$/.test(target.value) ? " " : "");
+  return needsExpression ? `{${JSON.stringify(padded)}}` : padded;
+};
+
+/** New `latex` prop value, in the old form when the latex allows it */
+const formatLatex = (latex: string, form: LatexForm | undefined) => {
+  const canBeRaw = !/`|\$\{|\\$/.test(latex);
+  if (form === "attribute" && !/"|&[#\w]+;/.test(latex)) return `"${latex}"`;
+  if (form === "template") return `{\`${latex.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${")}\`}`;
+  if (form !== "string" && canBeRaw) return `{String.raw\`${latex}\`}`;
+  return `{${JSON.stringify(latex)}}`;
+};
+
+const propertyName = (property: ts.ObjectLiteralElementLike, sourceFile: ts.SourceFile) => {
+  const name = property.name;
+  if (!name) return undefined;
+  return ts.isIdentifier(name) || ts.isStringLiteralLike(name) ? name.text : name.getText(sourceFile);
+};
+
+/** The colorMap object of the ColoredEquationProvider around an element */
+const findColorMapObject = (tag: JsxTag, { sourceFile }: ParsedFile): ts.ObjectLiteralExpression | null => {
+  let node: ts.Node | undefined = tag.parent;
+  while (node) {
+    if (ts.isJsxElement(node) && getTagName(node.openingElement, sourceFile) === "ColoredEquationProvider") {
+      const initializer = getAttribute(node.openingElement, "colorMap", sourceFile)?.initializer;
+      let expression = initializer && ts.isJsxExpression(initializer) ? initializer.expression : undefined;
+
+      // colorMap={name}: a const declared in the same file
+      if (expression && ts.isIdentifier(expression)) {
+        const name = expression.text;
+        const declaration = sourceFile.statements
+          .filter(ts.isVariableStatement)
+          .flatMap((statement) => Array.from(statement.declarationList.declarations))
+          .find((declaration) => ts.isIdentifier(declaration.name) && declaration.name.text === name);
+        expression = declaration?.initializer;
+      }
+      while (
+        expression &&
+        (ts.isAsExpression(expression) || ts.isSatisfiesExpression(expression) || ts.isParenthesizedExpression(expression))
+      ) {
+        expression = expression.expression;
+      }
+      return expression && ts.isObjectLiteralExpression(expression) ? expression : null;
+    }
+    node = node.parent;
+  }
+  return null;
+};
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Replacements that set the entries of a colorMap object (entries that aren't mentioned are kept) */
+const updateColorMap = (
+  object: ts.ObjectLiteralExpression,
+  colors: Record<string, string>,
+  { code, sourceFile }: ParsedFile
+): Replacement[] => {
+  const replacements: Replacement[] = [];
+  const added: string[] = [];
+
+  Object.entries(colors).forEach(([key, color]) => {
+    const property = object.properties.find((property) => propertyName(property, sourceFile) === key);
+    if (!property) {
+      added.push(`${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${JSON.stringify(color)}`);
+      return;
+    }
+    const value = ts.isPropertyAssignment(property) ? property.initializer : undefined;
+    if (value && ts.isStringLiteral(value) && value.text !== color) {
+      const quote = code[value.getStart(sourceFile)];
+      const text = quote === "'" ? `'${color.replace(/'/g, "\\'")}'` : JSON.stringify(color);
+      replacements.push({ start: value.getStart(sourceFile), end: value.end, text });
+    }
+  });
+
+  if (added.length > 0) {
+    const last = object.properties[object.properties.length - 1];
+    if (!last) {
+      replacements.push({ start: object.getStart(sourceFile), end: object.end, text: `{ ${added.join(", ")} }` });
+    } else if (code.slice(object.getStart(sourceFile), object.end).includes("\n")) {
+      const indent = getIndent(code, last.getStart(sourceFile));
+      const position = object.properties.hasTrailingComma ? code.indexOf(",", last.end) + 1 : last.end;
+      const lead = object.properties.hasTrailingComma ? "" : ",";
+      const trail = object.properties.hasTrailingComma ? "," : "";
+      replacements.push({
+        start: position,
+        end: position,
+        text: lead + added.map((entry) => `\n${indent}${entry}`).join(",") + trail,
+      });
+    } else {
+      replacements.push({ start: last.end, end: last.end, text: `, ${added.join(", ")}` });
+    }
+  }
+
+  return replacements;
+};
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+const isLocation = (value: unknown): value is SourceEditLocation => {
+  const location = value as SourceEditLocation | undefined;
+  return (
+    !!location &&
+    typeof location.file === "string" &&
+    Number.isInteger(location.line) &&
+    Number.isInteger(location.column)
+  );
+};
+
+/** Check the shape of an edit from the request body */
+export const parseSourceEdit = (value: unknown): SourceEdit | null => {
+  if (!value || typeof value !== "object") return null;
+  const edit = value as Record<string, unknown>;
+  if (typeof edit.id !== "string" || typeof edit.elementPath !== "string") return null;
+  if (edit.source !== undefined && !isLocation(edit.source)) return null;
+
+  if (edit.type === "text") {
+    return typeof edit.originalText === "string" && typeof edit.newText === "string"
+      ? (edit as unknown as SourceEdit)
+      : null;
+  }
+  if (edit.type === "equation") {
+    const colorMap = edit.colorMap as Record<string, unknown> | undefined;
+    const validColors =
+      colorMap === undefined ||
+      (typeof colorMap === "object" && colorMap !== null && Object.values(colorMap).every((c) => typeof c === "string"));
+    const validComponent = edit.componentType === undefined || typeof edit.componentType === "string";
+    return typeof edit.originalLatex === "string" && typeof edit.newLatex === "string" && validColors && validComponent
+      ? (edit as unknown as SourceEdit)
+      : null;
+  }
+  return null;
+};
+
+/**
+ * Work out the changes for a list of edits without writing anything.
+ * Files come back with their new contents.
+ */
+export const planSourceEdits = (
+  edits: unknown[],
+  files: SourceFiles
+): Omit<ApplyEditsResult, "written" | "files"> & { files: (FileChange & { code: string })[] } => {
+  const parsedFiles = new Map<string, ParsedFile | null>();
+  const parse = (file: string): ParsedFile | null => {
+    if (!parsedFiles.has(file)) {
+      const code = files.read(file);
+      let parsed: ParsedFile | null = null;
+      if (code !== null) {
+        const sourceFile = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+        const tags: JsxTag[] = [];
+        const visit = (node: ts.Node) => {
+          if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) tags.push(node);
+          ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        parsed = { file, code, sourceFile, tags };
+      }
+      parsedFiles.set(file, parsed);
+    }
+    return parsedFiles.get(file) ?? null;
+  };
+
+  const conflicts: EditConflict[] = [];
+  const warnings: { editId: string; message: string }[] = [];
+  const replacements = new Map<string, (Replacement & { editId: string })[]>();
+  const colorMaps = new Map<ts.ObjectLiteralExpression, { parsed: ParsedFile; colors: Record<string, string>; editIds: string[] }>();
+  const applied: string[] = [];
+
+  const conflict = (editId: string, reason: EditConflictReason, message: string) => {
+    conflicts.push({ editId, reason, message });
+  };
+
+  edits.forEach((value) => {
+    const edit = parseSourceEdit(value);
+    if (!edit) {
+      const { id, type } = (value ?? {}) as { id?: unknown; type?: unknown };
+      if (typeof type === "string" && STRUCTURAL_TYPES.includes(type)) {
+        conflict(typeof id === "string" ? id : "", "unsupported", "Section edits aren't written to the source, apply them in the editor");
+      } else {
+        conflict(typeof id === "string" ? id : "", "invalid", "Not a valid text or equation edit");
+      }
+      return;
+    }
+
+    // 1. The element at the edit's source location
+    let match: { parsed: ParsedFile; tag: JsxTag } | null = null;
+    let foundChanged = false;
+    if (edit.source) {
+      const parsed = parse(edit.source.file);
+      if (!parsed) {
+        conflict(edit.id, "not-found", `${edit.source.file} doesn't exist or can't be edited`);
+        return;
+      }
+      const { line, column } = edit.source;
+      const tag = parsed.tags.find((tag) => {
+        const position = parsed.sourceFile.getLineAndCharacterOfPosition(tag.getStart(parsed.sourceFile));
+        return position.line + 1 === line && position.character + 1 === column && isTargetFor(edit, tag, parsed);
+      });
+      if (tag) {
+        const target = getTarget(edit, tag, parsed);
+        if (target && "unsupported" in target) {
+          conflict(edit.id, "unsupported", `Can't apply the edit: ${target.unsupported}`);
+          return;
+        }
+        if (matchesOriginal(edit, target)) match = { parsed, tag };
+        else foundChanged = true;
+      }
+    }
+
+    // 2. Otherwise search by editId, or by the original content
+    if (!match) {
+      const editId = edit.elementPath.startsWith("id:") ? edit.elementPath.slice(3) : undefined;
+      const candidates = (edit.source ? [edit.source.file] : files.list())
+        .map(parse)
+        .filter((parsed): parsed is ParsedFile => parsed !== null)
+        .flatMap((parsed) =>
+          parsed.tags
+            .filter((tag) => isTargetFor(edit, tag, parsed))
+            .filter((tag) => !editId || getEditId(tag, parsed.sourceFile) === editId)
+            .map((tag) => ({ parsed, tag }))
+        );
+      const matches = candidates.filter(({ parsed, tag }) => matchesOriginal(edit, getTarget(edit, tag, parsed)));
+
+      if (matches.length > 1) {
+        conflict(edit.id, "ambiguous", `${matches.length} elements match the edit; give the element an editId`);
+        return;
+      }
+      if (matches.length === 0) {
+        if (foundChanged || (editId && candidates.length > 0)) {
+          conflict(edit.id, "changed", "The element changed since the edit was made");
+        } else {
+          conflict(edit.id, "not-found", "No element matches the edit");
+        }
+        return;
+      }
+      match = matches[0];
+    }
+
+    // 3. The replacements
+    const { parsed, tag } = match;
+    const target = getTarget(edit, tag, parsed) as { start: number; end: number; value: string; form?: LatexForm };
+    const text =
+      edit.type === "text"
+        ? formatText(edit.newText, target, parsed.code)
+        : formatLatex(edit.newLatex, target.form);
+
+    const fileReplacements = replacements.get(parsed.file) ?? [];
+    if (fileReplacements.some((other) => other.start < target.end && target.start < other.end)) {
+      conflict(edit.id, "overlap", "Another edit in this request changes the same element");
+      return;
+    }
+    const unchanged =
+      edit.type === "text"
+        ? normalizeText(edit.newText) === normalizeText(target.value)
+        : isTermEdit(edit) || edit.newLatex === target.value;
+    if (!unchanged) fileReplacements.push({ start: target.start, end: target.end, text, editId: edit.id });
+    replacements.set(parsed.file, fileReplacements);
+
+    if (edit.type === "equation" && edit.colorMap && Object.keys(edit.colorMap).length > 0) {
+      const object = findColorMapObject(tag, parsed);
+      if (object) {
+        const entry = colorMaps.get(object) ?? { parsed, colors: {}, editIds: [] };
+        Object.assign(entry.colors, edit.colorMap);
+        entry.editIds.push(edit.id);
+        colorMaps.set(object, entry);
+      } else if (["ColoredEquation", "HighlightedTerm"].includes(getTagName(tag, parsed.sourceFile))) {
+        warnings.push({
+          editId: edit.id,
+          message: "The colorMap wasn't updated: no ColoredEquationProvider with a colorMap object in this file",
+        });
+      }
+    }
+    applied.push(edit.id);
+  });
+
+  colorMaps.forEach(({ parsed, colors, editIds }, object) => {
+    const fileReplacements = replacements.get(parsed.file) ?? [];
+    updateColorMap(object, colors, parsed).forEach((replacement) =>
+      fileReplacements.push({ ...replacement, editId: editIds[editIds.length - 1] })
+    );
+    replacements.set(parsed.file, fileReplacements);
+  });
+
+  const changedFiles = Array.from(replacements.entries())
+    .filter(([, fileReplacements]) => fileReplacements.length > 0)
+    .map(([file, fileReplacements]) => {
+      const before = parse(file)?.code ?? "";
+      // From the end, so earlier positions stay valid
+      const code = [...fileReplacements]
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), before);
+      return {
+        file,
+        code,
+        diff: createUnifiedDiff(file, before, code),
+        editIds: Array.from(new Set(fileReplacements.map(({ editId }) => editId))),
+      };
+    });
+
+  return { files: changedFiles, applied, conflicts, warnings };
+};
+
+// ============================================================================
+// Plugin
+// ============================================================================
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+export const applyEdits = ({
+  include = /\/src\/data\/.*\.tsx$/,
+  base = "/__mathvibe/edits",
+}: ApplyEditsOptions = {}): Plugin => {
+  let root = process.cwd();
+  let allowedOrigins: string[] = [];
+
+  const resolveFile = (file: string): string | null => {
+    const absolute = path.resolve(root, file);
+    const normalized = absolute.split(path.sep).join("/");
+    return absolute.startsWith(root + path.sep) && include.test(normalized) ? absolute : null;
+  };
+
+  const files: SourceFiles = {
+    list: () => {
+      const result: string[] = [];
+      const walk = (directory: string) => {
+        fs.readdirSync(directory, { withFileTypes: true }).forEach((entry) => {
+          const absolute = path.join(directory, entry.name);
+          if (entry.isDirectory()) {
+            if (entry.name !== "node_modules") walk(absolute);
+          } else if (include.test(absolute.split(path.sep).join("/"))) {
+            result.push(path.relative(root, absolute).split(path.sep).join("/"));
+          }
+        });
+      };
+      walk(path.join(root, "src"));
+      return result;
+    },
+    read: (file) => {
+      const absolute = resolveFile(file);
+      return absolute && fs.existsSync(absolute) ? fs.readFileSync(absolute, "utf8") : null;
+    },
+  };
+
+  return {
+    name: "mathvibe-apply-edits",
+    apply: "serve",
+    configResolved(config) {
+      root = config.root;
+      // The editor app posts here from its own origin (same setting as the editor bridge)
+      const fromEnv = (config.env.VITE_BRIDGE_ALLOWED_ORIGINS as string | undefined) ?? "";
+      allowedOrigins = fromEnv.split(",").map((origin) => origin.trim()).filter(Boolean);
+    },
+    configureServer(server) {
+      server.middlewares.use(base, async (req, res, next) => {
+        const route = (req.url ?? "").split("?")[0];
+        if (route !== "/preview" && route !== "/apply") return next();
+
+        const origin = req.headers.origin;
+        if (origin) {
+          const sameOrigin = (() => {
+            try {
+              return new URL(origin).host === req.headers.host;
+            } catch {
+              return false;
+            }
+          })();
+          if (!sameOrigin && !allowedOrigins.includes("*") && !allowedOrigins.includes(origin)) {
+            return sendJson(res, 403, { error: `Origin ${origin} is not allowed` });
+          }
+          res.setHeader("Access-Control-Allow-Origin", origin);
+          res.setHeader("Vary", "Origin");
+        }
+
+        if (req.method === "OPTIONS") {
+          res.setHeader("Access-Control-Allow-Methods", "POST");
+          res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+          res.statusCode = 204;
+          return res.end();
+        }
+        if (req.method !== "POST") return sendJson(res, 405, { error: "Use POST" });
+
+        let edits: unknown;
+        try {
+          edits = (JSON.parse(await readBody(req)) as { edits?: unknown }).edits;
+        } catch (error) {
+          return sendJson(res, 400, { error: `Invalid request: ${(error as Error).message}` });
+        }
+        if (!Array.isArray(edits)) return sendJson(res, 400, { error: 'Expected { "edits": [...] }' });
+
+        const plan = planSourceEdits(edits, files);
+        const written = route === "/apply";
+        try {
+          if (written) {
+            plan.files.forEach(({ file, code }) => fs.writeFileSync(path.resolve(root, file), code));
+          }
+        } catch (error) {
+          return sendJson(res, 500, { error: `Couldn't write the files: ${(error as Error).message}` });
+        }
+
+        const result: ApplyEditsResult = {
+          ...plan,
+          written,
+          files: plan.files.map(({ file, diff, editIds }) => ({ file, diff, editIds })),
+        };
+        if (written && plan.files.length > 0) {
+          server.config.logger.info(`Applied ${plan.applied.length} edit(s) to ${plan.files.map(({ file }) => file).join(", ")}`);
+        }
+        sendJson(res, 200, result);
+      });
+    },
+  };
+};
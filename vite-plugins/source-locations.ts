@@ -0,0 +1,90 @@
+import path from "path";
+import MagicString from "magic-string";
+import ts from "typescript";
+import type { Plugin } from "vite";
+
+/**
+ * Source Locations
+ * ----------------
+ * Adds `sourceLocation="src/data/sections/Intro.tsx:42:9"` to every editable
+ * component written in the lesson's section files, so edits made in the
+ * editor can be mapped back to the exact file and line (see
+ * src/lib/element-identity.ts). Elements that already have a
+ * `sourceLocation` are left alone.
+ *
+ * Runs in every build: any build can be opened in editor mode (`?mode=editor`
+ * overrides VITE_APP_MODE), and edits there need the source locations.
+ */
+
+export interface SourceLocationsOptions {
+  /** Files to tag (default: .tsx files under src/data) */
+  include?: RegExp;
+  /** Components that accept a `sourceLocation` prop */
+  components?: string[];
+}
+
+export const DEFAULT_EDITABLE_COMPONENTS = [
+  "EditableText",
+  "Equation",
+  "ColoredEquation",
+  "HighlightedTerm",
+  "InteractiveEquation",
+  "MathBlock",
+];
+
+/**
+ * Add source locations to the editable components in one file.
+ * Returns null when nothing was tagged.
+ */
+export const addSourceLocations = (
+  code: string,
+  file: string,
+  components: string[] = DEFAULT_EDITABLE_COMPONENTS
+): MagicString | null => {
+  const sourceFile = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const result = new MagicString(code);
+  let tagged = false;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      // <Equation>, and <Atoms.Equation> by its last name
+      const tagName = node.tagName.getText(sourceFile).split(".").pop() ?? "";
+      const hasLocation = node.attributes.properties.some(
+        (attribute) => ts.isJsxAttribute(attribute) && attribute.name.getText(sourceFile) === "sourceLocation"
+      );
+      if (components.includes(tagName) && !hasLocation) {
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        result.appendLeft((node.typeArguments ?? node.tagName).end, ` sourceLocation="${file}:${line + 1}:${character + 1}"`);
+        tagged = true;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return tagged ? result : null;
+};
+
+export const sourceLocations = ({
+  include = /\/src\/data\/.*\.tsx$/,
+  components = DEFAULT_EDITABLE_COMPONENTS,
+}: SourceLocationsOptions = {}): Plugin => {
+  let root = process.cwd();
+
+  return {
+    name: "mathvibe-source-locations",
+    enforce: "pre",
+    configResolved(config) {
+      root = config.root;
+    },
+    transform(code, id) {
+      const file = id.split("?")[0];
+      if (!include.test(file)) return null;
+      const relative = path.relative(root, file).split(path.sep).join("/");
+      const result = addSourceLocations(code, relative, components);
+      if (result === null) return null;
+      // Keep a source map so stack traces and breakpoints point at the original columns
+      return { code: result.toString(), map: result.generateMap({ source: file, hires: true }) };
+    },
+  };
+};
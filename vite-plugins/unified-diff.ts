@@ -0,0 +1,93 @@
+/**
+ * Minimal line-based unified diff, used to preview source edits before
+ * they are written (see apply-edits.ts).
+ */
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  // Common prefix and suffix are unchanged; only diff what's in between
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  // lcs[i * (m + 1) + j] = longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+      ops.push({ type: " ", line: oldMiddle[i++] });
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      ops.push({ type: "-", line: oldMiddle[i++] });
+    } else {
+      ops.push({ type: "+", line: newMiddle[j++] });
+    }
+  }
+  return ops.concat(a.slice(a.length - suffix).map((line) => ({ type: " ", line })));
+};
+
+/**
+ * Unified diff of two versions of a file ("" when they are equal)
+ */
+export const createUnifiedDiff = (file: string, before: string, after: string, context = 3): string => {
+  if (before === after) return "";
+  const ops = diffLines(before.split("\n"), after.split("\n"));
+
+  // Line numbers (1-based) at each op
+  const oldLines: number[] = [];
+  const newLines: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  ops.forEach((op) => {
+    oldLines.push(oldLine);
+    newLines.push(newLine);
+    if (op.type !== "+") oldLine++;
+    if (op.type !== "-") newLine++;
+  });
+
+  const changes = ops.flatMap((op, index) => (op.type === " " ? [] : [index]));
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+
+  let groupStart = 0;
+  while (groupStart < changes.length) {
+    // Changes closer than two contexts apart share a hunk
+    let groupEnd = groupStart;
+    while (groupEnd + 1 < changes.length && changes[groupEnd + 1] - changes[groupEnd] <= context * 2) groupEnd++;
+
+    const start = Math.max(0, changes[groupStart] - context);
+    const end = Math.min(ops.length, changes[groupEnd] + context + 1);
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+
+    output.push(`@@ -${oldLines[start]},${oldCount} +${newLines[start]},${newCount} @@`);
+    hunk.forEach((op) => output.push(`${op.type}${op.line}`));
+    groupStart = groupEnd + 1;
+  }
+
+  return output.join("\n") + "\n";
+};
@@ -2,6 +2,8 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { sourceLocations } from "./vite-plugins/source-locations";
+import { applyEdits } from "./vite-plugins/apply-edits";
 
 // https://vitejs.dev/config/
 //  If we want to deploy to the github pages without custom domain use this 
@@ -13,7 +15,7 @@ export default defineConfig(({ mode }) => ({
     port: 8080,
     allowedHosts: ['.mathvibe.online', '.mathvibe.xyz', '.mathvibe.space'],
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [sourceLocations(), applyEdits(), react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),